@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Job queue and PDF renderer run in the Node.js server process; keep them out of the bundle
+  serverExternalPackages: ["pg-boss", "@react-pdf/renderer"],
   experimental: {
     serverActions: {
       bodySizeLimit: '50mb', // Allow large Excel file uploads
@@ -0,0 +1,57 @@
+import { redirect } from "next/navigation";
+import { ScrollText } from "lucide-react";
+import { AuditLog } from "@/components/audit-log";
+import prisma from "@/lib/db";
+import { getCurrentUser } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+
+interface PageProps {
+  searchParams: Promise<{ reportId?: string; companyId?: string; userId?: string }>;
+}
+
+export default async function AuditPage({ searchParams }: PageProps) {
+  const user = await getCurrentUser();
+  if (!user || !hasPermission(user.role, "audit:view")) {
+    redirect("/admin");
+  }
+
+  const { reportId, companyId, userId } = await searchParams;
+
+  // Options for the filter dropdowns
+  const [companies, users, report] = await Promise.all([
+    prisma.company.findMany({ select: { id: true, name: true }, orderBy: { name: "asc" } }),
+    prisma.user.findMany({ select: { id: true, email: true }, orderBy: { email: "asc" } }),
+    reportId
+      ? prisma.report.findUnique({
+          where: { id: reportId },
+          select: { id: true, periodLabel: true, company: { select: { name: true } } },
+        })
+      : null,
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+          <ScrollText className="w-8 h-8 text-primary" />
+          Audit Log
+        </h1>
+        <p className="text-muted-foreground">
+          Who viewed or downloaded reports, and who changed what in the admin panel.
+        </p>
+      </div>
+
+      <AuditLog
+        companies={companies}
+        users={users}
+        report={
+          report
+            ? { id: report.id, label: `${report.company.name} - ${report.periodLabel ?? "Report"}` }
+            : null
+        }
+        initialCompanyId={companyId}
+        initialUserId={userId}
+      />
+    </div>
+  );
+}
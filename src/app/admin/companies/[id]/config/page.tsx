@@ -8,6 +8,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import {
+  SheetMappingEditor,
+  fromFormRows,
+  toFormRows,
+  type SheetMappingFormRow,
+} from "@/components/sheet-mapping-editor";
 import {
   Select,
   SelectContent,
@@ -100,12 +106,21 @@ export default function ConfigPage({ params }: PageProps) {
     includeBalanceSheetHealth: false,
     includeRiskControls: false,
   });
+  const [sheetMapping, setSheetMapping] = useState<SheetMappingFormRow[]>(toFormRows([]));
 
   useEffect(() => {
     const fetchConfig = async () => {
       try {
-        const response = await fetch(`/api/admin/companies/${id}/config`);
+        const [response, mappingResponse] = await Promise.all([
+          fetch(`/api/admin/companies/${id}/config`),
+          fetch(`/api/admin/companies/${id}/sheet-mapping`),
+        ]);
         const data = await response.json();
+        const mappingData = await mappingResponse.json();
+
+        if (mappingData.success) {
+          setSheetMapping(toFormRows(mappingData.data.mappings));
+        }
 
         if (data.success) {
           setCompanyName(data.data.companyName);
@@ -169,6 +184,19 @@ export default function ConfigPage({ params }: PageProps) {
         return;
       }
 
+      const mappingResponse = await fetch(`/api/admin/companies/${id}/sheet-mapping`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mappings: fromFormRows(sheetMapping) }),
+      });
+
+      const mappingData = await mappingResponse.json();
+
+      if (!mappingData.success) {
+        setError(mappingData.error || "Failed to save sheet mapping");
+        return;
+      }
+
       router.push(`/admin/companies/${id}`);
       router.refresh();
     } catch {
@@ -197,12 +225,13 @@ export default function ConfigPage({ params }: PageProps) {
         </Button>
         <h1 className="text-3xl font-bold tracking-tight">Report Configuration</h1>
         <p className="text-muted-foreground">
-          Configure which sections to include in financial reports for {companyName}.
+          Configure which sections to include in financial reports for {companyName}, and where
+          to find them in the workbook.
         </p>
       </div>
 
       <div className="grid gap-6 lg:grid-cols-3">
-        <div className="lg:col-span-2">
+        <div className="lg:col-span-2 space-y-6">
           <Card>
             <CardHeader>
               <CardTitle>Report Sections</CardTitle>
@@ -234,6 +263,8 @@ export default function ConfigPage({ params }: PageProps) {
               ))}
             </CardContent>
           </Card>
+
+          <SheetMappingEditor companyId={id} rows={sheetMapping} onChange={setSheetMapping} />
         </div>
 
         <div className="space-y-4">
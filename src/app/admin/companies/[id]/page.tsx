@@ -1,9 +1,12 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { ArrowLeft, Settings, FileText, Users, Calendar, CheckCircle, XCircle, Clock } from "lucide-react";
+import { ArrowLeft, Settings, FileText, Users, Calendar, CalendarClock, CheckCircle, XCircle, Clock } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { CompanyEngagementCard } from "@/components/company-engagement";
 import prisma from "@/lib/db";
+import { getCompanyEngagement } from "@/lib/engagement";
+import { getRoleLabel } from "@/lib/permissions";
 import { formatDate, formatPeriodLabel } from "@/lib/utils";
 
 interface PageProps {
@@ -16,14 +19,17 @@ export default async function CompanyDetailPage({ params }: PageProps) {
   const company = await prisma.company.findUnique({
     where: { id },
     include: {
-      users: {
-        select: {
-          id: true,
-          email: true,
-          role: true,
-          createdAt: true,
-          lastLoginAt: true,
+      memberships: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              lastLoginAt: true,
+            },
+          },
         },
+        orderBy: { createdAt: "asc" },
       },
       reports: {
         orderBy: { periodEnd: "desc" },
@@ -34,6 +40,7 @@ export default async function CompanyDetailPage({ params }: PageProps) {
           periodLabel: true,
           status: true,
           published: true,
+          reviewStatus: true,
           createdAt: true,
         },
       },
@@ -45,6 +52,8 @@ export default async function CompanyDetailPage({ params }: PageProps) {
     notFound();
   }
 
+  const engagement = await getCompanyEngagement(id);
+
   const statusIcon = (status: string) => {
     switch (status) {
       case "complete":
@@ -84,6 +93,12 @@ export default async function CompanyDetailPage({ params }: PageProps) {
               Configure Metrics
             </Link>
           </Button>
+          <Button asChild variant="outline">
+            <Link href={`/admin/companies/${id}/schedule`}>
+              <CalendarClock className="w-4 h-4 mr-2" />
+              Schedule
+            </Link>
+          </Button>
           <Button asChild>
             <Link href={`/admin/generate?company=${id}`}>
               <FileText className="w-4 h-4 mr-2" />
@@ -102,17 +117,17 @@ export default async function CompanyDetailPage({ params }: PageProps) {
               <CardTitle>Users</CardTitle>
             </div>
             <CardDescription>
-              {company.users.length} user(s) have access to this company.
+              {company.memberships.length} user(s) have access to this company.
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {company.users.length === 0 ? (
+            {company.memberships.length === 0 ? (
               <p className="text-muted-foreground text-sm">
                 No users assigned yet. Users are created through Clerk webhooks.
               </p>
             ) : (
               <div className="space-y-2">
-                {company.users.map((user) => (
+                {company.memberships.map(({ user, role }) => (
                   <div
                     key={user.id}
                     className="flex items-center justify-between p-2 rounded-lg bg-muted/50"
@@ -126,7 +141,7 @@ export default async function CompanyDetailPage({ params }: PageProps) {
                       </p>
                     </div>
                     <span className="text-xs px-2 py-1 rounded-full bg-primary/10 text-primary">
-                      {user.role}
+                      {getRoleLabel(role)}
                     </span>
                   </div>
                 ))}
@@ -179,6 +194,8 @@ export default async function CompanyDetailPage({ params }: PageProps) {
         </Card>
       </div>
 
+      <CompanyEngagementCard engagement={engagement} />
+
       {/* Reports */}
       <Card>
         <CardHeader>
@@ -226,13 +243,20 @@ export default async function CompanyDetailPage({ params }: PageProps) {
                         {report.published ? (
                           <span className="text-green-600">Yes</span>
                         ) : (
-                          <span className="text-muted-foreground">No</span>
+                          <span className="text-muted-foreground">
+                            No{report.status === "complete" && ` (${report.reviewStatus.replace("_", " ")})`}
+                          </span>
                         )}
                       </td>
                       <td className="py-2 px-3 text-muted-foreground">
                         {formatDate(report.createdAt)}
                       </td>
                       <td className="py-2 px-3 text-right">
+                        {report.status === "complete" && (
+                          <Button asChild variant="ghost" size="sm">
+                            <Link href={`/admin/reports/${report.id}`}>Review</Link>
+                          </Button>
+                        )}
                         {report.status === "complete" && (
                           <Button asChild variant="ghost" size="sm">
                             <Link href={`/reports/${report.id}`}>View</Link>
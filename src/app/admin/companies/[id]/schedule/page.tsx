@@ -0,0 +1,275 @@
+"use client";
+
+import { useState, useEffect, use } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, CalendarClock, Loader2, Play, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatDate, formatPeriodLabel } from "@/lib/utils";
+import type { ReportScheduleDetail } from "@/types";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_BUSINESS_DAY = 20; // Matches src/lib/schedules.ts
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: "Queued for generation",
+  waiting_for_file: "Waiting for a workbook",
+  skipped_existing: "Skipped - report already exists",
+  complete: "Report generated",
+  failed: "Failed",
+};
+
+export default function SchedulePage({ params }: PageProps) {
+  const { id } = use(params);
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState("");
+  const [companyName, setCompanyName] = useState("");
+  const [schedule, setSchedule] = useState<ReportScheduleDetail | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [sourceFolder, setSourceFolder] = useState(`uploads/${id}`);
+  const [businessDay, setBusinessDay] = useState("5");
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const response = await fetch(`/api/admin/companies/${id}/schedule`);
+        const data = await response.json();
+
+        if (data.success) {
+          setCompanyName(data.data.companyName);
+          if (data.data.schedule) {
+            setSchedule(data.data.schedule);
+            setEnabled(data.data.schedule.enabled);
+            setSourceFolder(data.data.schedule.sourceFolder);
+            setBusinessDay(String(data.data.schedule.businessDay));
+          }
+        }
+      } catch {
+        setError("Failed to load schedule");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSchedule();
+  }, [id]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch(`/api/admin/companies/${id}/schedule`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          enabled,
+          sourceFolder,
+          businessDay: parseInt(businessDay, 10),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || "Failed to save schedule");
+        return;
+      }
+
+      setSchedule(data.data);
+      setSourceFolder(data.data.sourceFolder);
+      toast.success("Schedule saved");
+      router.refresh();
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setRunning(true);
+
+    try {
+      const response = await fetch(`/api/admin/companies/${id}/schedule/run`, {
+        method: "POST",
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to run schedule");
+      }
+
+      setSchedule(data.data.schedule);
+      const { run } = data.data;
+      if (run.status === "queued") {
+        toast.success(`Queued ${formatPeriodLabel(run.periodEnd)} from ${run.fileName}`);
+      } else if (run.status === "skipped_existing") {
+        toast.info(`A ${formatPeriodLabel(run.periodEnd)} report already exists`);
+      } else {
+        toast.error(run.message);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run schedule");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild className="-ml-2 mb-2">
+          <Link href={`/admin/companies/${id}`}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to {companyName}
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold tracking-tight">Monthly Schedule</h1>
+        <p className="text-muted-foreground">
+          Generate {companyName}&apos;s report automatically from the latest workbook in storage.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Schedule</CardTitle>
+              <CardDescription>
+                On the chosen business day after month end, the newest .xlsx saved to the folder
+                after the month closed is used to generate the previous month&apos;s report.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="enabled"
+                  checked={enabled}
+                  onCheckedChange={(checked) => setEnabled(checked === true)}
+                />
+                <Label htmlFor="enabled" className="cursor-pointer">
+                  Run automatically every month
+                </Label>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sourceFolder">Source folder</Label>
+                <Input
+                  id="sourceFolder"
+                  value={sourceFolder}
+                  onChange={(e) => setSourceFolder(e.target.value)}
+                  placeholder="uploads/acme"
+                />
+                <p className="text-xs text-muted-foreground">
+                  A folder in the storage bucket. Sub-folders aren&apos;t searched.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="businessDay">Business day after month end</Label>
+                <Input
+                  id="businessDay"
+                  type="number"
+                  min={1}
+                  max={MAX_BUSINESS_DAY}
+                  value={businessDay}
+                  onChange={(e) => setBusinessDay(e.target.value)}
+                  className="w-32"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Weekdays only - public holidays aren&apos;t skipped.
+                </p>
+              </div>
+
+              {error && <p className="text-sm text-red-500">{error}</p>}
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                Save Schedule
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CalendarClock className="w-5 h-5 text-primary" />
+                <CardTitle>Status</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {!schedule ? (
+                <p className="text-muted-foreground">Not scheduled yet.</p>
+              ) : (
+                <>
+                  <div>
+                    <p className="text-muted-foreground">Next run</p>
+                    <p className="font-medium">
+                      {schedule.nextRunAt ? formatDate(schedule.nextRunAt) : "Disabled"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Last run</p>
+                    {schedule.lastRunAt ? (
+                      <>
+                        <p className="font-medium">
+                          {formatDate(schedule.lastRunAt)}
+                          {schedule.lastPeriodEnd && ` (${formatPeriodLabel(schedule.lastPeriodEnd)})`}
+                        </p>
+                        <p>{STATUS_LABELS[schedule.lastStatus ?? ""] ?? schedule.lastStatus}</p>
+                        {schedule.lastMessage && (
+                          <p className="text-xs text-muted-foreground">{schedule.lastMessage}</p>
+                        )}
+                      </>
+                    ) : (
+                      <p className="font-medium">Never</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={handleRunNow}
+                    disabled={running}
+                    className="w-full"
+                  >
+                    {running ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Play className="w-4 h-4 mr-2" />
+                    )}
+                    Run Now
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,45 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
-import { ArrowLeft, Users, UserPlus, Trash2, Shield, User, RefreshCw } from "lucide-react";
+import { ArrowLeft, Users, UserPlus, Trash2, Shield, User, RefreshCw, Globe, X } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
+import { TeamInvitations } from "@/components/team-invitations";
+import { USER_ROLES, getRoleLabel, isFirmRole } from "@/lib/permissions";
+import type { UserRole } from "@prisma/client";
+import type { InvitationListItem } from "@/types";
 
 interface CompanyUser {
   id: string;
   email: string;
-  role: string;
+  role: UserRole; // Role at this company
+  firmRole: UserRole;
   createdAt: string;
   lastLoginAt: string | null;
 }
 
-interface UnlinkedUser {
+interface DirectoryUser {
   id: string;
   email: string;
+  role: UserRole;
   createdAt: string;
   lastLoginAt: string | null;
+  companies: Array<{ id: string; name: string; role: UserRole }>;
 }
 
+interface VerifiedDomain {
+  id: string;
+  domain: string;
+  createdAt: string;
+}
+
+const CLIENT_ROLES = USER_ROLES.filter((r) => r.scope === "client");
+
 interface Company {
   id: string;
   name: string;
@@ -34,10 +51,32 @@ export default function UsersPage() {
 
   const [company, setCompany] = useState<Company | null>(null);
   const [users, setUsers] = useState<CompanyUser[]>([]);
-  const [unlinkedUsers, setUnlinkedUsers] = useState<UnlinkedUser[]>([]);
+  const [allUsers, setAllUsers] = useState<DirectoryUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [syncing, setSyncing] = useState(false);
+  const [newUserRoles, setNewUserRoles] = useState<Record<string, UserRole>>({});
+  const [invitations, setInvitations] = useState<InvitationListItem[]>([]);
+  const [domains, setDomains] = useState<VerifiedDomain[]>([]);
+  const [newDomain, setNewDomain] = useState("");
+  const [domainLoading, setDomainLoading] = useState(false);
+
+  const fetchInvitations = useCallback(async () => {
+    const res = await fetch(`/api/admin/companies/${companyId}/invitations`);
+    const data = await res.json();
+    if (data.success) {
+      setInvitations(data.data);
+    }
+  }, [companyId]);
+
+  // Invitations for existing users are accepted straight away, so reload members too
+  async function refreshMembers() {
+    const usersRes = await fetch(`/api/admin/companies/${companyId}/users`);
+    if (usersRes.ok) {
+      setUsers(await usersRes.json());
+    }
+    await fetchInvitations();
+  }
 
   // Fetch data
   useEffect(() => {
@@ -47,7 +86,7 @@ export default function UsersPage() {
         const companyRes = await fetch(`/api/admin/companies/${companyId}`);
         if (companyRes.ok) {
           const companyData = await companyRes.json();
-          setCompany(companyData);
+          setCompany(companyData.data);
         }
 
         // Fetch company users
@@ -57,11 +96,20 @@ export default function UsersPage() {
           setUsers(usersData);
         }
 
-        // Fetch unlinked users
-        const unlinkedRes = await fetch("/api/admin/users/unlinked");
-        if (unlinkedRes.ok) {
-          const unlinkedData = await unlinkedRes.json();
-          setUnlinkedUsers(unlinkedData);
+        // Fetch every user (to add existing users to this company too)
+        const allUsersRes = await fetch("/api/admin/users");
+        if (allUsersRes.ok) {
+          const allUsersData = await allUsersRes.json();
+          setAllUsers(allUsersData);
+        }
+
+        await fetchInvitations();
+
+        // Fetch verified email domains
+        const domainsRes = await fetch(`/api/admin/companies/${companyId}/domains`);
+        const domainsData = await domainsRes.json();
+        if (domainsData.success) {
+          setDomains(domainsData.data);
         }
       } catch (error) {
         console.error("Error fetching data:", error);
@@ -72,10 +120,13 @@ export default function UsersPage() {
     }
 
     fetchData();
-  }, [companyId]);
+  }, [companyId, fetchInvitations]);
+
+  // Users who aren't members of this company yet
+  const availableUsers = allUsers.filter((u) => !users.some((member) => member.id === u.id));
 
   // Add user to company
-  async function addUser(userId: string, role: "admin" | "viewer" = "viewer") {
+  async function addUser(userId: string, role: UserRole = "client_viewer") {
     setActionLoading(userId);
     try {
       const res = await fetch(`/api/admin/companies/${companyId}/users`, {
@@ -92,8 +143,22 @@ export default function UsersPage() {
       const addedUser = await res.json();
 
       // Update local state
-      setUnlinkedUsers((prev) => prev.filter((u) => u.id !== userId));
-      setUsers((prev) => [...prev, { ...addedUser, createdAt: new Date().toISOString(), lastLoginAt: null }]);
+      const directoryUser = allUsers.find((u) => u.id === userId);
+      setUsers((prev) => [
+        ...prev,
+        {
+          ...addedUser,
+          createdAt: directoryUser?.createdAt ?? new Date().toISOString(),
+          lastLoginAt: directoryUser?.lastLoginAt ?? null,
+        },
+      ]);
+      if (company) {
+        setAllUsers((prev) =>
+          prev.map((u) =>
+            u.id === userId ? { ...u, companies: [...u.companies, { ...company, role: addedUser.role }] } : u
+          )
+        );
+      }
 
       toast.success("User added to company");
     } catch (error) {
@@ -121,16 +186,12 @@ export default function UsersPage() {
       }
 
       // Update local state
-      const removedUser = users.find((u) => u.id === userId);
       setUsers((prev) => prev.filter((u) => u.id !== userId));
-      if (removedUser) {
-        setUnlinkedUsers((prev) => [...prev, {
-          id: removedUser.id,
-          email: removedUser.email,
-          createdAt: removedUser.createdAt,
-          lastLoginAt: removedUser.lastLoginAt
-        }]);
-      }
+      setAllUsers((prev) =>
+        prev.map((u) =>
+          u.id === userId ? { ...u, companies: u.companies.filter((c) => c.id !== companyId) } : u
+        )
+      );
 
       toast.success("User removed from company");
     } catch (error) {
@@ -156,11 +217,11 @@ export default function UsersPage() {
       const result = await res.json();
       toast.success(result.message);
 
-      // Refresh unlinked users list
-      const unlinkedRes = await fetch("/api/admin/users/unlinked");
-      if (unlinkedRes.ok) {
-        const unlinkedData = await unlinkedRes.json();
-        setUnlinkedUsers(unlinkedData);
+      // Refresh users list
+      const allUsersRes = await fetch("/api/admin/users");
+      if (allUsersRes.ok) {
+        const allUsersData = await allUsersRes.json();
+        setAllUsers(allUsersData);
       }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "Failed to sync users");
@@ -169,14 +230,14 @@ export default function UsersPage() {
     }
   }
 
-  // Change user role
-  async function changeRole(userId: string, newRole: "admin" | "viewer") {
+  // Change a member's role at this company
+  async function changeRole(userId: string, role: UserRole) {
     setActionLoading(userId);
     try {
       const res = await fetch(`/api/admin/companies/${companyId}/users/${userId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ role: newRole }),
+        body: JSON.stringify({ role }),
       });
 
       if (!res.ok) {
@@ -184,12 +245,14 @@ export default function UsersPage() {
         throw new Error(error.error || "Failed to change role");
       }
 
+      const updated: { role: UserRole; firmRole: UserRole } = await res.json();
+
       // Update local state
       setUsers((prev) =>
-        prev.map((u) => (u.id === userId ? { ...u, role: newRole } : u))
+        prev.map((u) => (u.id === userId ? { ...u, role: updated.role, firmRole: updated.firmRole } : u))
       );
 
-      toast.success(`Role changed to ${newRole}`);
+      toast.success(`Role changed to ${getRoleLabel(updated.role)}`);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "Failed to change role");
     } finally {
@@ -197,6 +260,53 @@ export default function UsersPage() {
     }
   }
 
+  // Verify an email domain: new sign-ups from it join this company as viewers
+  async function addDomain(e: React.FormEvent) {
+    e.preventDefault();
+    setDomainLoading(true);
+    try {
+      const res = await fetch(`/api/admin/companies/${companyId}/domains`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ domain: newDomain }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to add domain");
+      }
+
+      setDomains((prev) => [...prev, data.data].sort((a, b) => a.domain.localeCompare(b.domain)));
+      setNewDomain("");
+      toast.success(`${data.data.domain} verified`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add domain");
+    } finally {
+      setDomainLoading(false);
+    }
+  }
+
+  async function removeDomain(domainId: string) {
+    setDomainLoading(true);
+    try {
+      const res = await fetch(`/api/admin/companies/${companyId}/domains/${domainId}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to remove domain");
+      }
+
+      setDomains((prev) => prev.filter((d) => d.id !== domainId));
+      toast.success("Domain removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove domain");
+    } finally {
+      setDomainLoading(false);
+    }
+  }
+
   function formatDate(dateString: string | null) {
     if (!dateString) return "Never";
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -238,7 +348,12 @@ export default function UsersPage() {
         <CardHeader>
           <CardTitle>Company Users</CardTitle>
           <CardDescription>
-            {users.length} user(s) have access to this company.
+            {users.length} user(s) have access to this company. Firm staff see every company
+            without being added here; their roles are set on{" "}
+            <Link href="/admin/users" className="underline">
+              Firm Users
+            </Link>
+            .
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -252,7 +367,8 @@ export default function UsersPage() {
                 <thead>
                   <tr className="border-b">
                     <th className="text-left py-3 px-3 font-medium">Email</th>
-                    <th className="text-left py-3 px-3 font-medium">Role</th>
+                    <th className="text-left py-3 px-3 font-medium">Company Role</th>
+                    <th className="text-left py-3 px-3 font-medium">Firm Role</th>
                     <th className="text-left py-3 px-3 font-medium">Last Login</th>
                     <th className="text-right py-3 px-3 font-medium">Actions</th>
                   </tr>
@@ -262,7 +378,7 @@ export default function UsersPage() {
                     <tr key={user.id} className="border-b hover:bg-muted/30">
                       <td className="py-3 px-3">
                         <div className="flex items-center gap-2">
-                          {user.role === "admin" ? (
+                          {isFirmRole(user.firmRole) ? (
                             <Shield className="w-4 h-4 text-primary" />
                           ) : (
                             <User className="w-4 h-4 text-muted-foreground" />
@@ -271,31 +387,31 @@ export default function UsersPage() {
                         </div>
                       </td>
                       <td className="py-3 px-3">
-                        <span
-                          className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${
-                            user.role === "admin"
-                              ? "bg-primary/10 text-primary"
-                              : "bg-muted text-muted-foreground"
-                          }`}
+                        <Select
+                          value={user.role}
+                          onValueChange={(value) => changeRole(user.id, value as UserRole)}
+                          disabled={actionLoading === user.id}
                         >
-                          {user.role}
-                        </span>
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CLIENT_ROLES.map((role) => (
+                              <SelectItem key={role.value} value={role.value}>
+                                {role.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="py-3 px-3 text-muted-foreground">
+                        {isFirmRole(user.firmRole) ? getRoleLabel(user.firmRole) : "None"}
                       </td>
                       <td className="py-3 px-3 text-muted-foreground">
                         {formatDate(user.lastLoginAt)}
                       </td>
                       <td className="py-3 px-3 text-right">
                         <div className="flex items-center justify-end gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            disabled={actionLoading === user.id}
-                            onClick={() =>
-                              changeRole(user.id, user.role === "admin" ? "viewer" : "admin")
-                            }
-                          >
-                            {user.role === "admin" ? "Make Viewer" : "Make Admin"}
-                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -316,6 +432,65 @@ export default function UsersPage() {
         </CardContent>
       </Card>
 
+      {/* Invitations */}
+      <TeamInvitations
+        endpoint={`/api/admin/companies/${companyId}/invitations`}
+        invitations={invitations}
+        onChange={refreshMembers}
+      />
+
+      {/* Verified Domains */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Globe className="w-5 h-5 text-primary" />
+            <CardTitle>Verified Domains</CardTitle>
+          </div>
+          <CardDescription>
+            New users signing up with an email address at these domains join this company as
+            Client Viewers. Only add domains the company owns.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={addDomain} className="flex gap-2">
+            <Input
+              placeholder="acme.com"
+              value={newDomain}
+              onChange={(e) => setNewDomain(e.target.value)}
+              disabled={domainLoading}
+            />
+            <Button type="submit" disabled={domainLoading || !newDomain.trim()}>
+              Add Domain
+            </Button>
+          </form>
+          {domains.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No verified domains. Users only join through invitations.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {domains.map((d) => (
+                <span
+                  key={d.id}
+                  className="inline-flex items-center gap-1 rounded-full bg-muted px-3 py-1 text-sm"
+                >
+                  {d.domain}
+                  <button
+                    type="button"
+                    onClick={() => removeDomain(d.id)}
+                    disabled={domainLoading}
+                    className="text-muted-foreground hover:text-red-600"
+                    aria-label={`Remove ${d.domain}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Add Users */}
       <Card>
         <CardHeader>
@@ -335,14 +510,14 @@ export default function UsersPage() {
             </Button>
           </div>
           <CardDescription>
-            Add users who have signed up but aren&apos;t linked to a company yet.
+            Add users who have signed up, including users who already belong to other companies.
             Click &quot;Sync from Clerk&quot; to import users who signed up but aren&apos;t in the database.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {unlinkedUsers.length === 0 ? (
+          {availableUsers.length === 0 ? (
             <p className="text-muted-foreground text-sm py-4">
-              No unlinked users available. Users appear here after they sign up.
+              No other users available. Users appear here after they sign up.
             </p>
           ) : (
             <div className="overflow-x-auto">
@@ -350,33 +525,48 @@ export default function UsersPage() {
                 <thead>
                   <tr className="border-b">
                     <th className="text-left py-3 px-3 font-medium">Email</th>
+                    <th className="text-left py-3 px-3 font-medium">Other Companies</th>
                     <th className="text-left py-3 px-3 font-medium">Signed Up</th>
                     <th className="text-right py-3 px-3 font-medium">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {unlinkedUsers.map((user) => (
+                  {availableUsers.map((user) => (
                     <tr key={user.id} className="border-b hover:bg-muted/30">
                       <td className="py-3 px-3">{user.email}</td>
+                      <td className="py-3 px-3 text-muted-foreground">
+                        {user.companies.length > 0
+                          ? user.companies.map((c) => c.name).join(", ")
+                          : "Unlinked"}
+                      </td>
                       <td className="py-3 px-3 text-muted-foreground">
                         {formatDate(user.createdAt)}
                       </td>
                       <td className="py-3 px-3 text-right">
                         <div className="flex items-center justify-end gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            disabled={actionLoading === user.id}
-                            onClick={() => addUser(user.id, "viewer")}
+                          <Select
+                            value={newUserRoles[user.id] ?? "client_viewer"}
+                            onValueChange={(value) =>
+                              setNewUserRoles((prev) => ({ ...prev, [user.id]: value as UserRole }))
+                            }
                           >
-                            Add as Viewer
-                          </Button>
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {CLIENT_ROLES.map((role) => (
+                                <SelectItem key={role.value} value={role.value}>
+                                  {role.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                           <Button
                             size="sm"
                             disabled={actionLoading === user.id}
-                            onClick={() => addUser(user.id, "admin")}
+                            onClick={() => addUser(user.id, newUserRoles[user.id])}
                           >
-                            Add as Admin
+                            Add
                           </Button>
                         </div>
                       </td>
@@ -11,7 +11,7 @@ export default async function CompaniesPage() {
     include: {
       _count: {
         select: {
-          users: true,
+          memberships: true,
           reports: true,
         },
       },
@@ -75,7 +75,7 @@ export default async function CompaniesPage() {
                 <div className="flex gap-4 text-sm">
                   <div className="flex items-center gap-1 text-muted-foreground">
                     <Users className="w-4 h-4" />
-                    <span>{company._count.users} users</span>
+                    <span>{company._count.memberships} users</span>
                   </div>
                   <div className="flex items-center gap-1 text-muted-foreground">
                     <FileText className="w-4 h-4" />
@@ -0,0 +1,566 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Upload,
+  FileSpreadsheet,
+  Loader2,
+  AlertCircle,
+  CheckCircle,
+  XCircle,
+  Clock,
+  Trash2,
+} from "lucide-react";
+import { useDropzone } from "react-dropzone";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { readWorkbookText, suggestCompany, type CompanySuggestion } from "@/lib/company-match";
+import { formatCurrency, formatPeriodLabel } from "@/lib/utils";
+import type { BatchReportStatus, GenerationBatchStatus } from "@/types";
+
+interface Company {
+  id: string;
+  name: string;
+}
+
+interface BatchFile {
+  key: string;
+  file: File;
+  companyId: string;
+  suggestion: CompanySuggestion | null;
+  uploadError?: string;
+}
+
+const POLL_INTERVAL_MS = 3000;
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10; // Matches src/lib/batches.ts
+
+const STAGE_LABELS: Record<string, string> = {
+  uploading: "Uploading",
+  queued: "Queued",
+  extracting: "Extracting",
+  generating: "Generating",
+  saving: "Saving",
+  retrying: "Retrying",
+};
+
+function formatTokens(report: BatchReportStatus): string {
+  if (report.inputTokens === null || report.outputTokens === null) {
+    return "-";
+  }
+  const tokens = `${report.inputTokens.toLocaleString()} in / ${report.outputTokens.toLocaleString()} out`;
+  return report.costUsd !== null ? `${tokens} (${formatCurrency(report.costUsd, { decimals: 2 })})` : tokens;
+}
+
+function ReportStatusCell({ report }: { report: BatchReportStatus }) {
+  if (report.status === "complete") {
+    return (
+      <span className="flex items-center gap-1 text-green-700">
+        <CheckCircle className="w-4 h-4" />
+        Complete
+      </span>
+    );
+  }
+
+  if (report.status === "failed") {
+    return (
+      <span className="flex items-center gap-1 text-red-600" title={report.errorMessage ?? undefined}>
+        <XCircle className="w-4 h-4" />
+        Failed
+      </span>
+    );
+  }
+
+  if (report.waiting) {
+    return (
+      <span className="flex items-center gap-1 text-muted-foreground">
+        <Clock className="w-4 h-4" />
+        Waiting for a slot
+      </span>
+    );
+  }
+
+  return (
+    <div className="space-y-1 min-w-[140px]">
+      <span className="flex items-center gap-1 text-orange-600">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        {STAGE_LABELS[report.stage ?? ""] ?? "Processing"}
+        {report.attempts > 1 && ` (attempt ${report.attempts})`}
+      </span>
+      <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+        <div className="h-full bg-primary transition-all" style={{ width: `${report.progress}%` }} />
+      </div>
+    </div>
+  );
+}
+
+export default function BatchGeneratePage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const trackedBatchId = searchParams.get("batch");
+
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [periodEnd, setPeriodEnd] = useState(() => {
+    // Default to last day of previous month
+    const now = new Date();
+    const lastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
+    return lastMonth.toISOString().split("T")[0];
+  });
+  const [concurrency, setConcurrency] = useState(String(DEFAULT_CONCURRENCY));
+  const [files, setFiles] = useState<BatchFile[]>([]);
+  const [starting, setStarting] = useState(false);
+  const [uploadedCount, setUploadedCount] = useState(0);
+  const [error, setError] = useState("");
+  const [batch, setBatch] = useState<GenerationBatchStatus | null>(null);
+
+  useEffect(() => {
+    const fetchCompanies = async () => {
+      try {
+        const response = await fetch("/api/admin/companies");
+        const data = await response.json();
+        if (data.success) {
+          setCompanies(data.data);
+        }
+      } catch {
+        console.error("Failed to fetch companies");
+      }
+    };
+    fetchCompanies();
+  }, []);
+
+  // Poll the batch until every report has finished
+  useEffect(() => {
+    if (!trackedBatchId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/admin/batches/${trackedBatchId}`);
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (!data.success) {
+          setError(data.error || "Failed to load batch");
+          return;
+        }
+
+        const status = data.data as GenerationBatchStatus;
+        setBatch(status);
+        if (status.counts.waiting + status.counts.running === 0) {
+          return;
+        }
+      } catch {
+        // Transient network error - keep polling
+      }
+
+      if (!cancelled) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trackedBatchId]);
+
+  const onDrop = useCallback(
+    async (acceptedFiles: File[]) => {
+      setError("");
+      const added = await Promise.all(
+        acceptedFiles.map(async (file): Promise<BatchFile> => {
+          let workbookText = "";
+          try {
+            workbookText = await readWorkbookText(await file.arrayBuffer());
+          } catch {
+            // Unreadable here - the worker reports the real problem
+          }
+          const suggestion = suggestCompany(file.name, workbookText, companies);
+          return {
+            key: `${file.name}-${file.lastModified}-${file.size}`,
+            file,
+            companyId: suggestion?.companyId ?? "",
+            suggestion,
+          };
+        })
+      );
+
+      setFiles((current) => {
+        const keys = new Set(current.map((f) => f.key));
+        return [...current, ...added.filter((f) => !keys.has(f.key))];
+      });
+    },
+    [companies]
+  );
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+      "application/vnd.ms-excel": [".xls"],
+      "text/csv": [".csv"],
+    },
+    maxSize: 50 * 1024 * 1024, // 50MB
+    disabled: starting,
+  });
+
+  const setFileCompany = (key: string, companyId: string) => {
+    setFiles((current) => current.map((f) => (f.key === key ? { ...f, companyId } : f)));
+  };
+
+  const removeFile = (key: string) => {
+    setFiles((current) => current.filter((f) => f.key !== key));
+  };
+
+  const duplicateCompanyIds = new Set(
+    files
+      .map((f) => f.companyId)
+      .filter((id, index, ids) => id && ids.indexOf(id) !== index)
+  );
+  const unmappedCount = files.filter((f) => !f.companyId).length;
+
+  const handleStart = async () => {
+    if (!periodEnd || files.length === 0 || unmappedCount > 0 || duplicateCompanyIds.size > 0) {
+      setError("Map every workbook to a different company first");
+      return;
+    }
+
+    setStarting(true);
+    setUploadedCount(0);
+    setError("");
+
+    try {
+      const response = await fetch("/api/admin/batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ periodEnd, concurrency: parseInt(concurrency, 10) }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to create batch");
+      }
+
+      const batchId = data.data.batchId as string;
+      const failed: BatchFile[] = [];
+
+      // One upload at a time - the batch starts generating as soon as the first lands
+      for (const entry of files) {
+        const formData = new FormData();
+        formData.append("companyId", entry.companyId);
+        formData.append("file", entry.file);
+
+        try {
+          const res = await fetch(`/api/admin/batches/${batchId}/reports`, {
+            method: "POST",
+            body: formData,
+          });
+          const result = await res.json();
+          if (!result.success) {
+            throw new Error(result.error || "Upload failed");
+          }
+        } catch (uploadError) {
+          failed.push({
+            ...entry,
+            uploadError: uploadError instanceof Error ? uploadError.message : "Upload failed",
+          });
+        }
+        setUploadedCount((count) => count + 1);
+      }
+
+      if (failed.length > 0) {
+        toast.error(`${failed.length} workbook(s) failed to upload`);
+      }
+
+      setFiles(failed);
+      router.replace(`/admin/generate/batch?batch=${batchId}`);
+    } catch (startError) {
+      setError(startError instanceof Error ? startError.message : "An error occurred. Please try again.");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleNewBatch = () => {
+    setBatch(null);
+    setFiles([]);
+    setError("");
+    router.replace("/admin/generate/batch");
+  };
+
+  const companyName = (id: string) => companies.find((c) => c.id === id)?.name;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild className="-ml-2 mb-2">
+          <Link href="/admin/generate">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to Generate
+          </Link>
+        </Button>
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Batch Generate</h1>
+        <p className="text-muted-foreground">
+          Generate month-end reports for many companies at once.
+        </p>
+      </div>
+
+      {trackedBatchId ? (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>
+                  {batch ? `${formatPeriodLabel(batch.periodEnd)} batch` : "Batch"}
+                </CardTitle>
+                <CardDescription>
+                  {batch
+                    ? `${batch.counts.complete} complete, ${batch.counts.running} generating, ${batch.counts.waiting} waiting, ${batch.counts.failed} failed - up to ${batch.concurrency} at a time`
+                    : "Loading..."}
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={handleNewBatch}>
+                New Batch
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {files.length > 0 && (
+              <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                <p className="font-medium">Not uploaded:</p>
+                <ul className="mt-1 space-y-1">
+                  {files.map((f) => (
+                    <li key={f.key}>
+                      {f.file.name} ({companyName(f.companyId) ?? "unknown company"}): {f.uploadError}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {!batch ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 px-3 font-medium">Company</th>
+                      <th className="text-left py-2 px-3 font-medium">Workbook</th>
+                      <th className="text-left py-2 px-3 font-medium">Status</th>
+                      <th className="text-left py-2 px-3 font-medium">Tokens</th>
+                      <th className="text-right py-2 px-3 font-medium">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batch.reports.map((report) => (
+                      <tr key={report.reportId} className="border-b align-top">
+                        <td className="py-2 px-3 font-medium">{report.companyName}</td>
+                        <td className="py-2 px-3 text-muted-foreground">{report.fileName ?? "-"}</td>
+                        <td className="py-2 px-3">
+                          <ReportStatusCell report={report} />
+                          {report.status === "failed" && report.errorMessage && (
+                            <p className="text-xs text-red-600 mt-1 max-w-xs">{report.errorMessage}</p>
+                          )}
+                        </td>
+                        <td className="py-2 px-3 text-muted-foreground whitespace-nowrap">
+                          {formatTokens(report)}
+                        </td>
+                        <td className="py-2 px-3 text-right whitespace-nowrap">
+                          {report.status === "complete" ? (
+                            <Button asChild variant="ghost" size="sm">
+                              <Link href={`/admin/reports/${report.reportId}`}>Review</Link>
+                            </Button>
+                          ) : (
+                            <Button asChild variant="ghost" size="sm">
+                              <Link href={`/admin/generate?report=${report.reportId}`}>Details</Link>
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Workbooks</CardTitle>
+                <CardDescription>
+                  Drop one workbook, CSV or QuickBooks/Xero export per company. Companies are
+                  suggested from the file name and the sheet titles - check each one before starting.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div
+                  {...getRootProps()}
+                  className={`
+                    border-2 border-dashed rounded-lg p-6 text-center cursor-pointer
+                    transition-all duration-200
+                    ${isDragActive ? "border-primary bg-primary/5" : "border-muted-foreground/25"}
+                    ${starting ? "pointer-events-none opacity-50" : "hover:border-primary/50 hover:bg-muted/30"}
+                  `}
+                >
+                  <input {...getInputProps()} />
+                  <div className="flex flex-col items-center gap-2">
+                    <Upload className="w-6 h-6 text-muted-foreground" />
+                    <p className="font-medium">
+                      {isDragActive ? "Drop the files here" : "Drag & drop workbooks or exports"}
+                    </p>
+                    <p className="text-sm text-muted-foreground">or click to browse (.xlsx, .xls, .csv)</p>
+                  </div>
+                </div>
+
+                {files.length > 0 && (
+                  <div className="space-y-2">
+                    {files.map((entry) => (
+                      <div
+                        key={entry.key}
+                        className="flex flex-col sm:flex-row sm:items-center gap-2 p-2 rounded-lg bg-muted/50"
+                      >
+                        <div className="flex items-center gap-2 flex-1 min-w-0">
+                          <FileSpreadsheet className="w-4 h-4 text-emerald-600 flex-shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{entry.file.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {entry.suggestion && entry.suggestion.companyId === entry.companyId
+                                ? `Suggested from ${entry.suggestion.source === "contents" ? "sheet contents" : "file name"}`
+                                : entry.companyId
+                                  ? "Chosen manually"
+                                  : "No match - choose a company"}
+                            </p>
+                          </div>
+                        </div>
+                        <Select
+                          value={entry.companyId}
+                          onValueChange={(value) => setFileCompany(entry.key, value)}
+                          disabled={starting}
+                        >
+                          <SelectTrigger
+                            className={`w-full sm:w-56 ${duplicateCompanyIds.has(entry.companyId) ? "border-red-500" : ""}`}
+                          >
+                            <SelectValue placeholder="Select a company" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {companies.map((company) => (
+                              <SelectItem key={company.id} value={company.id}>
+                                {company.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeFile(entry.key)}
+                          disabled={starting}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>Batch Settings</CardTitle>
+              <CardDescription>Every report in the batch covers the same period.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="periodEnd">Period End Date</Label>
+                <Input
+                  type="date"
+                  id="periodEnd"
+                  value={periodEnd}
+                  onChange={(e) => setPeriodEnd(e.target.value)}
+                  disabled={starting}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="concurrency">Generate at once</Label>
+                <Input
+                  type="number"
+                  id="concurrency"
+                  min={1}
+                  max={MAX_CONCURRENCY}
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(e.target.value)}
+                  disabled={starting}
+                  className="w-24"
+                />
+                <p className="text-xs text-muted-foreground">
+                  The rest wait their turn, so Claude rate limits aren&apos;t hit.
+                </p>
+              </div>
+
+              {duplicateCompanyIds.size > 0 && (
+                <div className="flex items-center gap-2 text-red-600 text-sm">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>Two workbooks are mapped to the same company.</span>
+                </div>
+              )}
+
+              {error && (
+                <div className="flex items-center gap-2 text-red-600 dark:text-red-400 text-sm p-3 bg-red-50 dark:bg-red-950/30 rounded-lg">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <Button
+                onClick={handleStart}
+                disabled={
+                  starting ||
+                  files.length === 0 ||
+                  unmappedCount > 0 ||
+                  duplicateCompanyIds.size > 0 ||
+                  !periodEnd
+                }
+                className="w-full"
+              >
+                {starting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Uploading {uploadedCount}/{files.length}...
+                  </>
+                ) : (
+                  `Generate ${files.length} Report${files.length === 1 ? "" : "s"}`
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { ArrowLeft, Upload, FileSpreadsheet, Loader2, AlertCircle } from "lucide-react";
+import { ArrowLeft, Upload, FileSpreadsheet, Loader2, AlertCircle, X } from "lucide-react";
 import { useDropzone } from "react-dropzone";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -16,16 +16,44 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { GenerationProgress, type GenerationStatus } from "@/components/generation-progress";
+import { WorkbookPreflightSummary } from "@/components/workbook-preflight";
+import type { GenerationStage, ImportedFile, ReportGenerationStatus, UploadPreflight } from "@/types";
 
 interface Company {
   id: string;
   name: string;
 }
 
+const POLL_INTERVAL_MS = 2000;
+const PREFLIGHT_DEBOUNCE_MS = 600;
+
+const FORMAT_LABELS: Record<ImportedFile["format"], string> = {
+  workbook: "Workbook",
+  csv: "CSV",
+  quickbooks: "QuickBooks export",
+  xero: "Xero export",
+};
+
+// Map the server-side pipeline stage onto the progress UI
+function stageToStatus(stage: GenerationStage | null): GenerationStatus {
+  switch (stage) {
+    case "extracting":
+    case "generating":
+    case "saving":
+      return stage;
+    case "uploading":
+      return "uploading";
+    default:
+      // queued, or waiting for a retry
+      return "queued";
+  }
+}
+
 export default function GenerateReportPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const preselectedCompany = searchParams.get("company");
+  const trackedReportId = searchParams.get("report");
 
   const [companies, setCompanies] = useState<Company[]>([]);
   const [selectedCompanyId, setSelectedCompanyId] = useState(preselectedCompany || "");
@@ -35,10 +63,14 @@ export default function GenerateReportPage() {
     const lastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
     return lastMonth.toISOString().split("T")[0];
   });
-  const [file, setFile] = useState<File | null>(null);
-  const [status, setStatus] = useState<GenerationStatus>("idle");
+  const [files, setFiles] = useState<File[]>([]);
+  const [status, setStatus] = useState<GenerationStatus>(trackedReportId ? "queued" : "idle");
   const [error, setError] = useState("");
   const [result, setResult] = useState<{ reportId: string; sectionsGenerated: number } | null>(null);
+  const [activeReportId, setActiveReportId] = useState<string | null>(trackedReportId);
+  const [serverStatus, setServerStatus] = useState<ReportGenerationStatus | null>(null);
+  const [preflight, setPreflight] = useState<UploadPreflight | null>(null);
+  const [checking, setChecking] = useState(false);
 
   useEffect(() => {
     const fetchCompanies = async () => {
@@ -55,48 +87,155 @@ export default function GenerateReportPage() {
     fetchCompanies();
   }, []);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (file) {
-      setFile(file);
+  // Poll the server for the real pipeline stage while a report is generating
+  useEffect(() => {
+    if (!activeReportId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/admin/reports/${activeReportId}/status`);
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (!data.success) {
+          setStatus("error");
+          setError(data.error || "Failed to check report status");
+          setActiveReportId(null);
+          return;
+        }
+
+        const report = data.data as ReportGenerationStatus;
+        setServerStatus(report);
+        setSelectedCompanyId((current) => current || report.companyId);
+
+        if (report.status === "failed") {
+          setStatus("error");
+          setError(report.errorMessage || "Report generation failed");
+          setActiveReportId(null);
+          return;
+        }
+
+        if (report.status === "complete") {
+          setStatus("complete");
+          setResult({ reportId: report.reportId, sectionsGenerated: report.sectionsGenerated });
+          setActiveReportId(null);
+          return;
+        }
+
+        setStatus(stageToStatus(report.stage));
+      } catch {
+        // Transient network error - keep polling
+      }
+
+      if (!cancelled) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [activeReportId]);
+
+  // Check the files against the company's sheet mapping before uploading them.
+  // Waits for edits to settle, and a newer check cancels the one in flight
+  const isIdle = status === "idle";
+  useEffect(() => {
+    setPreflight(null);
+    if (files.length === 0 || !selectedCompanyId || !isIdle) return;
+
+    const controller = new AbortController();
+
+    const check = async () => {
+      setChecking(true);
       setError("");
-    }
+      try {
+        const formData = new FormData();
+        formData.append("companyId", selectedCompanyId);
+        formData.append("periodEnd", periodEnd);
+        files.forEach((f) => formData.append("files", f));
+
+        const response = await fetch("/api/admin/reports/preflight", {
+          method: "POST",
+          body: formData,
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (controller.signal.aborted) return;
+
+        if (data.success) {
+          setPreflight(data.data);
+        } else {
+          setError(data.error || "Failed to check workbook");
+        }
+      } catch {
+        if (!controller.signal.aborted) setError("Failed to check workbook");
+      } finally {
+        if (!controller.signal.aborted) setChecking(false);
+      }
+    };
+
+    const timer = setTimeout(check, PREFLIGHT_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setChecking(false);
+    };
+  }, [files, selectedCompanyId, periodEnd, isIdle]);
+
+  // Dropped files add to the list; one with the same name replaces the old copy
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+    setFiles((current) => [
+      ...current.filter((f) => !acceptedFiles.some((added) => added.name === f.name)),
+      ...acceptedFiles,
+    ]);
+    setError("");
   }, []);
 
+  const removeFile = (name: string) => {
+    setFiles((current) => current.filter((f) => f.name !== name));
+  };
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
       "application/vnd.ms-excel": [".xls"],
+      "text/csv": [".csv"],
     },
-    maxFiles: 1,
-    maxSize: 50 * 1024 * 1024, // 50MB
+    maxSize: 50 * 1024 * 1024, // 50MB per file
     disabled: status !== "idle",
   });
 
   const handleGenerate = async () => {
-    if (!selectedCompanyId || !periodEnd || !file) {
+    if (!selectedCompanyId || !periodEnd || files.length === 0) {
       setError("Please fill in all fields and upload a file");
       return;
     }
 
+    if (preflight && preflight.blockingIssues.length > 0) {
+      setError("Fix the missing sheets before generating");
+      return;
+    }
+
     setStatus("uploading");
     setError("");
     setResult(null);
+    setServerStatus(null);
 
     try {
       const formData = new FormData();
       formData.append("companyId", selectedCompanyId);
       formData.append("periodEnd", periodEnd);
-      formData.append("file", file);
-
-      // Simulate brief upload step
-      await new Promise((resolve) => setTimeout(resolve, 500));
-      setStatus("extracting");
-
-      // Simulate brief extraction step
-      await new Promise((resolve) => setTimeout(resolve, 800));
-      setStatus("generating");
+      files.forEach((f) => formData.append("files", f));
 
       const response = await fetch("/api/admin/reports/generate", {
         method: "POST",
@@ -111,15 +250,11 @@ export default function GenerateReportPage() {
         return;
       }
 
-      setStatus("saving");
-      // Brief save animation
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      setStatus("complete");
-      setResult({
-        reportId: data.data.reportId,
-        sectionsGenerated: data.data.sectionsGenerated,
-      });
+      // Generation runs in the background job queue - track it via the URL
+      // so the progress view survives a page refresh
+      const reportId = data.data.reportId as string;
+      router.replace(`/admin/generate?report=${reportId}`);
+      setActiveReportId(reportId);
     } catch {
       setStatus("error");
       setError("An error occurred. Please try again.");
@@ -128,9 +263,12 @@ export default function GenerateReportPage() {
 
   const handleReset = () => {
     setStatus("idle");
-    setFile(null);
+    setFiles([]);
     setResult(null);
     setError("");
+    setActiveReportId(null);
+    setServerStatus(null);
+    router.replace("/admin/generate");
   };
 
   const selectedCompany = companies.find((c) => c.id === selectedCompanyId);
@@ -147,7 +285,12 @@ export default function GenerateReportPage() {
         </Button>
         <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Generate Report</h1>
         <p className="text-muted-foreground">
-          Upload an Excel file to generate a financial review report.
+          Upload an Excel workbook, CSVs or QuickBooks/Xero exports to generate a financial review
+          report, or{" "}
+          <Link href="/admin/generate/batch" className="underline">
+            generate for many companies at once
+          </Link>
+          .
         </p>
       </div>
 
@@ -194,46 +337,80 @@ export default function GenerateReportPage() {
             </div>
 
             <div className="space-y-2">
-              <Label>Excel File</Label>
+              <Label>Source Files</Label>
               <div
                 {...getRootProps()}
                 className={`
                   border-2 border-dashed rounded-lg p-6 sm:p-8 text-center cursor-pointer
                   transition-all duration-200
                   ${isDragActive ? "border-primary bg-primary/5 scale-[1.02]" : "border-muted-foreground/25"}
-                  ${file ? "border-emerald-500 bg-emerald-500/5" : ""}
+                  ${files.length > 0 ? "border-emerald-500 bg-emerald-500/5" : ""}
                   ${isProcessing ? "pointer-events-none opacity-50" : "hover:border-primary/50 hover:bg-muted/30"}
                 `}
               >
                 <input {...getInputProps()} />
-                {file ? (
-                  <div className="flex flex-col items-center gap-2">
-                    <div className="w-12 h-12 rounded-full bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center">
-                      <FileSpreadsheet className="w-6 h-6 text-emerald-600 dark:text-emerald-400" />
-                    </div>
-                    <p className="font-medium">{file.name}</p>
-                    <p className="text-sm text-muted-foreground">
-                      {(file.size / 1024 / 1024).toFixed(2)} MB
-                    </p>
-                    {!isProcessing && (
-                      <p className="text-xs text-muted-foreground">Click or drag to replace</p>
-                    )}
+                <div className="flex flex-col items-center gap-2">
+                  <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center">
+                    <Upload className="w-6 h-6 text-muted-foreground" />
                   </div>
+                  <p className="font-medium">
+                    {isDragActive
+                      ? "Drop the files here"
+                      : files.length > 0
+                        ? "Drag & drop more files"
+                        : "Drag & drop a workbook or exports"}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    or click to browse (.xlsx, .xls, .csv, e.g. a QuickBooks or Xero P&amp;L and balance sheet)
+                  </p>
+                </div>
+              </div>
+
+              {files.length > 0 && (
+                <ul className="divide-y rounded-lg border text-sm">
+                  {files.map((f) => {
+                    const imported = preflight?.files.find((i) => i.fileName === f.name);
+                    return (
+                      <li key={f.name} className="flex items-center gap-3 px-3 py-2">
+                        <FileSpreadsheet className="w-4 h-4 flex-shrink-0 text-emerald-600 dark:text-emerald-400" />
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate font-medium">{f.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {(f.size / 1024 / 1024).toFixed(2)} MB
+                            {imported &&
+                              ` · ${FORMAT_LABELS[imported.format]} → ${imported.sheetNames.join(", ")}`}
+                          </p>
+                        </div>
+                        {!isProcessing && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeFile(f.name)}
+                            aria-label={`Remove ${f.name}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+
+            {isIdle && (checking || preflight) && (
+              <div className="space-y-2">
+                <Label>Workbook Check</Label>
+                {checking ? (
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Checking sheets...
+                  </p>
                 ) : (
-                  <div className="flex flex-col items-center gap-2">
-                    <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center">
-                      <Upload className="w-6 h-6 text-muted-foreground" />
-                    </div>
-                    <p className="font-medium">
-                      {isDragActive ? "Drop the file here" : "Drag & drop Excel file"}
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      or click to browse (.xlsx, .xls)
-                    </p>
-                  </div>
+                  preflight && <WorkbookPreflightSummary preflight={preflight} />
                 )}
               </div>
-            </div>
+            )}
 
             {error && status === "idle" && (
               <div className="flex items-center gap-2 text-red-600 dark:text-red-400 text-sm p-3 bg-red-50 dark:bg-red-950/30 rounded-lg">
@@ -244,7 +421,14 @@ export default function GenerateReportPage() {
 
             <Button
               onClick={handleGenerate}
-              disabled={!selectedCompanyId || !periodEnd || !file || isProcessing}
+              disabled={
+                !selectedCompanyId ||
+                !periodEnd ||
+                files.length === 0 ||
+                isProcessing ||
+                checking ||
+                (preflight?.blockingIssues.length ?? 0) > 0
+              }
               className="w-full h-11"
               size="lg"
             >
@@ -274,6 +458,9 @@ export default function GenerateReportPage() {
               error={error}
               result={result ?? undefined}
               companyName={selectedCompany?.name}
+              progress={serverStatus?.progress}
+              stageStartedAt={serverStatus?.stageUpdatedAt}
+              attempt={serverStatus?.attempts}
               onReset={handleReset}
             />
           </CardContent>
@@ -1,6 +1,6 @@
-import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
-import prisma from "@/lib/db";
+import { getCurrentUser } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
 import { DashboardLayout } from "@/components/dashboard-layout";
 
 export default async function AdminLayout({
@@ -8,20 +8,24 @@ export default async function AdminLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const { userId } = await auth();
+  // Middleware already turns away most client users; this covers sessions without a role claim
+  const user = await getCurrentUser();
 
-  if (!userId) {
+  if (!user) {
     redirect("/sign-in");
   }
 
-  // Check if user is admin
-  const user = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
-  if (!user || user.role !== "admin") {
+  if (!hasPermission(user.role, "admin:access")) {
     redirect("/dashboard");
   }
 
-  return <DashboardLayout isAdmin={true}>{children}</DashboardLayout>;
+  return (
+    <DashboardLayout
+      isAdmin={true}
+      canViewAudit={hasPermission(user.role, "audit:view")}
+      canManageUsers={hasPermission(user.role, "users:manage")}
+    >
+      {children}
+    </DashboardLayout>
+  );
 }
@@ -2,14 +2,17 @@ import Link from "next/link";
 import { Building2, FileText, Settings, Plus } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { SpendSummaryCard } from "@/components/spend-summary";
 import prisma from "@/lib/db";
+import { getSpendSummary } from "@/lib/usage";
 
 export default async function AdminPage() {
   // Get stats
-  const [companyCount, reportCount, pendingCount] = await Promise.all([
+  const [companyCount, reportCount, pendingCount, spend] = await Promise.all([
     prisma.company.count(),
     prisma.report.count(),
     prisma.report.count({ where: { status: "processing" } }),
+    getSpendSummary(),
   ]);
 
   return (
@@ -94,11 +97,18 @@ export default async function AdminPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Button asChild className="w-full">
-              <Link href="/admin/generate">
-                Generate New Report
-              </Link>
-            </Button>
+            <div className="flex gap-2">
+              <Button asChild className="flex-1">
+                <Link href="/admin/generate">
+                  Generate New Report
+                </Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href="/admin/generate/batch">
+                  Batch
+                </Link>
+              </Button>
+            </div>
           </CardContent>
         </Card>
 
@@ -119,6 +129,8 @@ export default async function AdminPage() {
           </CardContent>
         </Card>
       </div>
+
+      <SpendSummaryCard summary={spend} />
     </div>
   );
 }
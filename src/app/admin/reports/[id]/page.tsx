@@ -0,0 +1,204 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft, Calendar, CheckCircle, ClipboardCheck, ExternalLink, ScrollText, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ReportReview } from "@/components/report-review";
+import prisma from "@/lib/db";
+import { getCurrentUser } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { getReportUsageTotals } from "@/lib/usage";
+import { cn, formatCurrency, formatDate, formatPeriodLabel } from "@/lib/utils";
+import type { ReportSectionContent, SectionReviewStatus } from "@/types";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+const CHECK_KIND_LABELS: Record<string, string> = {
+  tie_out: "Ties to workbook",
+  cross_foot: "Column foot",
+  row_foot: "Row foot",
+};
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export default async function AdminReportPage({ params }: PageProps) {
+  const { id } = await params;
+  const currentUser = await getCurrentUser();
+
+  const report = await prisma.report.findUnique({
+    where: { id },
+    include: {
+      company: {
+        select: { id: true, name: true },
+      },
+      reviewedBy: {
+        select: { email: true },
+      },
+      sections: {
+        orderBy: { sortOrder: "asc" },
+        include: {
+          reviewedBy: {
+            select: { email: true },
+          },
+        },
+      },
+      notifications: {
+        select: { status: true },
+      },
+      checks: {
+        // Failures first, then in section order
+        orderBy: [{ passed: "asc" }, { createdAt: "asc" }],
+      },
+    },
+  });
+
+  if (!report) {
+    notFound();
+  }
+
+  const sectionNames = new Map(report.sections.map((s) => [s.sectionKey, s.sectionName]));
+  const failed = report.checks.filter((check) => !check.passed);
+  const passed = report.checks.length - failed.length;
+  const emailsSent = report.notifications.filter((n) => n.status === "sent").length;
+  const emailsFailed = report.notifications.filter((n) => n.status === "failed").length;
+  const usage = (await getReportUsageTotals([report.id])).get(report.id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="-ml-2 mb-2">
+            <Link href={`/admin/companies/${report.company.id}`}>
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to {report.company.name}
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {report.periodLabel || formatPeriodLabel(report.periodEnd)}
+          </h1>
+          <p className="text-muted-foreground flex items-center gap-1">
+            <Calendar className="w-4 h-4" />
+            Generated {formatDate(report.createdAt)} · <span className="capitalize">{report.status}</span>
+            {report.published ? " · Published" : " · Not published"}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {report.reviewedAt
+              ? `Last reviewed ${formatDate(report.reviewedAt)} by ${report.reviewedBy?.email ?? "unknown"}`
+              : "Not reviewed yet"}
+            {report.approvedAt && ` · Approved ${formatDate(report.approvedAt)}`}
+            {report.publishedAt && ` · Published ${formatDate(report.publishedAt)}`}
+            {report.notifications.length > 0 &&
+              ` · ${emailsSent} client email(s) sent${emailsFailed > 0 ? `, ${emailsFailed} failed` : ""}`}
+            {usage &&
+              ` · ${formatCurrency(usage.costUsd, { decimals: 2 })} in Claude usage (${usage.calls} call${usage.calls === 1 ? "" : "s"})`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {hasPermission(currentUser?.role, "audit:view") && (
+            <Button asChild variant="outline">
+              <Link href={`/admin/audit?reportId=${report.id}`}>
+                <ScrollText className="w-4 h-4 mr-2" />
+                Audit Log
+              </Link>
+            </Button>
+          )}
+          {report.published && (
+            <Button asChild variant="outline">
+              <Link href={`/reports/${report.id}`}>
+                <ExternalLink className="w-4 h-4 mr-2" />
+                View Report
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Tie-out Checks */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-primary" />
+            <CardTitle>Tie-out Checks</CardTitle>
+          </div>
+          <CardDescription>
+            {report.checks.length === 0
+              ? "No checks recorded for this report."
+              : `${passed} passed, ${failed.length} failed. Review failures before publishing.`}
+          </CardDescription>
+        </CardHeader>
+        {report.checks.length > 0 && (
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-3 font-medium">Result</th>
+                    <th className="text-left py-2 px-3 font-medium">Section</th>
+                    <th className="text-left py-2 px-3 font-medium">Check</th>
+                    <th className="text-left py-2 px-3 font-medium">Figure</th>
+                    <th className="text-right py-2 px-3 font-medium">Expected</th>
+                    <th className="text-right py-2 px-3 font-medium">Reported</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.checks.map((check) => (
+                    <tr
+                      key={check.id}
+                      className={cn("border-b hover:bg-muted/30", !check.passed && "bg-red-50/50 dark:bg-red-950/20")}
+                    >
+                      <td className="py-2 px-3">
+                        {check.passed ? (
+                          <CheckCircle className="w-4 h-4 text-green-500" />
+                        ) : (
+                          <XCircle className="w-4 h-4 text-red-500" />
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-muted-foreground">
+                        {sectionNames.get(check.sectionKey) ?? check.sectionKey}
+                      </td>
+                      <td className="py-2 px-3 text-muted-foreground">
+                        {CHECK_KIND_LABELS[check.kind] ?? check.kind}
+                      </td>
+                      <td className="py-2 px-3">
+                        {check.label}
+                        {check.message && (
+                          <p className="text-xs text-red-600 dark:text-red-400">{check.message}</p>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-right tabular-nums">{formatAmount(check.expected)}</td>
+                      <td className="py-2 px-3 text-right tabular-nums">{formatAmount(check.actual)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Section Review */}
+      {report.status === "complete" && (
+        <ReportReview
+          reportId={report.id}
+          published={report.published}
+          canEdit={hasPermission(currentUser?.role, "reports:edit")}
+          canReview={hasPermission(currentUser?.role, "reports:review")}
+          canPublish={hasPermission(currentUser?.role, "reports:publish")}
+          sections={report.sections.map((s) => ({
+            sectionKey: s.sectionKey,
+            sectionName: s.sectionName,
+            content: s.content as ReportSectionContent,
+            reviewStatus: s.reviewStatus as SectionReviewStatus,
+            reviewNote: s.reviewNote,
+            reviewedAt: s.reviewedAt?.toISOString() ?? null,
+            reviewedBy: s.reviewedBy?.email ?? null,
+          }))}
+        />
+      )}
+    </div>
+  );
+}
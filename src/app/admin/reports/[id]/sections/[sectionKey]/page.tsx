@@ -0,0 +1,417 @@
+"use client";
+
+import { useState, useEffect, useCallback, use } from "react";
+import Link from "next/link";
+import { ArrowLeft, GitCompare, History, Loader2, RotateCcw, Save, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ReportSection } from "@/components/report-section";
+import { diffLines } from "@/lib/text-diff";
+import { cn, formatDate } from "@/lib/utils";
+import type { ReportSectionContent, SectionRevisionSource } from "@/types";
+
+interface PageProps {
+  params: Promise<{ id: string; sectionKey: string }>;
+}
+
+interface Revision {
+  version: number;
+  source: SectionRevisionSource;
+  note: string | null;
+  content: ReportSectionContent;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+interface SectionData {
+  id: string;
+  sectionName: string;
+  content: ReportSectionContent;
+  reviewStatus: string;
+  report: {
+    periodLabel: string | null;
+    published: boolean;
+    companyName: string;
+  };
+  revisions: Revision[];
+}
+
+const SOURCE_LABELS: Record<SectionRevisionSource, string> = {
+  generated: "Generated",
+  edited: "Edited",
+  restored: "Restored",
+  regenerated: "Regenerated",
+};
+
+// Text compared in the diff view: markdown when present, otherwise the structured tables
+function revisionText(content: ReportSectionContent): string {
+  return content.raw_markdown ?? JSON.stringify(content.tables ?? [], null, 2);
+}
+
+export default function SectionEditorPage({ params }: PageProps) {
+  const { id, sectionKey } = use(params);
+
+  const [section, setSection] = useState<SectionData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [instructions, setInstructions] = useState("");
+  const [regenerating, setRegenerating] = useState(false);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+
+  const isMarkdown = section?.content.raw_markdown !== undefined;
+
+  const loadSection = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/reports/${id}/sections/${sectionKey}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        toast.error(data.error || "Failed to load section");
+        return;
+      }
+
+      const loaded = data.data as SectionData;
+      setSection(loaded);
+      setDraft(revisionText(loaded.content));
+
+      // Default comparison: previous version vs latest
+      const [latest, previous] = loaded.revisions;
+      setCompareTo(latest?.version ?? null);
+      setCompareFrom(previous?.version ?? null);
+    } catch {
+      toast.error("Failed to load section");
+    } finally {
+      setLoading(false);
+    }
+  }, [id, sectionKey]);
+
+  useEffect(() => {
+    loadSection();
+  }, [loadSection]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      let payload: Record<string, unknown>;
+      if (isMarkdown) {
+        payload = { raw_markdown: draft, note };
+      } else {
+        try {
+          payload = { tables: JSON.parse(draft), note };
+        } catch {
+          toast.error("Tables must be valid JSON");
+          return;
+        }
+      }
+
+      const response = await fetch(`/api/admin/reports/${id}/sections/${sectionKey}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        toast.error(data.error || "Failed to save section");
+        return;
+      }
+
+      toast.success(`Saved as version ${data.data.version}`);
+      setNote("");
+      await loadSection();
+    } catch {
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? This is saved as a new version.`)) {
+      return;
+    }
+
+    setRestoring(version);
+    try {
+      const response = await fetch(
+        `/api/admin/reports/${id}/sections/${sectionKey}/revisions/${version}/restore`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+
+      if (!data.success) {
+        toast.error(data.error || "Failed to restore revision");
+        return;
+      }
+
+      toast.success(`Version ${version} restored as version ${data.data.version}`);
+      await loadSection();
+    } catch {
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setRegenerating(true);
+    try {
+      const response = await fetch(`/api/admin/reports/${id}/sections/${sectionKey}/regenerate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ instructions }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        toast.error(data.error || "Failed to regenerate section");
+        return;
+      }
+
+      toast.success(`Regenerated as version ${data.data.version}`);
+      setInstructions("");
+      await loadSection();
+    } catch {
+      toast.error("An error occurred. Please try again.");
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!section) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">Section not found.</div>
+    );
+  }
+
+  const latestVersion = section.revisions[0]?.version;
+  const fromRevision = section.revisions.find((r) => r.version === compareFrom);
+  const toRevision = section.revisions.find((r) => r.version === compareTo);
+  const diff =
+    fromRevision && toRevision
+      ? diffLines(revisionText(fromRevision.content), revisionText(toRevision.content))
+      : [];
+  const isDirty = draft !== revisionText(section.content);
+  const readOnly = section.report.published;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild className="-ml-2 mb-2">
+          <Link href={`/admin/reports/${id}`}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to Review
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold tracking-tight">{section.sectionName}</h1>
+        <p className="text-muted-foreground">
+          {section.report.companyName}
+          {section.report.periodLabel && ` · ${section.report.periodLabel}`}
+          {readOnly && " · Published (unpublish to edit)"}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Editor */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>{isMarkdown ? "Edit Markdown" : "Edit Tables (JSON)"}</CardTitle>
+              <CardDescription>
+                Saving creates a new version and sends the section back for review.
+                {isMarkdown && " Tables and callouts are re-extracted from the markdown."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                readOnly={readOnly}
+                rows={24}
+                spellCheck={false}
+                className="w-full rounded-md border bg-background px-3 py-2 font-mono text-xs leading-relaxed"
+              />
+              <div className="space-y-2">
+                <Label htmlFor="note">Change note (optional)</Label>
+                <Input
+                  id="note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g., Corrected revenue growth sentence"
+                  disabled={readOnly}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleSave} disabled={saving || readOnly || !isDirty}>
+                  {saving ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="w-4 h-4 mr-2" />
+                  )}
+                  Save Version
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {isMarkdown && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ReportSection content={{ raw_markdown: draft }} sectionName={section.sectionName} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {/* Regenerate */}
+          {!readOnly && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Sparkles className="w-5 h-5 text-primary" />
+                  <CardTitle>Regenerate Section</CardTitle>
+                </div>
+                <CardDescription>
+                  Rerun Claude for this section only, using the stored workbook.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <textarea
+                  value={instructions}
+                  onChange={(e) => setInstructions(e.target.value)}
+                  placeholder="Optional instructions, e.g., focus on the freight variance"
+                  rows={3}
+                  maxLength={2000}
+                  className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+                />
+                <Button onClick={handleRegenerate} disabled={regenerating || saving} className="w-full">
+                  {regenerating ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Regenerating...
+                    </>
+                  ) : (
+                    "Regenerate"
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Revision History */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <History className="w-5 h-5 text-primary" />
+                <CardTitle>Revision History</CardTitle>
+              </div>
+              <CardDescription>{section.revisions.length} version(s)</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {section.revisions.map((revision) => (
+                <div key={revision.version} className="p-3 rounded-lg bg-muted/50 space-y-1 text-sm">
+                  <p className="font-medium">
+                    v{revision.version} · {SOURCE_LABELS[revision.source] ?? revision.source}
+                    {revision.version === latestVersion && (
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary">
+                        Current
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {revision.createdBy ?? "System"} · {formatDate(revision.createdAt)}
+                  </p>
+                  {revision.note && <p className="text-xs">{revision.note}</p>}
+                  <div className="flex gap-1 pt-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2"
+                      onClick={() => {
+                        setCompareFrom(revision.version);
+                        setCompareTo(latestVersion ?? revision.version);
+                      }}
+                    >
+                      <GitCompare className="w-3 h-3 mr-1" />
+                      Compare
+                    </Button>
+                    {revision.version !== latestVersion && !readOnly && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2"
+                        onClick={() => handleRestore(revision.version)}
+                        disabled={restoring !== null}
+                      >
+                        {restoring === revision.version ? (
+                          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                        )}
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Diff */}
+      {fromRevision && toRevision && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <GitCompare className="w-5 h-5 text-primary" />
+              <CardTitle>
+                Changes from v{fromRevision.version} to v{toRevision.version}
+              </CardTitle>
+            </div>
+            <CardDescription>
+              {diff.filter((line) => line.type === "added").length} line(s) added,{" "}
+              {diff.filter((line) => line.type === "removed").length} line(s) removed
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <pre className="overflow-x-auto rounded-md border text-xs leading-relaxed">
+              {diff.map((line, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "px-3 whitespace-pre-wrap",
+                    line.type === "added" && "bg-emerald-50 text-emerald-800 dark:bg-emerald-950/30 dark:text-emerald-300",
+                    line.type === "removed" && "bg-red-50 text-red-800 line-through dark:bg-red-950/30 dark:text-red-300"
+                  )}
+                >
+                  {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { redirect } from "next/navigation";
+import { Shield } from "lucide-react";
+import { FirmUsers } from "@/components/firm-users";
+import { getCurrentUser } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+
+export default async function FirmUsersPage() {
+  const user = await getCurrentUser();
+  if (!user || !hasPermission(user.role, "users:manage")) {
+    redirect("/admin");
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+          <Shield className="w-8 h-8 text-primary" />
+          Firm Users
+        </h1>
+        <p className="text-muted-foreground">
+          Staff roles apply to every company, so staff don&apos;t need to be added to a client
+          company to work on its reports.
+        </p>
+      </div>
+
+      <FirmUsers currentUserId={user.id} />
+    </div>
+  );
+}
@@ -0,0 +1,586 @@
+/// <reference types="vite/client" />
+
+/**
+ * API Access Matrix
+ *
+ * Calls every API route as each role (signed out, client viewer, client
+ * owner, analyst, reviewer, admin), both as a member of the company the
+ * request is about and as a user with no membership, and checks who gets
+ * through. Clerk, the database, storage and the job queue are mocked; a
+ * request that passes the access check may still fail later on the mocked
+ * data, so "allowed" only means it wasn't turned away with 401/403 (or the
+ * 404 report routes use to hide other companies' reports).
+ */
+
+import type { UserRole } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const COMPANY_ID = "company_acme";
+const ACTOR_ID = "user_actor";
+const OTHER_USER_ID = "user_other";
+
+interface MockUser {
+  id: string;
+  clerkUserId: string;
+  email: string;
+  role: UserRole;
+  memberships: Array<{
+    id: string;
+    userId: string;
+    companyId: string;
+    role: UserRole;
+    company: { id: string; name: string };
+  }>;
+}
+
+const state = vi.hoisted(() => ({ actor: null as MockUser | null }));
+
+vi.mock("@clerk/nextjs/server", () => {
+  const client = {
+    users: {
+      getUserList: async () => ({ data: [] }),
+      updateUserMetadata: async () => ({}),
+    },
+    invitations: {
+      createInvitation: async () => ({ id: "clerk_invitation" }),
+      revokeInvitation: async () => ({}),
+    },
+  };
+  return {
+    auth: async () => ({
+      userId: state.actor?.clerkUserId ?? null,
+      sessionClaims: { metadata: { role: state.actor?.role } },
+    }),
+    clerkClient: async () => client,
+  };
+});
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({ get: () => undefined, set: () => undefined }),
+  headers: async () => new Headers(),
+}));
+
+vi.mock("@/lib/storage", () => ({
+  STORAGE_BUCKET: "test",
+  uploadFile: async () => undefined,
+  downloadFile: async () => new Blob([]),
+  getSignedUrl: async () => "https://storage.test/signed",
+  deleteFile: async () => undefined,
+  copyFile: async () => undefined,
+  listFiles: async () => [],
+}));
+
+vi.mock("@/lib/queue", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/queue")>()),
+  enqueueReportGeneration: async () => "job_id",
+  enqueueReportPublishedNotification: async () => "job_id",
+}));
+
+vi.mock("@/lib/report-pdf", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/report-pdf")>()),
+  generateReportPdf: async () => "reports/company_acme/report_1/report.pdf",
+}));
+
+// Every lookup finds a record belonging to COMPANY_ID, except the signed-in
+// user (the current actor) and queries scoped to other companies
+vi.mock("@/lib/db", () => {
+  const company = { id: "company_acme", name: "Acme" };
+  const report = {
+    id: "report_1",
+    companyId: company.id,
+    company,
+    status: "complete",
+    published: true,
+    periodEnd: new Date("2025-03-31"),
+    periodLabel: "March 2025",
+    sourceFileUrl: "reports/company_acme/report_1/source.xlsx",
+    sourceFileName: "acme.xlsx",
+  };
+  const record = {
+    ...report,
+    id: "record_1",
+    reportId: report.id,
+    report,
+    userId: "user_other",
+    user: { id: "user_other", email: "someone@acme.com", role: "client_viewer" },
+    email: "someone@acme.com",
+    name: company.name,
+    role: "client_viewer",
+    domain: "acme.com",
+    sectionKey: "executive_snapshot",
+    sectionName: "1. Executive Snapshot",
+    content: { raw_markdown: "## Executive Snapshot\n\nSteady month." },
+    version: 1,
+    concurrency: 3,
+    enabled: true,
+    sourceFolder: "acme",
+    businessDay: 5,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    acceptedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    memberships: [],
+    sections: [],
+    reports: [],
+    events: [],
+    sheetMappings: [],
+    metricConfig: null,
+  };
+
+  // True when the query is limited to companies that don't include COMPANY_ID
+  function scopedAway(where: unknown): boolean {
+    if (!where || typeof where !== "object" || where instanceof Date) return false;
+    const { companyId, ...rest } = where as Record<string, unknown>;
+    const allowed = (companyId as { in?: unknown } | undefined)?.in;
+    if (Array.isArray(allowed) && !allowed.includes(company.id)) return true;
+    return Object.values(rest).some(scopedAway);
+  }
+
+  function find(model: string, args?: { where?: Record<string, unknown> }) {
+    if (model === "user" && args?.where?.clerkUserId) {
+      return state.actor?.clerkUserId === args.where.clerkUserId ? state.actor : null;
+    }
+    return scopedAway(args?.where) ? null : record;
+  }
+
+  function orThrow(value: unknown) {
+    if (!value) throw new Error("Record not found");
+    return value;
+  }
+
+  const models = new Map<string, Record<string, (args?: never) => Promise<unknown>>>();
+  function model(name: string) {
+    if (!models.has(name)) {
+      models.set(name, {
+        findUnique: async (args) => find(name, args),
+        findFirst: async (args) => find(name, args),
+        findUniqueOrThrow: async (args) => orThrow(find(name, args)),
+        findFirstOrThrow: async (args) => orThrow(find(name, args)),
+        findMany: async () => [],
+        count: async () => 0,
+        aggregate: async () => ({ _sum: {}, _count: {} }),
+        groupBy: async () => [],
+        create: async (args?: { data?: object }) => ({ ...record, ...args?.data }),
+        update: async (args?: { data?: object }) => ({ ...record, ...args?.data }),
+        upsert: async (args?: { create?: object }) => ({ ...record, ...args?.create }),
+        delete: async () => record,
+        createMany: async () => ({ count: 1 }),
+        updateMany: async () => ({ count: 1 }),
+        deleteMany: async () => ({ count: 1 }),
+      });
+    }
+    return models.get(name)!;
+  }
+
+  const prisma: Record<string, unknown> = new Proxy(
+    {},
+    {
+      get(_, key) {
+        if (typeof key !== "string" || key === "then") return undefined;
+        if (key === "$transaction") {
+          return async (arg: unknown) =>
+            typeof arg === "function" ? arg(prisma) : Promise.all(arg as Promise<unknown>[]);
+        }
+        if (key.startsWith("$")) return async () => [];
+        return model(key);
+      },
+    }
+  );
+
+  return { default: prisma, prisma };
+});
+
+// ===========================================
+// ACTORS
+// ===========================================
+
+type ActorRole = "client_viewer" | "client_owner" | "analyst" | "reviewer" | "admin";
+
+const ACTOR_ROLES: ActorRole[] = ["client_viewer", "client_owner", "analyst", "reviewer", "admin"];
+const STAFF: ActorRole[] = ["admin", "analyst", "reviewer"];
+const EVERYONE: ActorRole[] = ACTOR_ROLES;
+
+interface Actor {
+  label: string;
+  role: ActorRole;
+  member: boolean;
+}
+
+const ACTORS: Actor[] = ACTOR_ROLES.flatMap((role) => [
+  { label: `${role} (member)`, role, member: true },
+  { label: `${role} (non-member)`, role, member: false },
+]);
+
+// Client roles are set on the membership; staff carry their firm role on the user
+function makeUser({ role, member }: Actor): MockUser {
+  const isStaff = STAFF.includes(role);
+  return {
+    id: ACTOR_ID,
+    clerkUserId: `clerk_${ACTOR_ID}`,
+    email: "actor@example.com",
+    role: isStaff ? role : "client_viewer",
+    memberships: member
+      ? [
+          {
+            id: "membership_1",
+            userId: ACTOR_ID,
+            companyId: COMPANY_ID,
+            role: isStaff ? "client_viewer" : role,
+            company: { id: COMPANY_ID, name: "Acme" },
+          },
+        ]
+      : [],
+  };
+}
+
+// ===========================================
+// ROUTES
+// ===========================================
+
+interface RouteCase {
+  route: string; // File under src/app/api, without /route.ts
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  params?: Record<string, string>;
+  query?: string;
+  body?: () => BodyInit;
+  members: ActorRole[]; // Roles let through as a member of the company
+  nonMembers?: ActorRole[]; // Roles let through without a membership (defaults to members)
+  denied?: 403 | 404; // Status for a signed-in user without access
+}
+
+const json = (value: object) => () => JSON.stringify(value);
+
+function spreadsheetForm(fields: Record<string, string>, fileField: string) {
+  return () => {
+    const form = new FormData();
+    Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+    form.append(fileField, new File(["Account,Mar 2025\nSales,100\n"], "acme.csv", { type: "text/csv" }));
+    return form;
+  };
+}
+
+const companyParams = { id: COMPANY_ID };
+const reportParams = { id: "report_1" };
+const sectionParams = { id: "report_1", sectionKey: "executive_snapshot" };
+
+const ROUTES: RouteCase[] = [
+  // Admin: companies
+  { route: "admin/companies", method: "GET", members: STAFF },
+  { route: "admin/companies", method: "POST", body: json({ name: "Globex" }), members: ["admin"] },
+  { route: "admin/companies/[id]", method: "GET", params: companyParams, members: STAFF },
+  {
+    route: "admin/companies/[id]",
+    method: "PUT",
+    params: companyParams,
+    body: json({ name: "Acme Ltd" }),
+    members: ["admin"],
+  },
+  { route: "admin/companies/[id]", method: "DELETE", params: companyParams, members: ["admin"] },
+  { route: "admin/companies/[id]/config", method: "GET", params: companyParams, members: STAFF },
+  {
+    route: "admin/companies/[id]/config",
+    method: "PUT",
+    params: companyParams,
+    body: json({ preset: "saas" }),
+    members: ["admin"],
+  },
+  { route: "admin/companies/[id]/domains", method: "GET", params: companyParams, members: STAFF },
+  {
+    route: "admin/companies/[id]/domains",
+    method: "POST",
+    params: companyParams,
+    body: json({ domain: "globex.com" }),
+    members: ["admin"],
+  },
+  {
+    route: "admin/companies/[id]/domains/[domainId]",
+    method: "DELETE",
+    params: { ...companyParams, domainId: "domain_1" },
+    members: ["admin"],
+  },
+  { route: "admin/companies/[id]/invitations", method: "GET", params: companyParams, members: STAFF },
+  {
+    route: "admin/companies/[id]/invitations",
+    method: "POST",
+    params: companyParams,
+    body: json({ email: "new@acme.com", role: "client_viewer" }),
+    members: ["admin"],
+  },
+  {
+    route: "admin/companies/[id]/invitations/[invitationId]",
+    method: "DELETE",
+    params: { ...companyParams, invitationId: "invitation_1" },
+    members: ["admin"],
+  },
+  { route: "admin/companies/[id]/schedule", method: "GET", params: companyParams, members: STAFF },
+  {
+    route: "admin/companies/[id]/schedule",
+    method: "PUT",
+    params: companyParams,
+    body: json({ enabled: true, sourceFolder: "acme", businessDay: 5 }),
+    members: ["admin"],
+  },
+  {
+    route: "admin/companies/[id]/schedule/run",
+    method: "POST",
+    params: companyParams,
+    members: ["admin", "analyst"],
+  },
+  { route: "admin/companies/[id]/sheet-mapping", method: "GET", params: companyParams, members: STAFF },
+  {
+    route: "admin/companies/[id]/sheet-mapping",
+    method: "PUT",
+    params: companyParams,
+    body: json({ mappings: [] }),
+    members: ["admin"],
+  },
+  {
+    route: "admin/companies/[id]/sheet-mapping/preview",
+    method: "POST",
+    params: companyParams,
+    body: spreadsheetForm({}, "file"),
+    members: STAFF,
+  },
+  { route: "admin/companies/[id]/users", method: "GET", params: companyParams, members: STAFF },
+  {
+    route: "admin/companies/[id]/users",
+    method: "POST",
+    params: companyParams,
+    body: json({ userId: OTHER_USER_ID, role: "client_viewer" }),
+    members: ["admin"],
+  },
+  {
+    route: "admin/companies/[id]/users/[userId]",
+    method: "PATCH",
+    params: { ...companyParams, userId: OTHER_USER_ID },
+    body: json({ role: "client_owner" }),
+    members: ["admin"],
+  },
+  {
+    route: "admin/companies/[id]/users/[userId]",
+    method: "DELETE",
+    params: { ...companyParams, userId: OTHER_USER_ID },
+    members: ["admin"],
+  },
+
+  // Admin: firm users
+  { route: "admin/users", method: "GET", members: ["admin"] },
+  {
+    route: "admin/users/[userId]",
+    method: "PATCH",
+    params: { userId: OTHER_USER_ID },
+    body: json({ firmRole: "analyst" }),
+    members: ["admin"],
+  },
+  { route: "admin/users/sync", method: "POST", members: ["admin"] },
+  { route: "admin/users/unlinked", method: "GET", members: ["admin"] },
+
+  // Admin: reports
+  {
+    route: "admin/reports/generate",
+    method: "POST",
+    body: spreadsheetForm({ companyId: COMPANY_ID, periodEnd: "2025-03-31" }, "files"),
+    members: ["admin", "analyst"],
+  },
+  {
+    route: "admin/reports/preflight",
+    method: "POST",
+    body: spreadsheetForm({ companyId: COMPANY_ID, periodEnd: "2025-03-31" }, "files"),
+    members: ["admin", "analyst"],
+  },
+  { route: "admin/reports/[id]", method: "GET", params: reportParams, members: STAFF },
+  { route: "admin/reports/[id]/status", method: "GET", params: reportParams, members: STAFF },
+  {
+    route: "admin/reports/[id]/publish",
+    method: "PATCH",
+    params: reportParams,
+    body: json({ published: true }),
+    members: ["admin", "reviewer"],
+  },
+  { route: "admin/reports/[id]/sections/[sectionKey]", method: "GET", params: sectionParams, members: STAFF },
+  {
+    route: "admin/reports/[id]/sections/[sectionKey]",
+    method: "PATCH",
+    params: sectionParams,
+    body: json({ markdown: "## Executive Snapshot\n\nEdited." }),
+    members: ["admin", "analyst"],
+  },
+  {
+    route: "admin/reports/[id]/sections/[sectionKey]/regenerate",
+    method: "POST",
+    params: sectionParams,
+    body: json({}),
+    members: ["admin", "analyst"],
+  },
+  {
+    route: "admin/reports/[id]/sections/[sectionKey]/review",
+    method: "PATCH",
+    params: sectionParams,
+    body: json({ decision: "approve" }),
+    members: ["admin", "reviewer"],
+  },
+  {
+    route: "admin/reports/[id]/sections/[sectionKey]/revisions/[version]/restore",
+    method: "POST",
+    params: { ...sectionParams, version: "1" },
+    members: ["admin", "analyst"],
+  },
+
+  // Admin: batches and audit
+  {
+    route: "admin/batches",
+    method: "POST",
+    body: json({ periodEnd: "2025-03-31" }),
+    members: ["admin", "analyst"],
+  },
+  { route: "admin/batches/[id]", method: "GET", params: { id: "batch_1" }, members: STAFF },
+  {
+    route: "admin/batches/[id]/reports",
+    method: "POST",
+    params: { id: "batch_1" },
+    body: spreadsheetForm({ companyId: COMPANY_ID }, "file"),
+    members: ["admin", "analyst"],
+  },
+  { route: "admin/audit", method: "GET", members: ["admin"] },
+
+  // Client dashboard: staff see every company, client users only their own
+  {
+    route: "companies/active",
+    method: "PUT",
+    body: json({ companyId: COMPANY_ID }),
+    members: EVERYONE,
+    nonMembers: STAFF,
+  },
+  { route: "reports", method: "GET", query: `companyId=${COMPANY_ID}`, members: EVERYONE, nonMembers: STAFF },
+  { route: "reports/[id]", method: "GET", params: reportParams, members: EVERYONE, nonMembers: STAFF, denied: 404 },
+  {
+    route: "reports/[id]/download/excel",
+    method: "GET",
+    params: reportParams,
+    members: EVERYONE,
+    nonMembers: STAFF,
+    denied: 404,
+  },
+  {
+    route: "reports/[id]/download/pdf",
+    method: "GET",
+    params: reportParams,
+    members: EVERYONE,
+    nonMembers: STAFF,
+    denied: 404,
+  },
+  {
+    route: "reports/[id]/sections/[sectionKey]/viewed",
+    method: "POST",
+    params: sectionParams,
+    members: EVERYONE,
+    nonMembers: STAFF,
+    denied: 404,
+  },
+  { route: "settings/notifications", method: "GET", members: EVERYONE },
+  {
+    route: "settings/notifications",
+    method: "PUT",
+    body: json({ notifyOnPublish: false }),
+    members: EVERYONE,
+  },
+
+  // Team invitations act on the user's own (active) company
+  {
+    route: "team/invitations",
+    method: "POST",
+    body: json({ email: "colleague@acme.com", role: "client_viewer" }),
+    members: ["client_owner", "admin"],
+    nonMembers: [],
+  },
+  {
+    route: "team/invitations/[invitationId]",
+    method: "DELETE",
+    params: { invitationId: "invitation_1" },
+    members: ["client_owner", "admin"],
+    nonMembers: [],
+  },
+];
+
+type Handler = (request: Request, context: { params: Promise<Record<string, string>> }) => Promise<Response>;
+
+// Route modules, keyed like ROUTES' `route`
+const ROUTE_MODULES = import.meta.glob<Record<string, Handler | undefined>>("./**/route.ts");
+
+async function call(routeCase: RouteCase): Promise<number> {
+  const load = ROUTE_MODULES[`./${routeCase.route}/route.ts`];
+  if (!load) throw new Error(`No route file for ${routeCase.route}`);
+
+  const handler = (await load())[routeCase.method];
+  if (!handler) throw new Error(`${routeCase.route} has no ${routeCase.method} handler`);
+
+  const body = routeCase.body?.();
+  const url = `http://localhost/api/${routeCase.route}${routeCase.query ? `?${routeCase.query}` : ""}`;
+  const request = new Request(url, {
+    method: routeCase.method,
+    body,
+    headers: typeof body === "string" ? { "Content-Type": "application/json" } : undefined,
+  });
+
+  try {
+    const response = await handler(request, { params: Promise.resolve(routeCase.params ?? {}) });
+    return response.status;
+  } catch {
+    return 500; // What Next.js would answer; the access check was already passed
+  }
+}
+
+function isAllowed(routeCase: RouteCase, actor: Actor): boolean {
+  const roles = actor.member ? routeCase.members : (routeCase.nonMembers ?? routeCase.members);
+  return roles.includes(actor.role);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("every API route", () => {
+  it("is covered by the access matrix", () => {
+    const covered = new Set(ROUTES.map((r) => `./${r.route}/route.ts`));
+    const uncovered = Object.keys(ROUTE_MODULES).filter(
+      (path) => !covered.has(path) && path !== "./webhooks/clerk/route.ts"
+    );
+    expect(uncovered).toEqual([]);
+  });
+});
+
+describe.each(ROUTES.map((r) => [`${r.method} /api/${r.route}`, r] as const))("%s", (_, routeCase) => {
+  it("rejects signed-out requests", async () => {
+    state.actor = null;
+    expect(await call(routeCase)).toBe(401);
+  });
+
+  it.each(ACTORS)("$label", async (actor) => {
+    state.actor = makeUser(actor);
+    const status = await call(routeCase);
+
+    if (isAllowed(routeCase, actor)) {
+      expect([401, 403]).not.toContain(status);
+      if (routeCase.denied === 404) expect(status).not.toBe(404);
+    } else {
+      expect(status).toBe(routeCase.denied ?? 403);
+    }
+  });
+});
+
+describe("POST /api/webhooks/clerk", () => {
+  it("rejects unsigned requests when a webhook secret is set", async () => {
+    state.actor = null;
+    const { POST } = await import("./webhooks/clerk/route");
+    const response = await POST(
+      new Request("http://localhost/api/webhooks/clerk", {
+        method: "POST",
+        body: JSON.stringify({ type: "user.created", data: { id: "clerk_new" } }),
+      })
+    );
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import {
+  AUDIT_LOG_INCLUDE,
+  auditEntriesToCsv,
+  buildAuditWhere,
+  parseAuditFilters,
+  toAuditLogEntry,
+} from "@/lib/audit";
+import type { ApiResponse, AuditLogPage } from "@/types";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const EXPORT_BATCH_SIZE = 1000;
+
+// GET /api/admin/audit - Audit log, filtered by companyId, userId, reportId, action, from, to
+// Paginated with page/pageSize; format=csv exports every matching row instead
+export async function GET(request: Request) {
+  try {
+    const result = await requirePermission("audit:view");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const filters = parseAuditFilters(searchParams);
+    if ("error" in filters) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: filters.error },
+        { status: 400 }
+      );
+    }
+
+    const where = buildAuditWhere(filters);
+
+    if (searchParams.get("format") === "csv") {
+      // Streamed a batch at a time, so every matching row is exported without
+      // holding the whole log in memory
+      const encoder = new TextEncoder();
+      let cursor: string | null = null;
+      const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const rows = await prisma.accessLog.findMany({
+            where,
+            include: AUDIT_LOG_INCLUDE,
+            orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+            take: EXPORT_BATCH_SIZE,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+          });
+
+          const csv = auditEntriesToCsv(rows.map(toAuditLogEntry), { header: cursor === null });
+          if (csv) {
+            controller.enqueue(encoder.encode(csv));
+          }
+
+          if (rows.length < EXPORT_BATCH_SIZE) {
+            controller.close();
+          } else {
+            cursor = rows[rows.length - 1].id;
+          }
+        },
+      });
+
+      const date = new Date().toISOString().slice(0, 10);
+      return new NextResponse(stream, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="audit-log-${date}.csv"`,
+        },
+      });
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(searchParams.get("pageSize") || "", 10) || DEFAULT_PAGE_SIZE)
+    );
+
+    const [rows, total] = await Promise.all([
+      prisma.accessLog.findMany({
+        where,
+        include: AUDIT_LOG_INCLUDE,
+        orderBy: { timestamp: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.accessLog.count({ where }),
+    ]);
+
+    return NextResponse.json<ApiResponse<AuditLogPage>>({
+      success: true,
+      data: { entries: rows.map(toAuditLogEntry), total, page, pageSize },
+    });
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { startNextBatchReports } from "@/lib/batches";
+import { ImportError, importSourceFiles, isSourceFileName, type ImportResult } from "@/lib/importers";
+import { markReportFailed, recordReportEvent } from "@/lib/report-generation";
+import { uploadFile } from "@/lib/storage";
+import { formatPeriodLabel } from "@/lib/utils";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Route segment config for large file uploads
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+// POST /api/admin/batches/[id]/reports - Add one company's workbook or export to a batch
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("reports:generate");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+    const formData = await request.formData();
+    const companyId = formData.get("companyId") as string;
+    const file = formData.get("file") as File;
+
+    if (!companyId || !file) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Company ID and a workbook or export file are required" },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type (by extension: browsers disagree on CSV MIME types)
+    if (!isSourceFileName(file.name)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `${file.name} must be an Excel or CSV file (.xlsx, .xls or .csv)` },
+        { status: 400 }
+      );
+    }
+
+    const [batch, company] = await Promise.all([
+      prisma.generationBatch.findUnique({ where: { id } }),
+      prisma.company.findUnique({ where: { id: companyId } }),
+    ]);
+
+    if (!batch || !company) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: batch ? "Company not found" : "Batch not found" },
+        { status: 404 }
+      );
+    }
+
+    // Read it the same way as a single upload (QuickBooks/Xero exports, CSVs)
+    let imported: ImportResult;
+    try {
+      imported = importSourceFiles([{ name: file.name, buffer: Buffer.from(await file.arrayBuffer()) }]);
+    } catch (importError) {
+      if (importError instanceof ImportError) {
+        return NextResponse.json<ApiResponse>(
+          { success: false, error: importError.message },
+          { status: 400 }
+        );
+      }
+      throw importError;
+    }
+
+    // Waits for a batch slot (no job id) until startNextBatchReports queues it
+    const report = await prisma.report.create({
+      data: {
+        companyId,
+        batchId: batch.id,
+        periodEnd: batch.periodEnd,
+        periodLabel: formatPeriodLabel(batch.periodEnd),
+        sourceFileName: imported.fileName,
+        status: "processing",
+        stage: "uploading",
+        stageUpdatedAt: new Date(),
+      },
+    });
+
+    try {
+      const storagePath = `reports/${companyId}/${report.id}/source${imported.extension}`;
+      await uploadFile(storagePath, imported.buffer, imported.contentType);
+      await prisma.report.update({
+        where: { id: report.id },
+        data: { sourceFileUrl: storagePath },
+      });
+
+      await recordReportEvent(report.id, "queued", `${file.name} (waiting for a batch slot)`);
+    } catch (uploadError) {
+      console.error("Batch upload error:", uploadError);
+
+      await markReportFailed(
+        report.id,
+        uploadError instanceof Error ? uploadError.message : "Failed to upload workbook"
+      );
+
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Failed to upload workbook" },
+        { status: 500 }
+      );
+    }
+
+    // The upload is kept either way; a report that can't start now is picked
+    // up when a slot frees or by the worker's hourly check
+    try {
+      await startNextBatchReports(batch.id);
+    } catch (startError) {
+      console.error(`Failed to start reports for batch ${batch.id}:`, startError);
+    }
+
+    return NextResponse.json<ApiResponse>(
+      { success: true, data: { reportId: report.id, status: "processing" } },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error adding report to batch:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to add report to batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+import { getBatchStatus } from "@/lib/batches";
+import type { ApiResponse, GenerationBatchStatus } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/batches/[id] - Progress of every report in a batch
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("admin:access");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+    const batch = await getBatchStatus(id);
+
+    if (!batch) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Batch not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<GenerationBatchStatus>>(
+      { success: true, data: batch },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error fetching batch status:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch batch status" },
+      { status: 500 }
+    );
+  }
+}
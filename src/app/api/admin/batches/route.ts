@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY } from "@/lib/batches";
+import type { ApiResponse } from "@/types";
+
+// POST /api/admin/batches - Start a batch for one period (workbooks are added one by one)
+export async function POST(request: Request) {
+  try {
+    const result = await requirePermission("reports:generate");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const body = await request.json();
+    const { periodEnd, concurrency = DEFAULT_BATCH_CONCURRENCY } = body;
+
+    const periodEndDate = new Date(periodEnd);
+    if (!periodEnd || isNaN(periodEndDate.getTime())) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "A valid period end date is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `Concurrency must be between 1 and ${MAX_BATCH_CONCURRENCY}` },
+        { status: 400 }
+      );
+    }
+
+    const batch = await prisma.generationBatch.create({
+      data: {
+        periodEnd: periodEndDate,
+        concurrency,
+        createdById: result.user.id,
+      },
+    });
+
+    return NextResponse.json<ApiResponse>(
+      { success: true, data: { batchId: batch.id } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating batch:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to create batch" },
+      { status: 500 }
+    );
+  }
+}
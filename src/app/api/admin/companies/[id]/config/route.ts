@@ -1,33 +1,17 @@
 import { NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
 import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
 import type { ApiResponse } from "@/types";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-async function requireAdmin() {
-  const { userId } = await auth();
-  if (!userId) {
-    return { error: "Unauthorized", status: 401 };
-  }
-
-  const user = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
-  if (!user || user.role !== "admin") {
-    return { error: "Admin access required", status: 403 };
-  }
-
-  return { user };
-}
-
 // GET /api/admin/companies/[id]/config - Get metric configuration
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const result = await requireAdmin();
+    const result = await requirePermission("admin:access");
     if ("error" in result) {
       return NextResponse.json<ApiResponse>(
         { success: false, error: result.error },
@@ -84,7 +68,7 @@ export async function GET(request: Request, { params }: RouteParams) {
 // PUT /api/admin/companies/[id]/config - Update metric configuration
 export async function PUT(request: Request, { params }: RouteParams) {
   try {
-    const result = await requireAdmin();
+    const result = await requirePermission("companies:manage");
     if ("error" in result) {
       return NextResponse.json<ApiResponse>(
         { success: false, error: result.error },
@@ -154,6 +138,11 @@ export async function PUT(request: Request, { params }: RouteParams) {
       },
     });
 
+    await logAdminAction(
+      { action: "config_updated", userId: result.user.id, companyId: id, details: { preset: config.preset } },
+      request
+    );
+
     return NextResponse.json<ApiResponse>({
       success: true,
       data: config,
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string; domainId: string }>;
+}
+
+// DELETE /api/admin/companies/[id]/domains/[domainId] - Remove a verified domain
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("companies:manage");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id, domainId } = await params;
+
+    const domain = await prisma.companyDomain.findFirst({
+      where: { id: domainId, companyId: id },
+    });
+
+    if (!domain) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Domain not found" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.companyDomain.delete({ where: { id: domain.id } });
+
+    await logAdminAction(
+      { action: "domain_removed", userId: result.user.id, companyId: id, details: { domain: domain.domain } },
+      request
+    );
+
+    return NextResponse.json<ApiResponse>({ success: true });
+  } catch (error) {
+    console.error("Error removing domain:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to remove domain" },
+      { status: 500 }
+    );
+  }
+}
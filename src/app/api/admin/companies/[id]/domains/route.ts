@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { normalizeDomain } from "@/lib/invitations";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/admin/companies/[id]/domains - List verified email domains
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("admin:access");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+
+    const domains = await prisma.companyDomain.findMany({
+      where: { companyId: id },
+      orderBy: { domain: "asc" },
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: domains.map((d) => ({ id: d.id, domain: d.domain, createdAt: d.createdAt.toISOString() })),
+    });
+  } catch (error) {
+    console.error("Error fetching domains:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch domains" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/companies/[id]/domains - Verify an email domain for the company
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("companies:manage");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const domain = typeof body.domain === "string" ? normalizeDomain(body.domain) : null;
+
+    if (!domain) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Enter a company email domain (public providers like gmail.com can't be used)" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.companyDomain.findUnique({
+      where: { domain },
+      include: { company: { select: { name: true } } },
+    });
+
+    if (existing) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `${domain} is already verified for ${existing.company.name}` },
+        { status: 409 }
+      );
+    }
+
+    const created = await prisma.companyDomain.create({
+      data: { companyId: id, domain, createdById: result.user.id },
+    });
+
+    await logAdminAction(
+      { action: "domain_added", userId: result.user.id, companyId: id, details: { domain } },
+      request
+    );
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { id: created.id, domain: created.domain, createdAt: created.createdAt.toISOString() },
+    });
+  } catch (error) {
+    console.error("Error adding domain:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to add domain" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { isInvitationPending, revokeInvitation } from "@/lib/invitations";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string; invitationId: string }>;
+}
+
+// DELETE /api/admin/companies/[id]/invitations/[invitationId] - Revoke a pending invitation
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("users:manage");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id, invitationId } = await params;
+
+    const invitation = await prisma.invitation.findFirst({
+      where: { id: invitationId, companyId: id },
+    });
+
+    if (!invitation || !isInvitationPending(invitation)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Invitation not found" },
+        { status: 404 }
+      );
+    }
+
+    await revokeInvitation(invitation);
+
+    await logAdminAction(
+      {
+        action: "invitation_revoked",
+        userId: result.user.id,
+        companyId: invitation.companyId,
+        details: { email: invitation.email, role: invitation.role },
+      },
+      request
+    );
+
+    return NextResponse.json<ApiResponse>({ success: true });
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to revoke invitation" },
+      { status: 500 }
+    );
+  }
+}
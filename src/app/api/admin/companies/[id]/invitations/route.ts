@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { createInvitation, InvitationError, listPendingInvitations } from "@/lib/invitations";
+import { isClientRole } from "@/lib/permissions";
+import type { ApiResponse, InvitationListItem } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/admin/companies/[id]/invitations - List pending invitations
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("admin:access");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+
+    return NextResponse.json<ApiResponse<InvitationListItem[]>>({
+      success: true,
+      data: await listPendingInvitations(id),
+    });
+  } catch (error) {
+    console.error("Error fetching invitations:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch invitations" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/companies/[id]/invitations - Invite an email address to the company
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("users:manage");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { email, role = "client_viewer" } = body;
+
+    if (typeof email !== "string" || !email.trim()) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "email is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isClientRole(role)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "role must be client_owner or client_viewer" },
+        { status: 400 }
+      );
+    }
+
+    const company = await prisma.company.findUnique({ where: { id } });
+    if (!company) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    const { invitation, linkedExistingUser } = await createInvitation({
+      companyId: id,
+      email,
+      role,
+      invitedById: result.user.id,
+    });
+
+    // Existing users are linked straight away, which is logged as user_linked
+    if (!linkedExistingUser) {
+      await logAdminAction(
+        {
+          action: "invitation_sent",
+          userId: result.user.id,
+          companyId: id,
+          details: { email: invitation.email, role: invitation.role },
+        },
+        request
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { id: invitation.id, email: invitation.email, linkedExistingUser },
+    });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error creating invitation:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to send invitation" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,33 +1,17 @@
 import { NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
 import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
 import type { ApiResponse } from "@/types";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-async function requireAdmin() {
-  const { userId } = await auth();
-  if (!userId) {
-    return { error: "Unauthorized", status: 401 };
-  }
-
-  const user = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
-  if (!user || user.role !== "admin") {
-    return { error: "Admin access required", status: 403 };
-  }
-
-  return { user };
-}
-
 // GET /api/admin/companies/[id] - Get company details
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const result = await requireAdmin();
+    const result = await requirePermission("admin:access");
     if ("error" in result) {
       return NextResponse.json<ApiResponse>(
         { success: false, error: result.error },
@@ -40,13 +24,16 @@ export async function GET(request: Request, { params }: RouteParams) {
     const company = await prisma.company.findUnique({
       where: { id },
       include: {
-        users: {
-          select: {
-            id: true,
-            email: true,
-            role: true,
-            createdAt: true,
-            lastLoginAt: true,
+        memberships: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                createdAt: true,
+                lastLoginAt: true,
+              },
+            },
           },
         },
         reports: {
@@ -88,7 +75,7 @@ export async function GET(request: Request, { params }: RouteParams) {
 // PUT /api/admin/companies/[id] - Update company
 export async function PUT(request: Request, { params }: RouteParams) {
   try {
-    const result = await requireAdmin();
+    const result = await requirePermission("companies:manage");
     if ("error" in result) {
       return NextResponse.json<ApiResponse>(
         { success: false, error: result.error },
@@ -159,7 +146,7 @@ export async function PUT(request: Request, { params }: RouteParams) {
 // DELETE /api/admin/companies/[id] - Delete company
 export async function DELETE(request: Request, { params }: RouteParams) {
   try {
-    const result = await requireAdmin();
+    const result = await requirePermission("companies:manage");
     if ("error" in result) {
       return NextResponse.json<ApiResponse>(
         { success: false, error: result.error },
@@ -185,6 +172,12 @@ export async function DELETE(request: Request, { params }: RouteParams) {
       where: { id },
     });
 
+    // The log's company link is cleared by the delete, so keep the name in details
+    await logAdminAction(
+      { action: "company_deleted", userId: result.user.id, details: { companyId: id, companyName: company.name } },
+      request
+    );
+
     return NextResponse.json<ApiResponse>({
       success: true,
       data: { deleted: true },
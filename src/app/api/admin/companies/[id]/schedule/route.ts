@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import {
+  getDuePeriodEnd,
+  MAX_BUSINESS_DAY,
+  normalizeSourceFolder,
+  toScheduleDetail,
+} from "@/lib/schedules";
+import type { ApiResponse, ReportScheduleDetail } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/admin/companies/[id]/schedule - Get the monthly run schedule
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("admin:access");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+
+    const company = await prisma.company.findUnique({
+      where: { id },
+      include: { schedule: true },
+    });
+
+    if (!company) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<{ companyName: string; schedule: ReportScheduleDetail | null }>>({
+      success: true,
+      data: {
+        companyName: company.name,
+        schedule: company.schedule ? toScheduleDetail(company.schedule) : null,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching schedule:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/companies/[id]/schedule - Create or update the monthly run schedule
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("companies:manage");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { enabled, sourceFolder, businessDay } = body;
+
+    const company = await prisma.company.findUnique({
+      where: { id },
+    });
+
+    if (!company) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    const folder = typeof sourceFolder === "string" ? normalizeSourceFolder(sourceFolder) : null;
+    if (!folder) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "A valid source folder is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(businessDay) || businessDay < 1 || businessDay > MAX_BUSINESS_DAY) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `Business day must be between 1 and ${MAX_BUSINESS_DAY}` },
+        { status: 400 }
+      );
+    }
+
+    const data = {
+      enabled: enabled !== false,
+      sourceFolder: folder,
+      businessDay,
+    };
+
+    const schedule = await prisma.reportSchedule.upsert({
+      where: { companyId: id },
+      // A new schedule starts with the next run day; the period already due
+      // (usually last month) is left to "Run now", or it would be generated
+      // from whatever workbook is already in the folder
+      create: { companyId: id, ...data, lastPeriodEnd: getDuePeriodEnd(data, new Date()) },
+      update: data,
+    });
+
+    await logAdminAction(
+      { action: "schedule_updated", userId: result.user.id, companyId: id, details: data },
+      request
+    );
+
+    return NextResponse.json<ApiResponse<ReportScheduleDetail>>({
+      success: true,
+      data: toScheduleDetail(schedule),
+    });
+  } catch (error) {
+    console.error("Error updating schedule:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to update schedule" },
+      { status: 500 }
+    );
+  }
+}
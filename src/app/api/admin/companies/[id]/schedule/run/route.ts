@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { runSchedule, toScheduleDetail, type ScheduleRunResult } from "@/lib/schedules";
+import type { ApiResponse, ReportScheduleDetail } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/admin/companies/[id]/schedule/run - Run the schedule now for the due period
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("reports:generate");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+
+    const schedule = await prisma.reportSchedule.findUnique({
+      where: { companyId: id },
+      include: { company: { select: { id: true, name: true } } },
+    });
+
+    if (!schedule) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "This company has no schedule" },
+        { status: 404 }
+      );
+    }
+
+    const run = await runSchedule(schedule, { force: true });
+    const updated = await prisma.reportSchedule.findUniqueOrThrow({
+      where: { id: schedule.id },
+    });
+
+    return NextResponse.json<ApiResponse<{ run: ScheduleRunResult; schedule: ReportScheduleDetail }>>({
+      success: true,
+      data: { run, schedule: toScheduleDetail(updated) },
+    });
+  } catch (error) {
+    console.error("Error running schedule:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to run schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+import { previewExtraction, type ExtractionPreview } from "@/lib/excel";
+import { parseSheetMappings } from "@/lib/sheet-roles";
+import type { ApiResponse } from "@/types";
+
+// POST /api/admin/companies/[id]/sheet-mapping/preview - Show which tabs a
+// sample workbook would use under a (possibly unsaved) mapping
+export async function POST(request: Request) {
+  try {
+    const result = await requirePermission("admin:access");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File;
+    const mappingsJson = formData.get("mappings") as string | null;
+
+    if (!file) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Excel file is required" },
+        { status: 400 }
+      );
+    }
+
+    let mappings: unknown = [];
+    try {
+      mappings = mappingsJson ? JSON.parse(mappingsJson) : [];
+    } catch {
+      mappings = null;
+    }
+
+    const parsed = parseSheetMappings(mappings);
+    if ("error" in parsed) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    let preview: ExtractionPreview;
+    try {
+      preview = previewExtraction(Buffer.from(await file.arrayBuffer()), parsed.mappings);
+    } catch {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Could not read the workbook" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<ExtractionPreview>>({
+      success: true,
+      data: preview,
+    });
+  } catch (error) {
+    console.error("Error previewing sheet mapping:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to preview sheet mapping" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { parseSheetMappings, toSheetMappingEntries, type SheetMappingEntry } from "@/lib/sheet-roles";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/admin/companies/[id]/sheet-mapping - Get the workbook sheet mapping
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("admin:access");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+
+    const company = await prisma.company.findUnique({
+      where: { id },
+      include: { sheetMappings: true },
+    });
+
+    if (!company) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<{ mappings: SheetMappingEntry[] }>>({
+      success: true,
+      data: { mappings: toSheetMappingEntries(company.sheetMappings) },
+    });
+  } catch (error) {
+    console.error("Error fetching sheet mapping:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch sheet mapping" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/companies/[id]/sheet-mapping - Replace the workbook sheet mapping
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("companies:manage");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const company = await prisma.company.findUnique({
+      where: { id },
+    });
+
+    if (!company) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    const parsed = parseSheetMappings(body.mappings);
+    if ("error" in parsed) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.sheetMapping.deleteMany({ where: { companyId: id } }),
+      prisma.sheetMapping.createMany({
+        data: parsed.mappings.map((mapping) => ({ companyId: id, ...mapping })),
+      }),
+    ]);
+
+    await logAdminAction(
+      {
+        action: "sheet_mapping_updated",
+        userId: result.user.id,
+        companyId: id,
+        details: { mappings: parsed.mappings.map((m) => `${m.role}: ${m.sheetName}`) },
+      },
+      request
+    );
+
+    return NextResponse.json<ApiResponse<{ mappings: SheetMappingEntry[] }>>({
+      success: true,
+      data: { mappings: parsed.mappings },
+    });
+  } catch (error) {
+    console.error("Error updating sheet mapping:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to update sheet mapping" },
+      { status: 500 }
+    );
+  }
+}
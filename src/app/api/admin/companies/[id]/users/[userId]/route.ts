@@ -1,106 +1,100 @@
-import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { isClientRole } from "@/lib/permissions";
 
 interface RouteContext {
   params: Promise<{ id: string; userId: string }>;
 }
 
 // PATCH /api/admin/companies/[id]/users/[userId]
-// Update user role
+// Update a member's company role ({ role }). Firm roles are set on
+// /api/admin/users/[userId]
 export async function PATCH(request: Request, context: RouteContext) {
-  const { userId: clerkUserId } = await auth();
   const { id: companyId, userId: targetUserId } = await context.params;
 
-  if (!clerkUserId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  // Check if user is admin
-  const currentUser = await prisma.user.findUnique({
-    where: { clerkUserId },
-  });
-
-  if (!currentUser || currentUser.role !== "admin") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const result = await requirePermission("users:manage");
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
   // Verify target user exists and belongs to company
-  const targetUser = await prisma.user.findFirst({
-    where: {
-      id: targetUserId,
-      companyId,
-    },
+  const membership = await prisma.companyMembership.findUnique({
+    where: { userId_companyId: { userId: targetUserId, companyId } },
+    include: { user: true },
   });
 
-  if (!targetUser) {
+  if (!membership) {
     return NextResponse.json({ error: "User not found in this company" }, { status: 404 });
   }
 
   const body = await request.json();
   const { role } = body;
 
-  if (!role || !["admin", "viewer"].includes(role)) {
-    return NextResponse.json({ error: "Invalid role. Must be 'admin' or 'viewer'" }, { status: 400 });
+  if (!isClientRole(role)) {
+    return NextResponse.json(
+      { error: "Invalid role. Must be 'client_owner' or 'client_viewer'" },
+      { status: 400 }
+    );
   }
 
-  const updatedUser = await prisma.user.update({
-    where: { id: targetUserId },
+  const updatedMembership = await prisma.companyMembership.update({
+    where: { id: membership.id },
     data: { role },
-    select: {
-      id: true,
-      email: true,
-      role: true,
-    },
   });
 
-  return NextResponse.json(updatedUser);
+  await logAdminAction(
+    {
+      action: "role_changed",
+      userId: result.user.id,
+      companyId,
+      details: { email: membership.user.email, role, previousRole: membership.role },
+    },
+    request
+  );
+
+  return NextResponse.json({
+    id: membership.user.id,
+    email: membership.user.email,
+    role: updatedMembership.role,
+    firmRole: membership.user.role,
+  });
 }
 
 // DELETE /api/admin/companies/[id]/users/[userId]
-// Remove user from company (unlink, don't delete)
+// Remove user from company (deletes the membership, not the user)
 export async function DELETE(request: Request, context: RouteContext) {
-  const { userId: clerkUserId } = await auth();
   const { id: companyId, userId: targetUserId } = await context.params;
 
-  if (!clerkUserId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  // Check if user is admin
-  const currentUser = await prisma.user.findUnique({
-    where: { clerkUserId },
-  });
-
-  if (!currentUser || currentUser.role !== "admin") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const result = await requirePermission("users:manage");
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
   // Verify target user exists and belongs to company
-  const targetUser = await prisma.user.findFirst({
-    where: {
-      id: targetUserId,
-      companyId,
-    },
+  const membership = await prisma.companyMembership.findUnique({
+    where: { userId_companyId: { userId: targetUserId, companyId } },
+    include: { user: { select: { email: true } } },
   });
 
-  if (!targetUser) {
+  if (!membership) {
     return NextResponse.json({ error: "User not found in this company" }, { status: 404 });
   }
 
   // Prevent removing yourself
-  if (targetUser.clerkUserId === clerkUserId) {
+  if (targetUserId === result.user.id) {
     return NextResponse.json({ error: "Cannot remove yourself from the company" }, { status: 400 });
   }
 
-  // Unlink user from company (set companyId to null)
-  await prisma.user.update({
-    where: { id: targetUserId },
-    data: {
-      companyId: null,
-      role: "viewer", // Reset to viewer when unlinked
-    },
+  await prisma.companyMembership.delete({
+    where: { id: membership.id },
   });
 
+  await logAdminAction(
+    { action: "user_unlinked", userId: result.user.id, companyId, details: { email: membership.user.email } },
+    request
+  );
+
   return NextResponse.json({ success: true });
 }
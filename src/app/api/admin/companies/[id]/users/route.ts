@@ -1,62 +1,59 @@
-import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { isClientRole } from "@/lib/permissions";
 
 interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
 // GET /api/admin/companies/[id]/users
-// Returns all users for a company
+// Returns all members of a company
 export async function GET(request: Request, context: RouteContext) {
-  const { userId } = await auth();
   const { id: companyId } = await context.params;
 
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const result = await requirePermission("admin:access");
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
-  // Check if user is admin
-  const currentUser = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
-  if (!currentUser || currentUser.role !== "admin") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-  }
-
-  const users = await prisma.user.findMany({
+  const memberships = await prisma.companyMembership.findMany({
     where: { companyId },
-    select: {
-      id: true,
-      email: true,
-      role: true,
-      createdAt: true,
-      lastLoginAt: true,
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          role: true,
+          createdAt: true,
+          lastLoginAt: true,
+        },
+      },
     },
-    orderBy: { email: "asc" },
+    orderBy: { user: { email: "asc" } },
   });
 
+  const users = memberships.map(({ user, role }) => ({
+    id: user.id,
+    email: user.email,
+    role, // Role at this company
+    firmRole: user.role,
+    createdAt: user.createdAt,
+    lastLoginAt: user.lastLoginAt,
+  }));
+
   return NextResponse.json(users);
 }
 
 // POST /api/admin/companies/[id]/users
-// Link a user to this company
+// Add a user to this company (users can belong to several companies)
 export async function POST(request: Request, context: RouteContext) {
-  const { userId } = await auth();
   const { id: companyId } = await context.params;
 
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  // Check if user is admin
-  const currentUser = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
-  if (!currentUser || currentUser.role !== "admin") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const result = await requirePermission("users:manage");
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
   // Verify company exists
@@ -69,12 +66,16 @@ export async function POST(request: Request, context: RouteContext) {
   }
 
   const body = await request.json();
-  const { userId: targetUserId, role = "viewer" } = body;
+  const { userId: targetUserId, role = "client_viewer" } = body;
 
   if (!targetUserId) {
     return NextResponse.json({ error: "userId is required" }, { status: 400 });
   }
 
+  if (!isClientRole(role)) {
+    return NextResponse.json({ error: "Invalid company role" }, { status: 400 });
+  }
+
   // Verify target user exists
   const targetUser = await prisma.user.findUnique({
     where: { id: targetUserId },
@@ -84,20 +85,27 @@ export async function POST(request: Request, context: RouteContext) {
     return NextResponse.json({ error: "User not found" }, { status: 404 });
   }
 
-  // Update user to link to company
-  const updatedUser = await prisma.user.update({
-    where: { id: targetUserId },
-    data: {
+  const membership = await prisma.companyMembership.upsert({
+    where: { userId_companyId: { userId: targetUserId, companyId } },
+    create: { userId: targetUserId, companyId, role },
+    update: { role },
+  });
+
+  await logAdminAction(
+    {
+      action: "user_linked",
+      userId: result.user.id,
       companyId,
-      role: role === "admin" ? "admin" : "viewer",
-    },
-    select: {
-      id: true,
-      email: true,
-      role: true,
-      companyId: true,
+      details: { email: targetUser.email, role: membership.role },
     },
+    request
+  );
+
+  return NextResponse.json({
+    id: targetUser.id,
+    email: targetUser.email,
+    role: membership.role,
+    firmRole: targetUser.role,
+    companyId,
   });
-
-  return NextResponse.json(updatedUser);
 }
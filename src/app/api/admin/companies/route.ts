@@ -1,30 +1,13 @@
 import { NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
 import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
 import type { ApiResponse } from "@/types";
 
 // Helper to check if user is admin
-async function requireAdmin() {
-  const { userId } = await auth();
-  if (!userId) {
-    return { error: "Unauthorized", status: 401 };
-  }
-
-  const user = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
-  if (!user || user.role !== "admin") {
-    return { error: "Admin access required", status: 403 };
-  }
-
-  return { user };
-}
-
 // GET /api/admin/companies - List all companies
 export async function GET() {
   try {
-    const result = await requireAdmin();
+    const result = await requirePermission("admin:access");
     if ("error" in result) {
       return NextResponse.json<ApiResponse>(
         { success: false, error: result.error },
@@ -37,7 +20,7 @@ export async function GET() {
       include: {
         _count: {
           select: {
-            users: true,
+            memberships: true,
             reports: true,
           },
         },
@@ -52,7 +35,7 @@ export async function GET() {
     const data = companies.map((company) => ({
       id: company.id,
       name: company.name,
-      userCount: company._count.users,
+      userCount: company._count.memberships,
       reportCount: company._count.reports,
       preset: company.metricConfig?.preset || "standard",
       createdAt: company.createdAt.toISOString(),
@@ -74,7 +57,7 @@ export async function GET() {
 // POST /api/admin/companies - Create new company
 export async function POST(request: Request) {
   try {
-    const result = await requireAdmin();
+    const result = await requirePermission("companies:manage");
     if ("error" in result) {
       return NextResponse.json<ApiResponse>(
         { success: false, error: result.error },
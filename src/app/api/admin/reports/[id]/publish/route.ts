@@ -1,33 +1,18 @@
 import { NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
 import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { enqueueReportPublishedNotification } from "@/lib/queue";
 import type { ApiResponse } from "@/types";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-async function requireAdmin() {
-  const { userId } = await auth();
-  if (!userId) {
-    return { error: "Unauthorized", status: 401 };
-  }
-
-  const user = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
-  if (!user || user.role !== "admin") {
-    return { error: "Admin access required", status: 403 };
-  }
-
-  return { user };
-}
-
 // PATCH /api/admin/reports/[id]/publish - Publish or unpublish a report
 export async function PATCH(request: Request, { params }: RouteParams) {
   try {
-    const result = await requireAdmin();
+    const result = await requirePermission("reports:publish");
     if ("error" in result) {
       return NextResponse.json<ApiResponse>(
         { success: false, error: result.error },
@@ -49,6 +34,11 @@ export async function PATCH(request: Request, { params }: RouteParams) {
     // Get report
     const report = await prisma.report.findUnique({
       where: { id },
+      include: {
+        sections: {
+          select: { reviewStatus: true },
+        },
+      },
     });
 
     if (!report) {
@@ -58,6 +48,14 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       );
     }
 
+    // Publishing again would reset publishedAt, which time-to-first-view is measured from
+    if (published && report.published) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Report is already published" },
+        { status: 409 }
+      );
+    }
+
     // Only complete reports can be published
     if (published && report.status !== "complete") {
       return NextResponse.json<ApiResponse>(
@@ -66,17 +64,56 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       );
     }
 
+    // Every section must be approved in review first
+    if (published) {
+      const approved = report.sections.filter((s) => s.reviewStatus === "approved").length;
+      if (report.sections.length === 0 || approved < report.sections.length) {
+        return NextResponse.json<ApiResponse>(
+          {
+            success: false,
+            error: `All sections must be approved before publishing (${approved} of ${report.sections.length} approved)`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Update report
     const updatedReport = await prisma.report.update({
       where: { id },
-      data: { published },
+      data: {
+        published,
+        publishedAt: published ? new Date() : null,
+      },
     });
 
+    await logAdminAction(
+      {
+        action: published ? "report_published" : "report_unpublished",
+        userId: result.user.id,
+        companyId: report.companyId,
+        reportId: report.id,
+        details: { periodLabel: report.periodLabel },
+      },
+      request
+    );
+
+    // Email the company's users (the job skips anyone already notified, e.g.
+    // when a report is unpublished and published again)
+    if (published) {
+      try {
+        await enqueueReportPublishedNotification(report.id);
+      } catch (error) {
+        console.error(`Failed to queue publish notification for report ${report.id}:`, error);
+      }
+    }
+
     return NextResponse.json<ApiResponse>({
       success: true,
       data: {
         id: updatedReport.id,
         published: updatedReport.published,
+        publishedAt: updatedReport.publishedAt?.toISOString() ?? null,
       },
     });
   } catch (error) {
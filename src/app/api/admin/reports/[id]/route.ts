@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/admin/reports/[id] - Get report processing state, generation log and tie-out checks
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("admin:access");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+
+    const report = await prisma.report.findUnique({
+      where: { id },
+      include: {
+        events: {
+          orderBy: { createdAt: "asc" },
+        },
+        checks: {
+          orderBy: [{ passed: "asc" }, { createdAt: "asc" }],
+        },
+        _count: {
+          select: { sections: true },
+        },
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Report not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        id: report.id,
+        companyId: report.companyId,
+        periodLabel: report.periodLabel,
+        status: report.status,
+        errorMessage: report.errorMessage,
+        published: report.published,
+        publishedAt: report.publishedAt?.toISOString() ?? null,
+        reviewStatus: report.reviewStatus,
+        reviewedAt: report.reviewedAt?.toISOString() ?? null,
+        approvedAt: report.approvedAt?.toISOString() ?? null,
+        attempts: report.attempts,
+        sectionsGenerated: report._count.sections,
+        events: report.events.map((event) => ({
+          step: event.step,
+          message: event.message,
+          attempt: event.attempt,
+          createdAt: event.createdAt.toISOString(),
+        })),
+        checks: report.checks.map((check) => ({
+          sectionKey: check.sectionKey,
+          kind: check.kind,
+          label: check.label,
+          expected: check.expected,
+          actual: check.actual,
+          passed: check.passed,
+          message: check.message,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching report:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { regenerateSection } from "@/lib/report-generation";
+import type { ApiResponse } from "@/types";
+
+export const maxDuration = 300; // 5 minutes for a single-section Claude call
+
+const MAX_INSTRUCTIONS_LENGTH = 2000;
+
+interface RouteParams {
+  params: Promise<{ id: string; sectionKey: string }>;
+}
+
+// POST /api/admin/reports/[id]/sections/[sectionKey]/regenerate - Regenerate one section as a new revision
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("reports:edit");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id, sectionKey } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { instructions } = body;
+
+    if (instructions !== undefined && typeof instructions !== "string") {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "instructions must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (instructions && instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const section = await prisma.reportSection.findFirst({
+      where: { reportId: id, sectionKey },
+      include: { report: { select: { status: true, published: true, sourceFileUrl: true } } },
+    });
+
+    if (!section) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Section not found" },
+        { status: 404 }
+      );
+    }
+
+    if (section.report.status !== "complete") {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Only complete reports can be regenerated by section" },
+        { status: 400 }
+      );
+    }
+
+    if (section.report.published) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Unpublish the report before editing it" },
+        { status: 400 }
+      );
+    }
+
+    if (!section.report.sourceFileUrl) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Source file is missing from storage" },
+        { status: 400 }
+      );
+    }
+
+    const { version, usage } = await regenerateSection(
+      section.id,
+      result.user.id,
+      instructions?.trim() || undefined
+    );
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        sectionKey,
+        version,
+        tokens: usage,
+      },
+    });
+  } catch (error) {
+    console.error("Error regenerating report section:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to regenerate section" },
+      { status: 500 }
+    );
+  }
+}
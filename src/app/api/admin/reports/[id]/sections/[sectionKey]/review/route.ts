@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { reviewSection } from "@/lib/report-review";
+import type { ApiResponse, SectionReviewDecision } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string; sectionKey: string }>;
+}
+
+const DECISIONS: SectionReviewDecision[] = ["approve", "request_changes"];
+
+// PATCH /api/admin/reports/[id]/sections/[sectionKey]/review - Approve or request changes on a section
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("reports:review");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id, sectionKey } = await params;
+    const body = await request.json();
+    const { decision, note } = body;
+
+    if (!DECISIONS.includes(decision)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `decision must be one of: ${DECISIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && typeof note !== "string") {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "note must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const section = await prisma.reportSection.findFirst({
+      where: { reportId: id, sectionKey },
+      include: { report: { select: { status: true, published: true } } },
+    });
+
+    if (!section) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Section not found" },
+        { status: 404 }
+      );
+    }
+
+    if (section.report.status !== "complete") {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Only complete reports can be reviewed" },
+        { status: 400 }
+      );
+    }
+
+    if (section.report.published) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Unpublish the report before changing its review" },
+        { status: 400 }
+      );
+    }
+
+    const reviewStatus = await reviewSection(id, sectionKey, result.user.id, decision, note?.trim());
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        sectionKey,
+        sectionStatus: decision === "approve" ? "approved" : "changes_requested",
+        reviewStatus,
+      },
+    });
+  } catch (error) {
+    console.error("Error reviewing report section:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to review section" },
+      { status: 500 }
+    );
+  }
+}
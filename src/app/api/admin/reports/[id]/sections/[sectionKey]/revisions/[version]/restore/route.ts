@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { restoreSectionRevision } from "@/lib/section-revisions";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string; sectionKey: string; version: string }>;
+}
+
+// POST /api/admin/reports/[id]/sections/[sectionKey]/revisions/[version]/restore - Restore an earlier revision
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("reports:edit");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id, sectionKey, version } = await params;
+    const versionNumber = Number(version);
+
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Invalid version" },
+        { status: 400 }
+      );
+    }
+
+    const section = await prisma.reportSection.findFirst({
+      where: { reportId: id, sectionKey },
+      include: { report: { select: { published: true } } },
+    });
+
+    if (!section) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Section not found" },
+        { status: 404 }
+      );
+    }
+
+    if (section.report.published) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Unpublish the report before editing it" },
+        { status: 400 }
+      );
+    }
+
+    const restored = await restoreSectionRevision(section.id, versionNumber, result.user.id);
+
+    if (!restored) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Revision not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { sectionKey, version: restored.version, restoredFrom: versionNumber },
+    });
+  } catch (error) {
+    console.error("Error restoring section revision:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to restore revision" },
+      { status: 500 }
+    );
+  }
+}
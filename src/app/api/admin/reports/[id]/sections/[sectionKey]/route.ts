@@ -0,0 +1,195 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import {
+  buildSectionContent,
+  replaceMarkdownTables,
+  reportSectionContentSchema,
+  reportTableSchema,
+} from "@/lib/report-structure";
+import { saveSectionRevision } from "@/lib/section-revisions";
+import type { ApiResponse, ReportSectionContent } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string; sectionKey: string }>;
+}
+
+// GET /api/admin/reports/[id]/sections/[sectionKey] - Get a section with its revision history
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("admin:access");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id, sectionKey } = await params;
+
+    const section = await prisma.reportSection.findFirst({
+      where: { reportId: id, sectionKey },
+      include: {
+        report: {
+          select: { periodLabel: true, periodEnd: true, published: true, company: { select: { name: true } } },
+        },
+        revisions: {
+          orderBy: { version: "desc" },
+          include: { createdBy: { select: { email: true } } },
+        },
+      },
+    });
+
+    if (!section) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Section not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: {
+        id: section.id,
+        reportId: section.reportId,
+        sectionKey: section.sectionKey,
+        sectionName: section.sectionName,
+        content: section.content,
+        reviewStatus: section.reviewStatus,
+        report: {
+          periodLabel: section.report.periodLabel,
+          periodEnd: section.report.periodEnd.toISOString(),
+          published: section.report.published,
+          companyName: section.report.company.name,
+        },
+        revisions: section.revisions.map((revision) => ({
+          version: revision.version,
+          source: revision.source,
+          note: revision.note,
+          content: revision.content,
+          createdBy: revision.createdBy?.email ?? null,
+          createdAt: revision.createdAt.toISOString(),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching report section:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch section" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/admin/reports/[id]/sections/[sectionKey] - Save edited content as a new revision
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("reports:edit");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id, sectionKey } = await params;
+    const body = await request.json();
+    const { raw_markdown, tables, note } = body;
+
+    if (note !== undefined && typeof note !== "string") {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "note must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const section = await prisma.reportSection.findFirst({
+      where: { reportId: id, sectionKey },
+      include: { report: { select: { published: true } } },
+    });
+
+    if (!section) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Section not found" },
+        { status: 404 }
+      );
+    }
+
+    if (section.report.published) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Unpublish the report before editing it" },
+        { status: 400 }
+      );
+    }
+
+    let content: ReportSectionContent;
+    if (typeof raw_markdown === "string" && raw_markdown.trim()) {
+      // Markdown is the source of truth; tables and callouts are re-extracted from it
+      content = buildSectionContent(raw_markdown.trim());
+    } else if (tables !== undefined) {
+      const parsedTables = z.array(reportTableSchema).safeParse(tables);
+      if (!parsedTables.success) {
+        return NextResponse.json<ApiResponse>(
+          { success: false, error: `Invalid tables: ${parsedTables.error.issues[0]?.message}` },
+          { status: 400 }
+        );
+      }
+
+      // Cells are written back into markdown table rows
+      const hasBadCell = parsedTables.data.some((table) =>
+        [...table.headers, ...table.rows.flatMap((row) => row.cells.map((cell) => cell.value))].some((value) =>
+          /[|\n]/.test(value)
+        )
+      );
+      if (hasBadCell) {
+        return NextResponse.json<ApiResponse>(
+          { success: false, error: "Table cells can't contain '|' or line breaks" },
+          { status: 400 }
+        );
+      }
+
+      const current = section.content as ReportSectionContent;
+      if (current.raw_markdown) {
+        // The markdown is what the viewer and PDF render, so the edits go into it
+        const markdown = replaceMarkdownTables(current.raw_markdown, parsedTables.data);
+        if (markdown === null) {
+          return NextResponse.json<ApiResponse>(
+            {
+              success: false,
+              error: "Tables can't be added or removed here; edit the section's markdown instead",
+            },
+            { status: 400 }
+          );
+        }
+        content = buildSectionContent(markdown);
+      } else {
+        content = reportSectionContentSchema.parse({ ...current, tables: parsedTables.data });
+      }
+    } else {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "raw_markdown or tables is required" },
+        { status: 400 }
+      );
+    }
+
+    const { version } = await saveSectionRevision({
+      sectionId: section.id,
+      content,
+      source: "edited",
+      userId: result.user.id,
+      note: note?.trim() || undefined,
+    });
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { sectionKey, version, content },
+    });
+  } catch (error) {
+    console.error("Error updating report section:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to update section" },
+      { status: 500 }
+    );
+  }
+}
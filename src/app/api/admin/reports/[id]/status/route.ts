@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import type { ApiResponse, GenerationStage, ReportGenerationStatus, ReportStatus } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/reports/[id]/status - Current generation stage and progress
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const result = await requirePermission("admin:access");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { id } = await params;
+
+    const report = await prisma.report.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { sections: true },
+        },
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Report not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<ReportGenerationStatus>>(
+      {
+        success: true,
+        data: {
+          reportId: report.id,
+          companyId: report.companyId,
+          status: report.status as ReportStatus,
+          stage: report.stage as GenerationStage | null,
+          progress: report.progress,
+          stageUpdatedAt: report.stageUpdatedAt?.toISOString() ?? null,
+          startedAt: report.startedAt?.toISOString() ?? null,
+          completedAt: report.completedAt?.toISOString() ?? null,
+          attempts: report.attempts,
+          errorMessage: report.errorMessage,
+          sectionsGenerated: report._count.sections,
+        },
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error fetching report status:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch report status" },
+      { status: 500 }
+    );
+  }
+}
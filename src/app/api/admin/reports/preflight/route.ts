@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+import { preflightWorkbook } from "@/lib/excel";
+import { ImportError, importSourceFiles, isSourceFileName } from "@/lib/importers";
+import { getReportDataBudget } from "@/lib/report-generation";
+import { toSheetMappingEntries } from "@/lib/sheet-roles";
+import type { ApiResponse, UploadPreflight } from "@/types";
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+// POST /api/admin/reports/preflight - Check the files for a report (combined
+// into one workbook) against the company's sheet mapping before uploading
+export async function POST(request: Request) {
+  try {
+    const result = await requirePermission("reports:generate");
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const formData = await request.formData();
+    const companyId = formData.get("companyId") as string;
+    const periodEnd = formData.get("periodEnd") as string | null;
+    const files = formData.getAll("files") as File[];
+
+    if (!companyId) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (files.length === 0) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "A workbook or export file is required" },
+        { status: 400 }
+      );
+    }
+
+    const invalid = files.find((f) => !isSourceFileName(f.name));
+    if (invalid) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: `${invalid.name} must be an Excel or CSV file (.xlsx, .xls or .csv)` },
+        { status: 400 }
+      );
+    }
+
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+      include: { sheetMappings: true, metricConfig: true },
+    });
+
+    if (!company) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    // Same data budget generation starts from (the prompt around the data
+    // depends on the company's config and last month's report)
+    const periodEndDate = periodEnd ? new Date(periodEnd) : new Date();
+    const maxTokens = await getReportDataBudget(
+      company,
+      isNaN(periodEndDate.getTime()) ? new Date() : periodEndDate
+    );
+
+    let preflight: UploadPreflight;
+    try {
+      const imported = importSourceFiles(
+        await Promise.all(files.map(async (f) => ({ name: f.name, buffer: Buffer.from(await f.arrayBuffer()) })))
+      );
+      const workbook = await preflightWorkbook(imported.buffer, {
+        maxTokens,
+        mappings: toSheetMappingEntries(company.sheetMappings),
+        periodEnd: periodEnd || undefined,
+      });
+      preflight = { ...workbook, files: imported.files, warnings: [...imported.warnings, ...workbook.warnings] };
+    } catch (importError) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: importError instanceof ImportError ? importError.message : "Could not read the workbook",
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<UploadPreflight>>({
+      success: true,
+      data: preflight,
+    });
+  } catch (error) {
+    console.error("Error checking workbook:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to check workbook" },
+      { status: 500 }
+    );
+  }
+}
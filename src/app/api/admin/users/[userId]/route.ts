@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission, syncRoleClaim } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { isFirmRole } from "@/lib/permissions";
+
+interface RouteContext {
+  params: Promise<{ userId: string }>;
+}
+
+// PATCH /api/admin/users/[userId]
+// Set a user's firm-wide role ({ firmRole }, null to remove). Firm roles don't
+// need a company membership: they apply to every company.
+export async function PATCH(request: Request, context: RouteContext) {
+  const { userId: targetUserId } = await context.params;
+
+  const result = await requirePermission("users:manage");
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  const body = await request.json();
+  const { firmRole } = body;
+
+  if (firmRole !== null && !isFirmRole(firmRole)) {
+    return NextResponse.json(
+      { error: "Invalid firm role. Must be 'admin', 'analyst', 'reviewer' or null" },
+      { status: 400 }
+    );
+  }
+
+  // Admins cannot change their own role (avoids locking everyone out)
+  if (targetUserId === result.user.id) {
+    return NextResponse.json({ error: "Cannot change your own role" }, { status: 400 });
+  }
+
+  const targetUser = await prisma.user.findUnique({
+    where: { id: targetUserId },
+  });
+
+  if (!targetUser) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  const updatedUser = await prisma.user.update({
+    where: { id: targetUserId },
+    data: { role: firmRole ?? "client_viewer" },
+  });
+  await syncRoleClaim(updatedUser.clerkUserId, updatedUser.role);
+
+  // No role means the user lost firm access
+  await logAdminAction(
+    {
+      action: "firm_role_changed",
+      userId: result.user.id,
+      details: {
+        email: updatedUser.email,
+        role: firmRole,
+        previousRole: isFirmRole(targetUser.role) ? targetUser.role : null,
+      },
+    },
+    request
+  );
+
+  return NextResponse.json({
+    id: updatedUser.id,
+    email: updatedUser.email,
+    role: updatedUser.role,
+  });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
+
+// GET /api/admin/users
+// Returns every user with the companies they belong to
+export async function GET() {
+  const result = await requirePermission("users:manage");
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  const users = await prisma.user.findMany({
+    select: {
+      id: true,
+      email: true,
+      role: true,
+      createdAt: true,
+      lastLoginAt: true,
+      memberships: {
+        select: {
+          role: true,
+          company: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: {
+      email: "asc",
+    },
+  });
+
+  return NextResponse.json(
+    users.map(({ memberships, ...user }) => ({
+      ...user,
+      companies: memberships.map((m) => ({ ...m.company, role: m.role })),
+    }))
+  );
+}
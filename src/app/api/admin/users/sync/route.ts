@@ -1,23 +1,15 @@
-import { auth, clerkClient } from "@clerk/nextjs/server";
+import { clerkClient } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { requirePermission, syncRoleClaim } from "@/lib/auth";
+import { linkNewUser } from "@/lib/invitations";
 
 // POST /api/admin/users/sync
 // Manually sync all Clerk users to database (for when webhook didn't fire)
 export async function POST() {
-  const { userId } = await auth();
-
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  // Check if user is admin
-  const currentUser = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
-  if (!currentUser || currentUser.role !== "admin") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const result = await requirePermission("users:manage");
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
   try {
@@ -30,7 +22,8 @@ export async function POST() {
     const errors: string[] = [];
 
     for (const clerkUser of clerkUsers.data) {
-      const email = clerkUser.emailAddresses[0]?.emailAddress;
+      const emailAddress = clerkUser.emailAddresses[0];
+      const email = emailAddress?.emailAddress;
 
       if (!email) {
         errors.push(`Skipped user ${clerkUser.id}: no email`);
@@ -44,30 +37,26 @@ export async function POST() {
         });
 
         if (existingUser) {
+          // Backfill the role claim for users created before it existed
+          if (clerkUser.publicMetadata?.role !== existingUser.role) {
+            await syncRoleClaim(clerkUser.id, existingUser.role);
+          }
           skipped++;
           continue;
         }
 
-        // Try to find a matching company by email domain
-        const emailDomain = email.split("@")[1];
-        const company = await prisma.company.findFirst({
-          where: {
-            name: {
-              contains: emailDomain.split(".")[0],
-              mode: "insensitive",
-            },
-          },
-        });
-
-        // Create user
-        await prisma.user.create({
+        // Create user, then link through invitations or a verified domain
+        const user = await prisma.user.create({
           data: {
             clerkUserId: clerkUser.id,
             email: email,
-            role: "viewer",
-            ...(company?.id ? { companyId: company.id } : {}),
+            role: "client_viewer",
           },
         });
+        await syncRoleClaim(clerkUser.id, "client_viewer");
+        await linkNewUser(user.id, email, {
+          emailVerified: emailAddress.verification?.status === "verified",
+        });
         created++;
       } catch (err) {
         errors.push(`Error creating user ${email}: ${err}`);
@@ -1,29 +1,19 @@
-import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import prisma from "@/lib/db";
+import { requirePermission } from "@/lib/auth";
 
 // GET /api/admin/users/unlinked
 // Returns users who have signed up but aren't linked to any company
 export async function GET() {
-  const { userId } = await auth();
-
-  if (!userId) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  // Check if user is admin
-  const currentUser = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
-  if (!currentUser || currentUser.role !== "admin") {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  const result = await requirePermission("users:manage");
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
   }
 
-  // Get unlinked users (companyId is null)
+  // Get unlinked users (no company memberships)
   const unlinkedUsers = await prisma.user.findMany({
     where: {
-      companyId: { equals: null },
+      memberships: { none: {} },
     },
     select: {
       id: true,
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { ACTIVE_COMPANY_COOKIE, requireCompanyMember } from "@/lib/auth";
+import type { ApiResponse } from "@/types";
+
+// PUT /api/companies/active - Switch the company shown on the dashboard
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+    const { companyId } = body;
+
+    if (!companyId || typeof companyId !== "string") {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "companyId is required" },
+        { status: 400 }
+      );
+    }
+
+    const access = await requireCompanyMember(companyId);
+    if ("error" in access) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const response = NextResponse.json<ApiResponse>({
+      success: true,
+      data: { companyId },
+    });
+    response.cookies.set(ACTIVE_COMPANY_COOKIE, companyId, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    return response;
+  } catch (error) {
+    console.error("Error switching company:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to switch company" },
+      { status: 500 }
+    );
+  }
+}
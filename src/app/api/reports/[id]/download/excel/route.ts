@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
 import prisma from "@/lib/db";
+import { companyAccessFilter, requireUser } from "@/lib/auth";
+import { logAccess } from "@/lib/audit";
 import { getSignedUrl } from "@/lib/storage";
 import type { ApiResponse } from "@/types";
 
@@ -11,41 +12,22 @@ interface RouteParams {
 // GET /api/reports/[id]/download/excel - Get signed URL for Excel download
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const { userId } = await auth();
     const { id } = await params;
 
-    if (!userId) {
+    const result = await requireUser();
+    if ("error" in result) {
       return NextResponse.json<ApiResponse>(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
-
-    // Find user
-    const user = await prisma.user.findUnique({
-      where: { clerkUserId: userId },
-    });
-
-    if (!user) {
-      return NextResponse.json<ApiResponse>(
-        { success: false, error: "User not found" },
-        { status: 404 }
-      );
-    }
-
-    // User must be linked to a company
-    if (!user.companyId) {
-      return NextResponse.json<ApiResponse>(
-        { success: false, error: "User not linked to a company" },
-        { status: 403 }
+        { success: false, error: result.error },
+        { status: result.status }
       );
     }
+    const { user } = result;
 
     // Get report
     const report = await prisma.report.findFirst({
       where: {
         id,
-        companyId: user.companyId,
+        ...companyAccessFilter(user),
         published: true,
       },
     });
@@ -68,15 +50,10 @@ export async function GET(request: Request, { params }: RouteParams) {
     const signedUrl = await getSignedUrl(report.sourceFileUrl, 3600);
 
     // Log download
-    await prisma.accessLog.create({
-      data: {
-        userId: user.id,
-        reportId: report.id,
-        action: "downloaded_excel",
-        ipAddress: request.headers.get("x-forwarded-for") || undefined,
-        userAgent: request.headers.get("user-agent") || undefined,
-      },
-    });
+    await logAccess(
+      { action: "downloaded_excel", userId: user.id, companyId: report.companyId, reportId: report.id },
+      request
+    );
 
     return NextResponse.json<ApiResponse<{ url: string }>>({
       success: true,
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { companyAccessFilter, requireUser } from "@/lib/auth";
+import { logAccess } from "@/lib/audit";
+import { getSignedUrl } from "@/lib/storage";
+import { generateReportPdf } from "@/lib/report-pdf";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Rendering a long report on demand can take a while
+export const maxDuration = 60;
+
+// GET /api/reports/[id]/download/pdf - Redirect to a signed URL for the report PDF
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const result = await requireUser();
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+    const { user } = result;
+
+    // Get report
+    const report = await prisma.report.findFirst({
+      where: {
+        id,
+        ...companyAccessFilter(user),
+        published: true,
+        status: "complete",
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Report not found" },
+        { status: 404 }
+      );
+    }
+
+    // Render on demand if the PDF hasn't been built yet (or was invalidated)
+    const pdfPath = report.pdfFileUrl ?? (await generateReportPdf(report.id));
+
+    // Generate signed URL (expires in 1 hour)
+    const signedUrl = await getSignedUrl(pdfPath, 3600);
+
+    // Log download
+    await logAccess(
+      { action: "downloaded_pdf", userId: user.id, companyId: report.companyId, reportId: report.id },
+      request
+    );
+
+    return NextResponse.redirect(signedUrl);
+  } catch (error) {
+    console.error("Error generating PDF download:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to generate PDF download" },
+      { status: 500 }
+    );
+  }
+}
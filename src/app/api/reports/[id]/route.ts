@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
 import prisma from "@/lib/db";
+import { companyAccessFilter, requireUser } from "@/lib/auth";
+import { logAccess } from "@/lib/audit";
 import type { ApiResponse, ReportDetail, ReportSectionContent } from "@/types";
 
 interface RouteParams {
@@ -10,41 +11,22 @@ interface RouteParams {
 // GET /api/reports/[id] - Get single report with sections
 export async function GET(request: Request, { params }: RouteParams) {
   try {
-    const { userId } = await auth();
     const { id } = await params;
 
-    if (!userId) {
+    const result = await requireUser();
+    if ("error" in result) {
       return NextResponse.json<ApiResponse>(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
-
-    // Find user and their company
-    const user = await prisma.user.findUnique({
-      where: { clerkUserId: userId },
-    });
-
-    if (!user) {
-      return NextResponse.json<ApiResponse>(
-        { success: false, error: "User not found" },
-        { status: 404 }
-      );
-    }
-
-    // User must be linked to a company
-    if (!user.companyId) {
-      return NextResponse.json<ApiResponse>(
-        { success: false, error: "User not linked to a company" },
-        { status: 403 }
+        { success: false, error: result.error },
+        { status: result.status }
       );
     }
+    const { user } = result;
 
     // Get report with sections
     const report = await prisma.report.findFirst({
       where: {
         id,
-        companyId: user.companyId,
+        ...companyAccessFilter(user),
         published: true,
       },
       include: {
@@ -62,15 +44,10 @@ export async function GET(request: Request, { params }: RouteParams) {
     }
 
     // Log access
-    await prisma.accessLog.create({
-      data: {
-        userId: user.id,
-        reportId: report.id,
-        action: "viewed",
-        ipAddress: request.headers.get("x-forwarded-for") || undefined,
-        userAgent: request.headers.get("user-agent") || undefined,
-      },
-    });
+    await logAccess(
+      { action: "viewed", userId: user.id, companyId: report.companyId, reportId: report.id },
+      request
+    );
 
     const reportDetail: ReportDetail = {
       id: report.id,
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { companyAccessFilter, requireUser } from "@/lib/auth";
+import { logAccess } from "@/lib/audit";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ id: string; sectionKey: string }>;
+}
+
+// POST /api/reports/[id]/sections/[sectionKey]/viewed - Record that a section was opened in the viewer
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id, sectionKey } = await params;
+
+    const result = await requireUser();
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+    const { user } = result;
+
+    const section = await prisma.reportSection.findFirst({
+      where: {
+        sectionKey,
+        report: { id, ...companyAccessFilter(user), published: true },
+      },
+      include: { report: { select: { companyId: true } } },
+    });
+
+    if (!section) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Section not found" },
+        { status: 404 }
+      );
+    }
+
+    await logAccess(
+      {
+        action: "section_viewed",
+        userId: user.id,
+        companyId: section.report.companyId,
+        reportId: id,
+        details: { sectionKey, sectionName: section.sectionName },
+      },
+      request
+    );
+
+    return NextResponse.json<ApiResponse>({ success: true });
+  } catch (error) {
+    console.error("Error recording section view:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to record section view" },
+      { status: 500 }
+    );
+  }
+}
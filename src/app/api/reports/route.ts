@@ -1,45 +1,26 @@
 import { NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
 import prisma from "@/lib/db";
+import { requireCompanyMember } from "@/lib/auth";
 import type { ApiResponse, ReportListItem } from "@/types";
 
-// GET /api/reports - List published reports for user's company
-export async function GET() {
+// GET /api/reports - List published reports for the active company (or ?companyId=)
+export async function GET(request: Request) {
   try {
-    const { userId } = await auth();
+    const { searchParams } = new URL(request.url);
+    const requestedCompanyId = searchParams.get("companyId") || undefined;
 
-    if (!userId) {
+    const access = await requireCompanyMember(requestedCompanyId);
+    if ("error" in access) {
       return NextResponse.json<ApiResponse>(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
+        { success: false, error: access.error },
+        { status: access.status }
       );
     }
 
-    // Find user and their company
-    const user = await prisma.user.findUnique({
-      where: { clerkUserId: userId },
-      include: { company: true },
-    });
-
-    if (!user) {
-      return NextResponse.json<ApiResponse>(
-        { success: false, error: "User not found in database" },
-        { status: 404 }
-      );
-    }
-
-    // User must be linked to a company
-    if (!user.companyId) {
-      return NextResponse.json<ApiResponse<ReportListItem[]>>({
-        success: true,
-        data: [], // Return empty list if user has no company
-      });
-    }
-
-    // Get published reports for user's company
+    // Get published reports for the company
     const reports = await prisma.report.findMany({
       where: {
-        companyId: user.companyId,
+        companyId: access.companyId,
         published: true,
         status: "complete",
       },
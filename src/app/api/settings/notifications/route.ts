@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requireUser } from "@/lib/auth";
+import type { ApiResponse, NotificationPreferences } from "@/types";
+
+// GET /api/settings/notifications - The signed-in user's email preferences
+export async function GET() {
+  try {
+    const result = await requireUser();
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<NotificationPreferences>>({
+      success: true,
+      data: {
+        notifyOnPublish: result.user.notifyOnPublish,
+        notifyOnScheduledRun: result.user.notifyOnScheduledRun,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to fetch notification preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/settings/notifications - Update the signed-in user's email preferences
+export async function PUT(request: Request) {
+  try {
+    const result = await requireUser();
+    if ("error" in result) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const body = await request.json();
+    const { notifyOnPublish, notifyOnScheduledRun } = body;
+
+    // Either preference can be updated on its own
+    if (
+      (notifyOnPublish !== undefined && typeof notifyOnPublish !== "boolean") ||
+      (notifyOnScheduledRun !== undefined && typeof notifyOnScheduledRun !== "boolean")
+    ) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Notification preferences must be booleans" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { id: result.user.id },
+      data: { notifyOnPublish, notifyOnScheduledRun },
+    });
+
+    return NextResponse.json<ApiResponse<NotificationPreferences>>({
+      success: true,
+      data: {
+        notifyOnPublish: user.notifyOnPublish,
+        notifyOnScheduledRun: user.notifyOnScheduledRun,
+      },
+    });
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to update notification preferences" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/db";
+import { requireCompanyPermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { isInvitationPending, revokeInvitation } from "@/lib/invitations";
+import type { ApiResponse } from "@/types";
+
+interface RouteParams {
+  params: Promise<{ invitationId: string }>;
+}
+
+// DELETE /api/team/invitations/[invitationId] - Revoke a pending invitation (client owners)
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const access = await requireCompanyPermission("team:invite");
+    if ("error" in access) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const { invitationId } = await params;
+
+    const invitation = await prisma.invitation.findFirst({
+      where: { id: invitationId, companyId: access.companyId },
+    });
+
+    if (!invitation || !isInvitationPending(invitation)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "Invitation not found" },
+        { status: 404 }
+      );
+    }
+
+    await revokeInvitation(invitation);
+
+    await logAdminAction(
+      {
+        action: "invitation_revoked",
+        userId: access.user.id,
+        companyId: invitation.companyId,
+        details: { email: invitation.email, role: invitation.role },
+      },
+      request
+    );
+
+    return NextResponse.json<ApiResponse>({ success: true });
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to revoke invitation" },
+      { status: 500 }
+    );
+  }
+}
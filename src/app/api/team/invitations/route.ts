@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { requireCompanyPermission } from "@/lib/auth";
+import { logAdminAction } from "@/lib/audit";
+import { createInvitation, InvitationError } from "@/lib/invitations";
+import { isClientRole } from "@/lib/permissions";
+import type { ApiResponse } from "@/types";
+
+// POST /api/team/invitations - Invite a colleague to the active company (client owners)
+export async function POST(request: Request) {
+  try {
+    const access = await requireCompanyPermission("team:invite");
+    if ("error" in access) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: access.error },
+        { status: access.status }
+      );
+    }
+
+    const body = await request.json();
+    const { email, role = "client_viewer" } = body;
+
+    if (typeof email !== "string" || !email.trim()) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "email is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isClientRole(role)) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: "role must be client_owner or client_viewer" },
+        { status: 400 }
+      );
+    }
+
+    const { invitation, linkedExistingUser } = await createInvitation({
+      companyId: access.companyId,
+      email,
+      role,
+      invitedById: access.user.id,
+    });
+
+    // Existing users are linked straight away, which is logged as user_linked
+    if (!linkedExistingUser) {
+      await logAdminAction(
+        {
+          action: "invitation_sent",
+          userId: access.user.id,
+          companyId: access.companyId,
+          details: { email: invitation.email, role: invitation.role },
+        },
+        request
+      );
+    }
+
+    return NextResponse.json<ApiResponse>({
+      success: true,
+      data: { id: invitation.id, email: invitation.email, linkedExistingUser },
+    });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error creating invitation:", error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: "Failed to send invitation" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,15 @@ import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 import { Webhook } from "svix";
 import prisma from "@/lib/db";
+import { syncRoleClaim } from "@/lib/auth";
+import { linkNewUser } from "@/lib/invitations";
 
 interface ClerkUserEventData {
   id: string;
   email_addresses: Array<{
     email_address: string;
     id: string;
+    verification: { status: string } | null;
   }>;
   primary_email_address_id: string;
 }
@@ -32,12 +35,15 @@ export async function POST(request: Request) {
   const svix_timestamp = headerPayload.get("svix-timestamp");
   const svix_signature = headerPayload.get("svix-signature");
 
-  // Get the body
-  const payload = await request.json();
-  const body = JSON.stringify(payload);
+  // Get the body (the signature covers the raw text)
+  const body = await request.text();
+
+  // Verify webhook if secret is set; unsigned requests are rejected
+  if (WEBHOOK_SECRET) {
+    if (!svix_id || !svix_timestamp || !svix_signature) {
+      return NextResponse.json({ error: "Missing svix headers" }, { status: 400 });
+    }
 
-  // Verify webhook if secret is set
-  if (WEBHOOK_SECRET && svix_id && svix_timestamp && svix_signature) {
     const wh = new Webhook(WEBHOOK_SECRET);
 
     try {
@@ -52,7 +58,7 @@ export async function POST(request: Request) {
     }
   }
 
-  const evt = payload as ClerkWebhookEvent;
+  const evt = JSON.parse(body) as ClerkWebhookEvent;
   const eventType = evt.type;
 
   console.log(`Clerk webhook received: ${eventType}`);
@@ -80,29 +86,22 @@ export async function POST(request: Request) {
           return NextResponse.json({ received: true });
         }
 
-        // Try to find a matching company by email domain (for automatic linking)
-        const emailDomain = primaryEmail.email_address.split("@")[1];
-        const company = await prisma.company.findFirst({
-          where: {
-            name: {
-              contains: emailDomain.split(".")[0],
-              mode: "insensitive",
-            },
-          },
-        });
-
-        // Create the user - linked to company if found, otherwise unlinked
+        // Create the user, then link them through invitations or a verified domain
         // Unlinked users will appear in admin panel for manual assignment
-        await prisma.user.create({
+        const user = await prisma.user.create({
           data: {
             clerkUserId,
             email: primaryEmail.email_address,
-            role: "viewer", // Default to viewer, admin can upgrade
-            companyId: company?.id || null, // null if no matching company
+            role: "client_viewer", // Default to viewer, admin can upgrade
           },
         });
+        await syncRoleClaim(clerkUserId, "client_viewer");
+
+        const companies = await linkNewUser(user.id, user.email, {
+          emailVerified: primaryEmail.verification?.status === "verified",
+        });
 
-        console.log(`Created user: ${primaryEmail.email_address}${company ? ` (linked to ${company.name})` : ' (unlinked)'}`);
+        console.log(`Created user: ${user.email}${companies.length > 0 ? ` (linked to ${companies.join(", ")})` : " (unlinked)"}`);
         break;
       }
 
@@ -7,6 +7,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { NoReportsEmptyState, PendingSetupEmptyState } from "@/components/empty-state";
 import prisma from "@/lib/db";
+import { getActiveCompanyId, getCurrentUser } from "@/lib/auth";
+import { getCompanyRole, hasPermission } from "@/lib/permissions";
 import { formatDate, formatPeriodLabel } from "@/lib/utils";
 
 // Check if report is recent (within 7 days)
@@ -23,15 +25,10 @@ export default async function DashboardPage() {
     redirect("/sign-in");
   }
 
-  // Get user and their company
+  // Get user and their companies
   let user;
   try {
-    user = await prisma.user.findUnique({
-      where: { clerkUserId: userId },
-      include: {
-        company: true,
-      },
-    });
+    user = await getCurrentUser();
   } catch (error) {
     console.error("Database error:", error);
     return (
@@ -63,7 +60,9 @@ export default async function DashboardPage() {
   }
 
   // If user has no company assigned yet, show pending message
-  if (!user.companyId || !user.company) {
+  const activeCompanyId = await getActiveCompanyId(user);
+  const activeMembership = user.memberships.find((m) => m.companyId === activeCompanyId);
+  if (!activeMembership) {
     return (
       <DashboardLayout>
         <div className="flex flex-col items-center justify-center min-h-[60vh]">
@@ -73,10 +72,12 @@ export default async function DashboardPage() {
     );
   }
 
-  // Get published reports for user's company
+  const activeCompany = activeMembership.company;
+
+  // Get published reports for the active company
   const reports = await prisma.report.findMany({
     where: {
-      companyId: user.companyId,
+      companyId: activeCompany.id,
       published: true,
     },
     orderBy: {
@@ -86,15 +87,21 @@ export default async function DashboardPage() {
   });
 
   // Check if user is admin (for showing admin nav)
-  const isAdmin = user.role === "admin";
+  const isAdmin = hasPermission(user.role, "admin:access");
+  const canManageTeam = hasPermission(getCompanyRole(user.role, activeMembership.role), "team:invite");
 
   return (
-    <DashboardLayout isAdmin={isAdmin}>
+    <DashboardLayout
+      isAdmin={isAdmin}
+      canManageTeam={canManageTeam}
+      companies={user.memberships.map((m) => m.company)}
+      activeCompanyId={activeCompany.id}
+    >
       <div className="space-y-6 page-transition">
         {/* Header */}
         <div>
           <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
-            Welcome back, {user.company.name}
+            Welcome back, {activeCompany.name}
           </h1>
           <p className="text-muted-foreground text-sm sm:text-base">
             Access your monthly financial reviews below.
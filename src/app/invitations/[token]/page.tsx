@@ -0,0 +1,58 @@
+import { redirect } from "next/navigation";
+import { MailX, Clock } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard-layout";
+import { EmptyState } from "@/components/empty-state";
+import { getCurrentUser } from "@/lib/auth";
+import { acceptInvitationByToken, InvitationError } from "@/lib/invitations";
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+// Landing page for invitation links (Clerk sends new users here after sign-up)
+export default async function InvitationPage({ params }: PageProps) {
+  const { token } = await params;
+
+  // The Clerk webhook creates the user record; it can lag a moment behind sign-up
+  const user = await getCurrentUser();
+  if (!user) {
+    return (
+      <DashboardLayout>
+        <div className="flex flex-col items-center justify-center min-h-[60vh]">
+          <EmptyState
+            icon={Clock}
+            title="Setting up your account"
+            description="This only takes a few seconds. Refresh the page to continue."
+            action={{ label: "Refresh", href: `/invitations/${token}` }}
+          />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  // redirect() throws, so it has to run outside the try/catch
+  const failure = await acceptInvitationByToken(token, user).then(
+    () => null,
+    (error) => {
+      if (error instanceof InvitationError) return error;
+      throw error;
+    }
+  );
+
+  if (!failure) {
+    redirect("/dashboard");
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <EmptyState
+          icon={MailX}
+          title="Invitation unavailable"
+          description={failure.message}
+          action={{ label: "Go to Dashboard", href: "/dashboard" }}
+        />
+      </div>
+    </DashboardLayout>
+  );
+}
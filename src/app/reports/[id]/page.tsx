@@ -1,4 +1,3 @@
-import { auth } from "@clerk/nextjs/server";
 import { redirect, notFound } from "next/navigation";
 import Link from "next/link";
 import { ArrowLeft, Download, FileSpreadsheet, Calendar } from "lucide-react";
@@ -6,40 +5,31 @@ import { DashboardLayout } from "@/components/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import prisma from "@/lib/db";
+import { companyAccessFilter, getCurrentUser } from "@/lib/auth";
+import { logAccess } from "@/lib/audit";
+import { getCompanyRole, hasPermission } from "@/lib/permissions";
 import { formatDate, formatPeriodLabel } from "@/lib/utils";
 import { ReportViewer } from "@/components/report-viewer";
+import type { ReportSectionContent } from "@/types";
 
 interface PageProps {
   params: Promise<{ id: string }>;
 }
 
 export default async function ReportPage({ params }: PageProps) {
-  const { userId } = await auth();
   const { id } = await params;
 
-  if (!userId) {
-    redirect("/sign-in");
-  }
-
-  // Get user and company
-  const user = await prisma.user.findUnique({
-    where: { clerkUserId: userId },
-  });
-
+  // Signed-out visitors never get here (middleware), so a missing user is one not synced yet
+  const user = await getCurrentUser();
   if (!user) {
     redirect("/dashboard");
   }
 
-  // User must be linked to a company to view reports
-  if (!user.companyId) {
-    redirect("/dashboard");
-  }
-
-  // Get report with sections (user can only see their company's reports)
+  // Get report with sections (users can only see their companies' reports)
   const report = await prisma.report.findFirst({
     where: {
       id,
-      companyId: user.companyId,
+      ...companyAccessFilter(user),
       published: true,
     },
     include: {
@@ -55,18 +45,21 @@ export default async function ReportPage({ params }: PageProps) {
   }
 
   // Log access
-  await prisma.accessLog.create({
-    data: {
-      userId: user.id,
-      reportId: report.id,
-      action: "viewed",
-    },
-  });
+  await logAccess({ action: "viewed", userId: user.id, companyId: report.companyId, reportId: report.id });
 
-  const isAdmin = user.role === "admin";
+  const isAdmin = hasPermission(user.role, "admin:access");
+  const membership = user.memberships.find((m) => m.companyId === report.companyId);
+  const canManageTeam =
+    !!membership && hasPermission(getCompanyRole(user.role, membership.role), "team:invite");
 
   return (
-    <DashboardLayout isAdmin={isAdmin} fullWidth>
+    <DashboardLayout
+      isAdmin={isAdmin}
+      canManageTeam={canManageTeam}
+      fullWidth
+      companies={user.memberships.map((m) => m.company)}
+      activeCompanyId={report.companyId}
+    >
       <div className="space-y-6">
         {/* Header */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -100,7 +93,7 @@ export default async function ReportPage({ params }: PageProps) {
                 </a>
               </Button>
             )}
-            {report.pdfFileUrl && (
+            {report.status === "complete" && (
               <Button asChild>
                 <a href={`/api/reports/${report.id}/download/pdf`} target="_blank" rel="noopener noreferrer">
                   <Download className="w-4 h-4 mr-2" />
@@ -125,12 +118,13 @@ export default async function ReportPage({ params }: PageProps) {
           </Card>
         ) : (
           <ReportViewer
+            reportId={report.id}
             sections={report.sections.map((s) => ({
               id: s.id,
               sectionKey: s.sectionKey,
               sectionName: s.sectionName,
               sortOrder: s.sortOrder,
-              content: s.content as { raw_markdown?: string; tables?: unknown[]; insights?: string[]; questions?: string[] },
+              content: s.content as ReportSectionContent,
             }))}
           />
         )}
@@ -0,0 +1,39 @@
+import { redirect } from "next/navigation";
+import { DashboardLayout } from "@/components/dashboard-layout";
+import { NotificationSettings } from "@/components/notification-settings";
+import { getActiveCompanyId, getCurrentUser } from "@/lib/auth";
+import { getCompanyRole, hasPermission } from "@/lib/permissions";
+
+export default async function SettingsPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/dashboard");
+  }
+
+  const activeCompanyId = await getActiveCompanyId(user);
+  const membership = user.memberships.find((m) => m.companyId === activeCompanyId);
+
+  return (
+    <DashboardLayout
+      isAdmin={hasPermission(user.role, "admin:access")}
+      canManageTeam={!!membership && hasPermission(getCompanyRole(user.role, membership.role), "team:invite")}
+      companies={user.memberships.map((m) => m.company)}
+      activeCompanyId={activeCompanyId ?? undefined}
+    >
+      <div className="space-y-6 page-transition">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Settings</h1>
+          <p className="text-muted-foreground text-sm sm:text-base">{user.email}</p>
+        </div>
+
+        <NotificationSettings
+          initialPreferences={{
+            notifyOnPublish: user.notifyOnPublish,
+            notifyOnScheduledRun: user.notifyOnScheduledRun,
+          }}
+          showScheduledRuns={hasPermission(user.role, "reports:generate")}
+        />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,89 @@
+import { redirect } from "next/navigation";
+import { Users } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TeamInvitations } from "@/components/team-invitations";
+import prisma from "@/lib/db";
+import { getActiveCompanyId, getCurrentUser } from "@/lib/auth";
+import { listPendingInvitations } from "@/lib/invitations";
+import { getCompanyRole, getRoleLabel, hasPermission } from "@/lib/permissions";
+import { formatDate } from "@/lib/utils";
+
+// Team page for client owners: see who has access and invite colleagues
+export default async function TeamPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/dashboard");
+  }
+
+  const activeCompanyId = await getActiveCompanyId(user);
+  const membership = user.memberships.find((m) => m.companyId === activeCompanyId);
+  if (!membership || !hasPermission(getCompanyRole(user.role, membership.role), "team:invite")) {
+    redirect("/dashboard");
+  }
+
+  const [members, invitations] = await Promise.all([
+    prisma.companyMembership.findMany({
+      where: { companyId: membership.companyId },
+      include: { user: { select: { id: true, email: true, lastLoginAt: true } } },
+      orderBy: { user: { email: "asc" } },
+    }),
+    listPendingInvitations(membership.companyId),
+  ]);
+
+  return (
+    <DashboardLayout
+      isAdmin={hasPermission(user.role, "admin:access")}
+      canManageTeam
+      companies={user.memberships.map((m) => m.company)}
+      activeCompanyId={membership.companyId}
+    >
+      <div className="space-y-6 page-transition">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight flex items-center gap-3">
+            <Users className="w-7 h-7 text-primary" />
+            Team - {membership.company.name}
+          </h1>
+          <p className="text-muted-foreground text-sm sm:text-base">
+            Invite colleagues to view your monthly financial reviews.
+          </p>
+        </div>
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Members</CardTitle>
+            <CardDescription>{members.length} user(s) have access.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-3 font-medium">Email</th>
+                    <th className="text-left py-3 px-3 font-medium">Role</th>
+                    <th className="text-left py-3 px-3 font-medium">Last Login</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {members.map((m) => (
+                    <tr key={m.id} className="border-b">
+                      <td className="py-3 px-3">{m.user.email}</td>
+                      <td className="py-3 px-3 text-muted-foreground">{getRoleLabel(m.role)}</td>
+                      <td className="py-3 px-3 text-muted-foreground">
+                        {m.user.lastLoginAt ? formatDate(m.user.lastLoginAt) : "Never"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <TeamInvitations endpoint="/api/team/invitations" invitations={invitations} />
+      </div>
+    </DashboardLayout>
+  );
+}
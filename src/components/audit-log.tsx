@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Download, ChevronLeft, ChevronRight, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AUDIT_ACTIONS, getAuditActionLabel } from "@/lib/audit-actions";
+import { getRoleLabel } from "@/lib/permissions";
+import type { AuditLogEntry, AuditLogPage } from "@/types";
+
+const ALL = "all";
+const PAGE_SIZE = 50;
+
+interface AuditLogProps {
+  companies: Array<{ id: string; name: string }>;
+  users: Array<{ id: string; email: string }>;
+  report: { id: string; label: string } | null; // Set when opened from a report
+  initialCompanyId?: string;
+  initialUserId?: string;
+}
+
+// Short summary of an entry's details for the table
+function describeDetails(entry: AuditLogEntry): string {
+  const details = entry.details ?? {};
+  const parts: string[] = [];
+  if (typeof details.sectionName === "string") parts.push(details.sectionName);
+  if (typeof details.email === "string") parts.push(details.email);
+  if (typeof details.domain === "string") parts.push(details.domain);
+  if (typeof details.role === "string") parts.push(getRoleLabel(details.role));
+  if (typeof details.previousRole === "string") parts.push(`was ${getRoleLabel(details.previousRole)}`);
+  if (typeof details.preset === "string") parts.push(`preset: ${details.preset}`);
+  if (typeof details.companyName === "string" && !entry.company) parts.push(details.companyName);
+  if (details.via === "invitation") parts.push("via invitation");
+  if (details.via === "verified_domain") parts.push("via verified domain");
+  return parts.join(" · ");
+}
+
+export function AuditLog({ companies, users, report, initialCompanyId, initialUserId }: AuditLogProps) {
+  const router = useRouter();
+  const [companyId, setCompanyId] = useState(initialCompanyId ?? ALL);
+  const [userId, setUserId] = useState(initialUserId ?? ALL);
+  const [action, setAction] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<AuditLogPage | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Query string for the current filters (shared by the table and CSV export)
+  const params = new URLSearchParams();
+  if (companyId !== ALL) params.set("companyId", companyId);
+  if (userId !== ALL) params.set("userId", userId);
+  if (action !== ALL) params.set("action", action);
+  if (report) params.set("reportId", report.id);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+  const query = params.toString();
+
+  useEffect(() => {
+    async function fetchEntries() {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/admin/audit?${query}&page=${page}&pageSize=${PAGE_SIZE}`);
+        const result = await res.json();
+
+        if (!result.success) {
+          throw new Error(result.error || "Failed to load audit log");
+        }
+
+        setData(result.data);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to load audit log");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchEntries();
+  }, [query, page]);
+
+  // Any filter change goes back to the first page
+  function updateFilter(setter: (value: string) => void) {
+    return (value: string) => {
+      setter(value);
+      setPage(1);
+    };
+  }
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle>Events</CardTitle>
+            <CardDescription>
+              {data ? `${data.total} matching event(s)` : "Loading..."}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/admin/audit?${query}${query ? "&" : ""}format=csv`}>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+          <div className="space-y-1">
+            <Label>Company</Label>
+            <Select value={companyId} onValueChange={updateFilter(setCompanyId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All companies</SelectItem>
+                {companies.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>User</Label>
+            <Select value={userId} onValueChange={updateFilter(setUserId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All users</SelectItem>
+                {users.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={action} onValueChange={updateFilter(setAction)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {AUDIT_ACTIONS.map((a) => (
+                  <SelectItem key={a.value} value={a.value}>
+                    {a.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={from}
+              onChange={(e) => updateFilter(setFrom)(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={to}
+              onChange={(e) => updateFilter(setTo)(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {report && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="inline-flex items-center gap-1 rounded-full bg-muted px-3 py-1">
+              Report: {report.label}
+              <button
+                type="button"
+                onClick={() => router.push("/admin/audit")}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label="Clear report filter"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          </div>
+        )}
+
+        {/* Entries */}
+        {loading && !data ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="spinner w-8 h-8" />
+          </div>
+        ) : data && data.entries.length === 0 ? (
+          <p className="text-muted-foreground text-sm py-4">No events match these filters.</p>
+        ) : (
+          <div className={`overflow-x-auto ${loading ? "opacity-60" : ""}`}>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-3 font-medium">Time</th>
+                  <th className="text-left py-3 px-3 font-medium">User</th>
+                  <th className="text-left py-3 px-3 font-medium">Action</th>
+                  <th className="text-left py-3 px-3 font-medium">Company</th>
+                  <th className="text-left py-3 px-3 font-medium">Report</th>
+                  <th className="text-left py-3 px-3 font-medium">Details</th>
+                  <th className="text-left py-3 px-3 font-medium">IP Address</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data?.entries.map((entry) => (
+                  <tr key={entry.id} className="border-b hover:bg-muted/30 align-top">
+                    <td className="py-3 px-3 whitespace-nowrap text-muted-foreground">
+                      {new Date(entry.timestamp).toLocaleString("en-US", {
+                        month: "short",
+                        day: "numeric",
+                        year: "numeric",
+                        hour: "numeric",
+                        minute: "2-digit",
+                      })}
+                    </td>
+                    <td className="py-3 px-3">{entry.user?.email ?? "System"}</td>
+                    <td className="py-3 px-3 whitespace-nowrap">{getAuditActionLabel(entry.action)}</td>
+                    <td className="py-3 px-3">{entry.company?.name ?? "-"}</td>
+                    <td className="py-3 px-3">
+                      {entry.report ? (
+                        <Link
+                          href={`/admin/reports/${entry.report.id}`}
+                          className="text-primary hover:underline"
+                        >
+                          {entry.report.periodLabel ?? "Report"}
+                        </Link>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td className="py-3 px-3 text-muted-foreground">{describeDetails(entry) || "-"}</td>
+                    <td
+                      className="py-3 px-3 text-muted-foreground whitespace-nowrap"
+                      title={entry.userAgent ?? undefined}
+                    >
+                      {entry.ipAddress ?? "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {data && data.total > data.pageSize && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1 || loading}
+                onClick={() => setPage((p) => p - 1)}
+              >
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages || loading}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                Next
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
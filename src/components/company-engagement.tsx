@@ -0,0 +1,162 @@
+import Link from "next/link";
+import { BarChart3, AlertCircle, CheckCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatTimeToView, type CompanyEngagement, type UserReportEngagement } from "@/lib/engagement";
+import { formatDate, formatPeriodLabel } from "@/lib/utils";
+
+interface CompanyEngagementProps {
+  engagement: CompanyEngagement;
+}
+
+function cellTitle(usage: UserReportEngagement, sectionCount: number): string {
+  if (!usage.firstViewedAt) {
+    return "Not opened";
+  }
+  return [
+    `First opened ${formatDate(usage.firstViewedAt)}`,
+    `${usage.views} view(s), ${usage.downloads} download(s)`,
+    `${usage.sectionsViewed.length} of ${sectionCount} sections read`,
+  ].join("\n");
+}
+
+export function CompanyEngagementCard({ engagement }: CompanyEngagementProps) {
+  const { clients, reports, notOpenedLatest } = engagement;
+  const latest = reports[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-primary" />
+          <CardTitle>Client Engagement</CardTitle>
+        </div>
+        <CardDescription>
+          Which client users opened their published reports, and how soon after publishing.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {clients.length === 0 || !latest ? (
+          <p className="text-muted-foreground text-sm">
+            {clients.length === 0
+              ? "No client users linked to this company yet."
+              : "No published reports yet."}
+          </p>
+        ) : (
+          <>
+            {/* Follow-ups */}
+            {notOpenedLatest.length > 0 ? (
+              <div className="rounded-lg border border-orange-200 bg-orange-50 p-3 text-sm">
+                <p className="font-medium text-orange-800 flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4" />
+                  {notOpenedLatest.length} of {clients.length} client user(s) haven&apos;t opened{" "}
+                  {latest.periodLabel || formatPeriodLabel(latest.periodEnd)}
+                </p>
+                <ul className="mt-2 space-y-1 text-orange-900">
+                  {notOpenedLatest.map((client) => (
+                    <li key={client.id}>
+                      {client.email}
+                      <span className="text-orange-700">
+                        {" "}
+                        · {client.lastLoginAt ? `last login ${formatDate(client.lastLoginAt)}` : "never logged in"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="text-sm text-green-700 flex items-center gap-2">
+                <CheckCircle className="w-4 h-4" />
+                Every client user has opened the latest report.
+              </p>
+            )}
+
+            {/* Opened per report: time from publishing to first view */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-3 font-medium">User</th>
+                    {reports.map((report) => (
+                      <th key={report.id} className="text-center py-2 px-3 font-medium whitespace-nowrap">
+                        <Link href={`/admin/reports/${report.id}`} className="hover:underline">
+                          {report.periodLabel || formatPeriodLabel(report.periodEnd)}
+                        </Link>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {clients.map((client, index) => (
+                    <tr key={client.id} className="border-b">
+                      <td className="py-2 px-3">{client.email}</td>
+                      {reports.map((report) => {
+                        const usage = report.users[index];
+                        return (
+                          <td
+                            key={report.id}
+                            className="py-2 px-3 text-center"
+                            title={cellTitle(usage, report.sections.length)}
+                          >
+                            {usage.firstViewedAt ? (
+                              <span className="text-green-700">
+                                {usage.hoursToFirstView !== null
+                                  ? formatTimeToView(usage.hoursToFirstView)
+                                  : "Opened"}
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-2 px-3 text-muted-foreground">Opened</td>
+                    {reports.map((report) => (
+                      <td key={report.id} className="py-2 px-3 text-center text-muted-foreground">
+                        {report.openedCount}/{clients.length}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {/* Sections read in the latest report */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                Sections read - {latest.periodLabel || formatPeriodLabel(latest.periodEnd)}
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 px-3 font-medium">Section</th>
+                      <th className="text-left py-2 px-3 font-medium">Read by</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {latest.sections.map((section) => {
+                      const readers = clients.filter((_, index) =>
+                        latest.users[index].sectionsViewed.includes(section.sectionKey)
+                      );
+                      return (
+                        <tr key={section.sectionKey} className="border-b">
+                          <td className="py-2 px-3">{section.sectionName}</td>
+                          <td className="py-2 px-3 text-muted-foreground">
+                            {readers.length > 0 ? readers.map((c) => c.email).join(", ") : "-"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,21 +1,65 @@
 "use client";
 
 import { useState } from "react";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import { UserButton } from "@clerk/nextjs";
 import Link from "next/link";
-import { FileText, LayoutDashboard, Building2, Menu, X } from "lucide-react";
+import { FileText, LayoutDashboard, Building2, Users, ScrollText, Settings, Shield, Menu, X } from "lucide-react";
+import { toast } from "sonner";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
   isAdmin?: boolean;
+  canManageTeam?: boolean; // Client owners get the Team page
+  canViewAudit?: boolean;
+  canManageUsers?: boolean; // Admins get the Firm Users page
   fullWidth?: boolean; // For report pages that need more space
+  companies?: Array<{ id: string; name: string }>; // Companies the user belongs to (switcher shows for 2+)
+  activeCompanyId?: string;
 }
 
-export function DashboardLayout({ children, isAdmin = false, fullWidth = false }: DashboardLayoutProps) {
+export function DashboardLayout({
+  children,
+  isAdmin = false,
+  canManageTeam = false,
+  canViewAudit = false,
+  canManageUsers = false,
+  fullWidth = false,
+  companies = [],
+  activeCompanyId,
+}: DashboardLayoutProps) {
   const pathname = usePathname();
+  const router = useRouter();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [switching, setSwitching] = useState(false);
+
+  async function switchCompany(companyId: string) {
+    setSwitching(true);
+    try {
+      const res = await fetch("/api/companies/active", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to switch company");
+      }
+
+      // Reports belong to one company, so go back to the dashboard list
+      if (pathname !== "/dashboard") {
+        router.push("/dashboard");
+      }
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to switch company");
+    } finally {
+      setSwitching(false);
+    }
+  }
 
   const navItems = [
     {
@@ -23,25 +67,53 @@ export function DashboardLayout({ children, isAdmin = false, fullWidth = false }
       label: "Dashboard",
       icon: LayoutDashboard,
       isActive: pathname === "/dashboard",
-      showAlways: true,
+      visible: true,
+    },
+    {
+      href: "/team",
+      label: "Team",
+      icon: Users,
+      isActive: pathname === "/team",
+      visible: canManageTeam,
     },
     {
       href: "/admin/companies",
       label: "Companies",
       icon: Building2,
       isActive: pathname.startsWith("/admin/companies"),
-      showAlways: false,
+      visible: isAdmin,
     },
     {
       href: "/admin/generate",
       label: "Generate Report",
       icon: FileText,
       isActive: pathname === "/admin/generate",
-      showAlways: false,
+      visible: isAdmin,
+    },
+    {
+      href: "/admin/users",
+      label: "Firm Users",
+      icon: Shield,
+      isActive: pathname === "/admin/users",
+      visible: canManageUsers,
+    },
+    {
+      href: "/admin/audit",
+      label: "Audit Log",
+      icon: ScrollText,
+      isActive: pathname === "/admin/audit",
+      visible: canViewAudit,
+    },
+    {
+      href: "/settings",
+      label: "Settings",
+      icon: Settings,
+      isActive: pathname === "/settings",
+      visible: true,
     },
   ];
 
-  const visibleNavItems = navItems.filter(item => item.showAlways || isAdmin);
+  const visibleNavItems = navItems.filter(item => item.visible);
 
   return (
     <div className="min-h-screen bg-background">
@@ -79,6 +151,22 @@ export function DashboardLayout({ children, isAdmin = false, fullWidth = false }
 
           {/* Right side */}
           <div className="ml-auto flex items-center gap-2">
+            {/* Company switcher */}
+            {companies.length > 1 && (
+              <Select value={activeCompanyId} onValueChange={switchCompany} disabled={switching}>
+                <SelectTrigger className="w-36 sm:w-52">
+                  <SelectValue placeholder="Select company" />
+                </SelectTrigger>
+                <SelectContent>
+                  {companies.map((company) => (
+                    <SelectItem key={company.id} value={company.id}>
+                      {company.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             {/* Mobile menu button */}
             <button
               onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { USER_ROLES, getRoleLabel, isFirmRole } from "@/lib/permissions";
+import type { UserRole } from "@prisma/client";
+
+const FIRM_ROLES = USER_ROLES.filter((r) => r.scope === "firm");
+const NO_FIRM_ROLE = "none";
+
+interface FirmUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  lastLoginAt: string | null;
+  companies: Array<{ id: string; name: string; role: UserRole }>;
+}
+
+interface FirmUsersProps {
+  currentUserId: string;
+}
+
+export function FirmUsers({ currentUserId }: FirmUsersProps) {
+  const [users, setUsers] = useState<FirmUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/users");
+      if (!res.ok) throw new Error("Failed to fetch users");
+      setUsers(await res.json());
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  async function changeFirmRole(userId: string, firmRole: UserRole | null) {
+    setActionLoading(userId);
+    try {
+      const res = await fetch(`/api/admin/users/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ firmRole }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to change firm role");
+      }
+
+      const updated = await res.json();
+      setUsers((prev) => prev.map((u) => (u.id === userId ? { ...u, role: updated.role } : u)));
+      toast.success(firmRole ? `Firm role changed to ${getRoleLabel(firmRole)}` : "Firm role removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to change firm role");
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function syncUsers() {
+    setSyncing(true);
+    try {
+      const res = await fetch("/api/admin/users/sync", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to sync users");
+      toast.success(data.message);
+      await fetchUsers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to sync users");
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>
+            Give staff a firm role here. Users without one only see the companies they belong to.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={syncUsers} disabled={syncing}>
+          {syncing ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          Sync from Clerk
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : users.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No users yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-3 font-medium">Email</th>
+                  <th className="text-left py-3 px-3 font-medium">Firm Role</th>
+                  <th className="text-left py-3 px-3 font-medium">Companies</th>
+                  <th className="text-left py-3 px-3 font-medium">Last Login</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => (
+                  <tr key={user.id} className="border-b last:border-0">
+                    <td className="py-3 px-3">{user.email}</td>
+                    <td className="py-3 px-3">
+                      <Select
+                        value={isFirmRole(user.role) ? user.role : NO_FIRM_ROLE}
+                        onValueChange={(value) =>
+                          changeFirmRole(user.id, value === NO_FIRM_ROLE ? null : (value as UserRole))
+                        }
+                        disabled={user.id === currentUserId || actionLoading === user.id}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_FIRM_ROLE}>None</SelectItem>
+                          {FIRM_ROLES.map((role) => (
+                            <SelectItem key={role.value} value={role.value}>
+                              {role.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="py-3 px-3 text-muted-foreground">
+                      {user.companies.length > 0
+                        ? user.companies.map((c) => `${c.name} (${getRoleLabel(c.role)})`).join(", ")
+                        : "—"}
+                    </td>
+                    <td className="py-3 px-3 text-muted-foreground">
+                      {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleDateString() : "Never"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { CheckCircle, Loader2, Circle, AlertCircle, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
@@ -7,11 +8,12 @@ import { cn } from "@/lib/utils";
 
 export type GenerationStep =
   | "uploading"
+  | "queued"
   | "extracting"
   | "generating"
   | "saving";
 
-export type GenerationStatus = "idle" | "uploading" | "extracting" | "generating" | "saving" | "complete" | "error";
+export type GenerationStatus = "idle" | "uploading" | "queued" | "extracting" | "generating" | "saving" | "complete" | "error";
 
 interface GenerationProgressProps {
   status: GenerationStatus;
@@ -21,11 +23,16 @@ interface GenerationProgressProps {
     sectionsGenerated: number;
   };
   companyName?: string;
+  // Server-reported progress (falls back to a per-step estimate)
+  progress?: number;
+  stageStartedAt?: string | null;
+  attempt?: number;
   onReset: () => void;
 }
 
 const steps: { key: GenerationStep; label: string }[] = [
   { key: "uploading", label: "Uploading file..." },
+  { key: "queued", label: "Waiting for worker..." },
   { key: "extracting", label: "Extracting financial data..." },
   { key: "generating", label: "Generating report with AI..." },
   { key: "saving", label: "Saving report..." },
@@ -35,7 +42,7 @@ function getStepStatus(
   stepKey: GenerationStep,
   currentStatus: GenerationStatus
 ): "complete" | "active" | "pending" | "error" {
-  const stepOrder: GenerationStep[] = ["uploading", "extracting", "generating", "saving"];
+  const stepOrder: GenerationStep[] = ["uploading", "queued", "extracting", "generating", "saving"];
   const currentIndex = stepOrder.indexOf(currentStatus as GenerationStep);
   const stepIndex = stepOrder.indexOf(stepKey);
 
@@ -56,9 +63,10 @@ function getStepStatus(
 function getProgressPercentage(status: GenerationStatus): number {
   switch (status) {
     case "idle": return 0;
-    case "uploading": return 15;
-    case "extracting": return 35;
-    case "generating": return 65;
+    case "uploading": return 5;
+    case "queued": return 10;
+    case "extracting": return 20;
+    case "generating": return 35;
     case "saving": return 90;
     case "complete": return 100;
     case "error": return 0;
@@ -66,15 +74,38 @@ function getProgressPercentage(status: GenerationStatus): number {
   }
 }
 
+// Seconds since the current stage started, ticking once a second
+function useElapsedSeconds(since?: string | null): number | null {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!since) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [since]);
+
+  if (!since) return null;
+  return Math.max(0, Math.floor((now - new Date(since).getTime()) / 1000));
+}
+
+function formatElapsed(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+}
+
 export function GenerationProgress({
   status,
   error,
   result,
   companyName,
+  progress: serverProgress,
+  stageStartedAt,
+  attempt,
   onReset,
 }: GenerationProgressProps) {
-  const progress = getProgressPercentage(status);
-  const isProcessing = !["idle", "complete", "error"].includes(status);
+  const progress = serverProgress ?? getProgressPercentage(status);
+  const elapsed = useElapsedSeconds(stageStartedAt);
 
   if (status === "idle") {
     return (
@@ -102,9 +133,9 @@ export function GenerationProgress({
         </p>
         <div className="flex gap-3 justify-center mt-6">
           <Button asChild>
-            <Link href={`/reports/${result.reportId}`}>
+            <Link href={`/admin/reports/${result.reportId}`}>
               <ExternalLink className="w-4 h-4 mr-2" />
-              View Report
+              Review Report
             </Link>
           </Button>
           <Button variant="outline" onClick={onReset}>
@@ -214,9 +245,13 @@ export function GenerationProgress({
           />
         </div>
         <div className="flex justify-between mt-2 text-xs text-muted-foreground">
-          <span>{progress}% complete</span>
           <span>
-            {status === "generating" ? "This usually takes 30-60 seconds" : "Processing..."}
+            {progress}% complete
+            {attempt && attempt > 1 ? ` · Attempt ${attempt}` : ""}
+          </span>
+          <span>
+            {status === "generating" ? "This usually takes 1-3 minutes" : "Processing..."}
+            {elapsed !== null ? ` (${formatElapsed(elapsed)})` : ""}
           </span>
         </div>
       </div>
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { Bell } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { NotificationPreferences } from "@/types";
+
+interface NotificationSettingsProps {
+  initialPreferences: NotificationPreferences;
+  showScheduledRuns?: boolean; // Firm users who run generation
+}
+
+export function NotificationSettings({ initialPreferences, showScheduledRuns = false }: NotificationSettingsProps) {
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [saving, setSaving] = useState(false);
+
+  async function togglePreference(key: keyof NotificationPreferences, checked: boolean) {
+    const previous = preferences;
+    setPreferences({ ...preferences, [key]: checked });
+    setSaving(true);
+    try {
+      const res = await fetch("/api/settings/notifications", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [key]: checked }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to save preferences");
+      }
+
+      setPreferences(data.data);
+      toast.success("Notification preferences saved");
+    } catch (error) {
+      setPreferences(previous);
+      toast.error(error instanceof Error ? error.message : "Failed to save preferences");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bell className="w-5 h-5 text-primary" />
+          <CardTitle>Email Notifications</CardTitle>
+        </div>
+        <CardDescription>Choose which emails you receive.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="notifyOnPublish"
+            checked={preferences.notifyOnPublish}
+            onCheckedChange={(checked) => togglePreference("notifyOnPublish", checked === true)}
+            disabled={saving}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="notifyOnPublish">New report published</Label>
+            <p className="text-sm text-muted-foreground">
+              An email with the headline when a new monthly review is ready for any of your companies.
+            </p>
+          </div>
+        </div>
+        {showScheduledRuns && (
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="notifyOnScheduledRun"
+              checked={preferences.notifyOnScheduledRun}
+              onCheckedChange={(checked) => togglePreference("notifyOnScheduledRun", checked === true)}
+              disabled={saving}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="notifyOnScheduledRun">Scheduled runs</Label>
+              <p className="text-sm text-muted-foreground">
+                An email when a scheduled monthly report is ready for review, fails, or can&apos;t find its workbook.
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { CheckCircle, Clock, Loader2, MessageSquareWarning, Pencil, Send, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ReportSection } from "@/components/report-section";
+import { cn, formatDate } from "@/lib/utils";
+import type { ReportSectionContent, SectionReviewDecision, SectionReviewStatus } from "@/types";
+
+interface ReviewSection {
+  sectionKey: string;
+  sectionName: string;
+  content: ReportSectionContent;
+  reviewStatus: SectionReviewStatus;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+}
+
+interface ReportReviewProps {
+  reportId: string;
+  published: boolean;
+  sections: ReviewSection[];
+  canEdit: boolean;
+  canReview: boolean;
+  canPublish: boolean;
+}
+
+const STATUS_BADGES: Record<SectionReviewStatus, { label: string; className: string }> = {
+  pending: {
+    label: "Pending review",
+    className: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
+  },
+  approved: {
+    label: "Approved",
+    className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
+  },
+  changes_requested: {
+    label: "Changes requested",
+    className: "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400",
+  },
+};
+
+export function ReportReview({
+  reportId,
+  published,
+  sections,
+  canEdit,
+  canReview,
+  canPublish,
+}: ReportReviewProps) {
+  const router = useRouter();
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [noteFor, setNoteFor] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+
+  const approvedCount = sections.filter((s) => s.reviewStatus === "approved").length;
+  const allApproved = sections.length > 0 && approvedCount === sections.length;
+
+  async function submitReview(sectionKey: string, decision: SectionReviewDecision, reviewNote?: string) {
+    setActionLoading(sectionKey);
+    try {
+      const res = await fetch(`/api/admin/reports/${reportId}/sections/${sectionKey}/review`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision, note: reviewNote }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to review section");
+      }
+
+      setNoteFor(null);
+      setNote("");
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to review section");
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  async function setPublished(value: boolean) {
+    setActionLoading("publish");
+    try {
+      const res = await fetch(`/api/admin/reports/${reportId}/publish`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ published: value }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to update report");
+      }
+
+      toast.success(value ? "Report published" : "Report unpublished");
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update report");
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Publish bar */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Review</CardTitle>
+            <CardDescription>
+              {published
+                ? "This report is published and visible to the client."
+                : `${approvedCount} of ${sections.length} sections approved. Every section must be approved before publishing.`}
+            </CardDescription>
+          </div>
+          {!canPublish ? null : published ? (
+            <Button variant="outline" onClick={() => setPublished(false)} disabled={actionLoading !== null}>
+              {actionLoading === "publish" ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Undo2 className="w-4 h-4 mr-2" />
+              )}
+              Unpublish
+            </Button>
+          ) : (
+            <Button onClick={() => setPublished(true)} disabled={!allApproved || actionLoading !== null}>
+              {actionLoading === "publish" ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-2" />
+              )}
+              Publish to Client
+            </Button>
+          )}
+        </CardHeader>
+      </Card>
+
+      {/* Sections */}
+      {sections.map((section) => {
+        const badge = STATUS_BADGES[section.reviewStatus] ?? STATUS_BADGES.pending;
+        const isLoading = actionLoading === section.sectionKey;
+
+        return (
+          <Card key={section.sectionKey}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+              <div className="space-y-1">
+                <CardTitle>{section.sectionName}</CardTitle>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className={cn("px-2 py-1 rounded-full font-medium", badge.className)}>
+                    {badge.label}
+                  </span>
+                  {section.reviewedAt && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {section.reviewedBy ?? "Unknown"} · {formatDate(section.reviewedAt)}
+                    </span>
+                  )}
+                </div>
+                {section.reviewStatus === "changes_requested" && section.reviewNote && (
+                  <p className="text-sm text-orange-700 dark:text-orange-400">{section.reviewNote}</p>
+                )}
+              </div>
+              {!published && (canEdit || canReview) && (
+                <div className="flex gap-2 flex-shrink-0">
+                  {canEdit && (
+                    <Button size="sm" variant="ghost" asChild>
+                      <Link href={`/admin/reports/${reportId}/sections/${section.sectionKey}`}>
+                        <Pencil className="w-4 h-4 mr-1" />
+                        Edit
+                      </Link>
+                    </Button>
+                  )}
+                  {canReview && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setNoteFor(noteFor === section.sectionKey ? null : section.sectionKey)}
+                        disabled={actionLoading !== null}
+                      >
+                        <MessageSquareWarning className="w-4 h-4 mr-1" />
+                        Request Changes
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => submitReview(section.sectionKey, "approve")}
+                        disabled={actionLoading !== null || section.reviewStatus === "approved"}
+                      >
+                        {isLoading ? (
+                          <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                        ) : (
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                        )}
+                        Approve
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {noteFor === section.sectionKey && (
+                <div className="space-y-2 p-3 rounded-lg bg-muted/50">
+                  <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="What needs to change in this section?"
+                    rows={3}
+                    className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="ghost" onClick={() => setNoteFor(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => submitReview(section.sectionKey, "request_changes", note)}
+                      disabled={isLoading || !note.trim()}
+                    >
+                      {isLoading && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                      Submit
+                    </Button>
+                  </div>
+                </div>
+              )}
+              <ReportSection content={section.content} sectionName={section.sectionName} />
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
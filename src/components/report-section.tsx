@@ -5,14 +5,10 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { formatFinancialNumber } from "@/lib/format-financial";
 import { cn } from "@/lib/utils";
+import type { ReportSectionContent, ReportTable } from "@/types";
 
 interface ReportSectionProps {
-  content: {
-    raw_markdown?: string;
-    tables?: unknown[];
-    insights?: string[];
-    questions?: string[];
-  };
+  content: ReportSectionContent;
   sectionName?: string; // Used to strip redundant title from markdown
 }
 
@@ -100,12 +96,17 @@ function isTotalRow(label: string): boolean {
 export function ReportSection({ content, sectionName }: ReportSectionProps) {
   // If we have raw markdown, render it
   if (content.raw_markdown) {
-    return <MarkdownContent markdown={content.raw_markdown} sectionName={sectionName} />;
+    return <MarkdownContent markdown={content.raw_markdown} structured={content} sectionName={sectionName} />;
   }
 
   // Otherwise render structured content
   return (
     <div className="space-y-8">
+      {/* Top Executive Insights */}
+      {content.executive_insights && content.executive_insights.length > 0 && (
+        <ExecutiveInsightsBox items={content.executive_insights} />
+      )}
+
       {/* Tables */}
       {content.tables && content.tables.length > 0 && (
         <div className="space-y-4">
@@ -128,6 +129,7 @@ export function ReportSection({ content, sectionName }: ReportSectionProps) {
       {/* Empty state */}
       {!content.raw_markdown &&
         (!content.tables || content.tables.length === 0) &&
+        (!content.executive_insights || content.executive_insights.length === 0) &&
         (!content.insights || content.insights.length === 0) &&
         (!content.questions || content.questions.length === 0) && (
           <p className="text-muted-foreground italic">
@@ -209,39 +211,33 @@ function ExecutiveInsightsBox({ items }: { items: string[] }) {
 }
 
 // Simple table renderer for structured data
-function TableRenderer({ table }: { table: unknown }) {
-  const t = table as {
-    title?: string;
-    headers?: string[];
-    rows?: { cells?: { value: string; isPositive?: boolean; isNegative?: boolean }[] }[];
-  };
-
-  if (!t.headers || !t.rows) {
+function TableRenderer({ table }: { table: ReportTable }) {
+  if (!table.headers || !table.rows) {
     return null;
   }
 
   return (
     <div className="space-y-2">
-      {t.title && <h4 className="subsection-header">{t.title}</h4>}
+      {table.title && <h4 className="subsection-header">{table.title}</h4>}
       <div className="overflow-x-auto -mx-4 px-4 sm:mx-0 sm:px-0">
         <table className="financial-table">
           <thead>
             <tr>
-              {t.headers.map((header, i) => (
+              {table.headers.map((header, i) => (
                 <th key={i}>{header}</th>
               ))}
             </tr>
           </thead>
           <tbody>
-            {t.rows.map((row, rowIndex) => {
+            {table.rows.map((row, rowIndex) => {
               const firstCellValue = row.cells?.[0]?.value || '';
-              const isTotal = isTotalRow(firstCellValue);
+              const isTotal = row.isHighlighted || isTotalRow(firstCellValue);
 
               return (
                 <tr key={rowIndex} className={isTotal ? 'row-total' : ''}>
                   {row.cells?.map((cell, cellIndex) => {
-                    // First column is label
-                    if (cellIndex === 0) {
+                    // First column and text cells are rendered as-is
+                    if (cellIndex === 0 || cell.type === 'text') {
                       return <td key={cellIndex}>{cell.value}</td>;
                     }
 
@@ -377,8 +373,21 @@ function parseSpecialSections(markdown: string): {
 }
 
 // Markdown content renderer using react-markdown
-function MarkdownContent({ markdown, sectionName }: { markdown: string; sectionName?: string }) {
-  const { content: parsedContent, keyTakeaways, questions, executiveInsights } = parseSpecialSections(markdown);
+function MarkdownContent({
+  markdown,
+  structured,
+  sectionName,
+}: {
+  markdown: string;
+  structured?: ReportSectionContent;
+  sectionName?: string;
+}) {
+  const parsed = parseSpecialSections(markdown);
+  const parsedContent = parsed.content;
+  // Prefer the callouts extracted at generation time; older reports only have markdown
+  const keyTakeaways = structured?.insights ?? parsed.keyTakeaways;
+  const questions = structured?.questions ?? parsed.questions;
+  const executiveInsights = structured?.executive_insights ?? parsed.executiveInsights;
   // Remove redundant title that matches the section header
   const content = removeRedundantTitle(parsedContent, sectionName);
 
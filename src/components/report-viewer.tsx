@@ -1,25 +1,22 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { ChevronDown, FileText } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ReportSection } from "@/components/report-section";
 import { cn } from "@/lib/utils";
+import type { ReportSectionContent } from "@/types";
 
 interface Section {
   id: string;
   sectionKey: string;
   sectionName: string;
   sortOrder: number;
-  content: {
-    raw_markdown?: string;
-    tables?: unknown[];
-    insights?: string[];
-    questions?: string[];
-  };
+  content: ReportSectionContent;
 }
 
 interface ReportViewerProps {
+  reportId: string;
   sections: Section[];
 }
 
@@ -34,11 +31,26 @@ const SECTION_DISPLAY_NAMES: Record<string, string> = {
   cash_flow_liquidity: "Cash Flow & Liquidity",
   balance_sheet_health: "Balance Sheet",
   risk_controls: "Risk & Controls",
+  appendix: "Appendix",
 };
 
-export function ReportViewer({ sections }: ReportViewerProps) {
+export function ReportViewer({ reportId, sections }: ReportViewerProps) {
   const [activeSection, setActiveSection] = useState(sections[0]?.sectionKey || "");
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const viewedSections = useRef(new Set<string>());
+
+  // Record each section the first time it's opened (feeds engagement analytics)
+  useEffect(() => {
+    if (!activeSection || viewedSections.current.has(activeSection)) {
+      return;
+    }
+    viewedSections.current.add(activeSection);
+
+    fetch(`/api/reports/${reportId}/sections/${activeSection}/viewed`, {
+      method: "POST",
+      keepalive: true,
+    }).catch((error) => console.error("Failed to record section view:", error));
+  }, [reportId, activeSection]);
 
   const currentSection = sections.find((s) => s.sectionKey === activeSection);
   const currentIndex = sections.findIndex((s) => s.sectionKey === activeSection);
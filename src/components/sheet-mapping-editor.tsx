@@ -0,0 +1,236 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { CheckCircle, FileSpreadsheet, Loader2, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SHEET_ROLES, type SheetMappingEntry, type SheetRole } from "@/lib/sheet-roles";
+import type { ExtractionPreview, ResolvedSheet } from "@/lib/excel";
+
+// Inputs as typed; blank tab names mean "use the defaults"
+export interface SheetMappingFormRow {
+  role: SheetRole;
+  sheetName: string;
+  headerRow: string;
+  range: string;
+}
+
+export function toFormRows(mappings: SheetMappingEntry[]): SheetMappingFormRow[] {
+  return SHEET_ROLES.map(({ role }) => {
+    const mapping = mappings.find((m) => m.role === role);
+    return {
+      role,
+      sheetName: mapping?.sheetName ?? "",
+      headerRow: mapping?.headerRow ? String(mapping.headerRow) : "",
+      range: mapping?.range ?? "",
+    };
+  });
+}
+
+export function fromFormRows(rows: SheetMappingFormRow[]): SheetMappingEntry[] {
+  return rows
+    .filter((row) => row.sheetName.trim())
+    .map((row) => ({
+      role: row.role,
+      sheetName: row.sheetName.trim(),
+      headerRow: row.headerRow ? Number(row.headerRow) : null,
+      range: row.range.trim() || null,
+    }));
+}
+
+const MATCHED_BY_LABELS: Record<NonNullable<ResolvedSheet["matchedBy"]>, string> = {
+  mapping: "Mapping",
+  name: "Template name",
+  alias: "Alias",
+};
+
+interface SheetMappingEditorProps {
+  companyId: string;
+  rows: SheetMappingFormRow[];
+  onChange: (rows: SheetMappingFormRow[]) => void;
+}
+
+export function SheetMappingEditor({ companyId, rows, onChange }: SheetMappingEditorProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [sample, setSample] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ExtractionPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState("");
+
+  const updateRow = (role: SheetRole, changes: Partial<SheetMappingFormRow>) => {
+    onChange(rows.map((row) => (row.role === role ? { ...row, ...changes } : row)));
+  };
+
+  const runPreview = async (file: File) => {
+    setPreviewing(true);
+    setPreviewError("");
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("mappings", JSON.stringify(fromFormRows(rows)));
+
+      const response = await fetch(`/api/admin/companies/${companyId}/sheet-mapping/preview`, {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setPreviewError(data.error || "Failed to preview workbook");
+        setPreview(null);
+        return;
+      }
+
+      setPreview(data.data);
+    } catch {
+      setPreviewError("Failed to preview workbook");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sheet Mapping</CardTitle>
+        <CardDescription>
+          Which workbook tab holds each statement. Leave a tab blank to use the template name
+          (shown as placeholder) or its common aliases.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-2 font-medium">Role</th>
+                <th className="text-left py-2 px-2 font-medium">Tab</th>
+                <th className="text-left py-2 px-2 font-medium w-24">Header row</th>
+                <th className="text-left py-2 px-2 font-medium w-32">Range</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SHEET_ROLES.map(({ role, label, defaultName }) => {
+                const row = rows.find((r) => r.role === role)!;
+                return (
+                  <tr key={role} className="border-b">
+                    <td className="py-2 px-2">{label}</td>
+                    <td className="py-2 px-2">
+                      <Input
+                        value={row.sheetName}
+                        placeholder={defaultName}
+                        list="sheet-mapping-tabs"
+                        onChange={(e) => updateRow(role, { sheetName: e.target.value })}
+                      />
+                    </td>
+                    <td className="py-2 px-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        value={row.headerRow}
+                        disabled={!row.sheetName.trim()}
+                        onChange={(e) => updateRow(role, { headerRow: e.target.value })}
+                      />
+                    </td>
+                    <td className="py-2 px-2">
+                      <Input
+                        value={row.range}
+                        placeholder="A1:P120"
+                        disabled={!row.sheetName.trim()}
+                        onChange={(e) => updateRow(role, { range: e.target.value })}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <datalist id="sheet-mapping-tabs">
+            {preview?.allSheets.map((name) => <option key={name} value={name} />)}
+          </datalist>
+        </div>
+
+        {/* Preview against a sample workbook */}
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".xlsx,.xls"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  setSample(file);
+                  runPreview(file);
+                }
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              {sample ? "Choose another workbook" : "Preview with a sample workbook"}
+            </Button>
+            {sample && (
+              <Button variant="ghost" size="sm" disabled={previewing} onClick={() => runPreview(sample)}>
+                {previewing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Refresh preview
+              </Button>
+            )}
+            {sample && <span className="text-xs text-muted-foreground">{sample.name}</span>}
+          </div>
+
+          {previewError && <p className="text-sm text-red-500">{previewError}</p>}
+
+          {preview && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-2 font-medium">Role</th>
+                    <th className="text-left py-2 px-2 font-medium">Matched tab</th>
+                    <th className="text-left py-2 px-2 font-medium">Matched by</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.roles.map((resolved) => (
+                    <tr key={resolved.role} className="border-b">
+                      <td className="py-2 px-2">{resolved.label}</td>
+                      <td className="py-2 px-2">
+                        {resolved.sheetName ? (
+                          <span className="flex items-center gap-1">
+                            <CheckCircle className="w-4 h-4 text-green-600" />
+                            {resolved.sheetName}
+                            {resolved.range && (
+                              <span className="text-muted-foreground">({resolved.range})</span>
+                            )}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-muted-foreground">
+                            <XCircle className="w-4 h-4" />
+                            Not found
+                          </span>
+                        )}
+                        {resolved.mappedSheetName && resolved.matchedBy !== "mapping" && (
+                          <p className="text-xs text-orange-600">
+                            Mapped tab &quot;{resolved.mappedSheetName}&quot; isn&apos;t in this workbook
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-2 px-2 text-muted-foreground">
+                        {resolved.matchedBy
+                          ? `${MATCHED_BY_LABELS[resolved.matchedBy]}${resolved.matchedBy === "alias" ? ` "${resolved.matchedName}"` : ""}`
+                          : "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
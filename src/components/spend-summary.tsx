@@ -0,0 +1,126 @@
+import Link from "next/link";
+import { DollarSign } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { SpendSummary } from "@/lib/usage";
+import { formatCurrency, formatPeriodLabel } from "@/lib/utils";
+
+interface SpendSummaryProps {
+  summary: SpendSummary;
+}
+
+function formatCost(value: number): string {
+  if (value === 0) {
+    return "-";
+  }
+  return value < 0.01 ? "<$0.01" : formatCurrency(value, { decimals: 2 });
+}
+
+// "2025-10" -> "Oct 2025" (mid-month so no timezone can shift it)
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 15)).toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+  });
+}
+
+export function SpendSummaryCard({ summary }: SpendSummaryProps) {
+  const { months, monthTotals, companies, reports, total } = summary;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <DollarSign className="w-5 h-5 text-primary" />
+          <CardTitle>Model Spend</CardTitle>
+        </div>
+        <CardDescription>
+          Claude costs by company over the last {months.length} months ({formatCost(total)} in total),
+          including retries and section regenerations.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {companies.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No reports generated in this period.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-3 font-medium">Company</th>
+                    {months.map((month) => (
+                      <th key={month} className="text-right py-2 px-3 font-medium whitespace-nowrap">
+                        {formatMonth(month)}
+                      </th>
+                    ))}
+                    <th className="text-right py-2 px-3 font-medium">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {companies.map((company) => (
+                    <tr key={company.id} className="border-b">
+                      <td className="py-2 px-3">
+                        <Link href={`/admin/companies/${company.id}`} className="hover:underline">
+                          {company.name}
+                        </Link>
+                      </td>
+                      {company.costs.map((cost, index) => (
+                        <td key={months[index]} className="py-2 px-3 text-right tabular-nums">
+                          {formatCost(cost)}
+                        </td>
+                      ))}
+                      <td className="py-2 px-3 text-right font-medium tabular-nums">
+                        {formatCost(company.total)}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="py-2 px-3 text-muted-foreground">All companies</td>
+                    {monthTotals.map((cost, index) => (
+                      <td key={months[index]} className="py-2 px-3 text-right font-medium tabular-nums">
+                        {formatCost(cost)}
+                      </td>
+                    ))}
+                    <td className="py-2 px-3 text-right font-medium tabular-nums">{formatCost(total)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Most expensive reports</p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 px-3 font-medium">Report</th>
+                      <th className="text-right py-2 px-3 font-medium">Attempts</th>
+                      <th className="text-right py-2 px-3 font-medium">Claude calls</th>
+                      <th className="text-right py-2 px-3 font-medium">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reports.map((report) => (
+                      <tr key={report.id} className="border-b">
+                        <td className="py-2 px-3">
+                          <Link href={`/admin/reports/${report.id}`} className="hover:underline">
+                            {report.companyName} ·{" "}
+                            {report.periodLabel || formatPeriodLabel(report.periodEnd)}
+                          </Link>
+                        </td>
+                        <td className="py-2 px-3 text-right tabular-nums">{report.attempts}</td>
+                        <td className="py-2 px-3 text-right tabular-nums">{report.calls}</td>
+                        <td className="py-2 px-3 text-right tabular-nums">{formatCost(report.costUsd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Mail, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { USER_ROLES, getRoleLabel } from "@/lib/permissions";
+import { formatDate } from "@/lib/utils";
+import type { InvitationListItem } from "@/types";
+
+const CLIENT_ROLES = USER_ROLES.filter((r) => r.scope === "client");
+
+interface TeamInvitationsProps {
+  endpoint: string; // POST to invite, DELETE `${endpoint}/${id}` to revoke
+  invitations: InvitationListItem[];
+  onChange?: () => void; // Reload members and invitations (defaults to refreshing the server page)
+}
+
+export function TeamInvitations({ endpoint, invitations, onChange }: TeamInvitationsProps) {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState("client_viewer");
+  const [sending, setSending] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  function reload() {
+    if (onChange) {
+      onChange();
+    } else {
+      router.refresh();
+    }
+  }
+
+  async function sendInvitation(e: React.FormEvent) {
+    e.preventDefault();
+    setSending(true);
+    try {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, role }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to send invitation");
+      }
+
+      toast.success(
+        data.data.linkedExistingUser
+          ? `${data.data.email} already had an account and now has access`
+          : `Invitation sent to ${data.data.email}`
+      );
+      setEmail("");
+      reload();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send invitation");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  async function revoke(invitationId: string) {
+    setRevoking(invitationId);
+    try {
+      const res = await fetch(`${endpoint}/${invitationId}`, { method: "DELETE" });
+      const data = await res.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to revoke invitation");
+      }
+
+      toast.success("Invitation revoked");
+      reload();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revoke invitation");
+    } finally {
+      setRevoking(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Mail className="w-5 h-5 text-primary" />
+          <CardTitle>Invite by Email</CardTitle>
+        </div>
+        <CardDescription>
+          Invitees get an email to create their account and join with the chosen role.
+          Invitations expire after 14 days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={sendInvitation} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="email"
+            placeholder="name@company.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            disabled={sending}
+          />
+          <Select value={role} onValueChange={setRole} disabled={sending}>
+            <SelectTrigger className="sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CLIENT_ROLES.map((r) => (
+                <SelectItem key={r.value} value={r.value}>
+                  {r.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={sending || !email.trim()}>
+            {sending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Send Invitation
+          </Button>
+        </form>
+
+        {invitations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Pending invitations</p>
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between p-2 rounded-lg bg-muted/50 text-sm"
+              >
+                <div>
+                  <p className="font-medium">{invitation.email}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {getRoleLabel(invitation.role)}
+                    {invitation.invitedBy ? ` · invited by ${invitation.invitedBy}` : ""}
+                    {` · expires ${formatDate(invitation.expiresAt)}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revoke(invitation.id)}
+                  disabled={revoking === invitation.id}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { AlertCircle, AlertTriangle, CheckCircle, XCircle } from "lucide-react";
+import type { SheetPreflight, WorkbookPreflight } from "@/types";
+
+interface WorkbookPreflightProps {
+  preflight: WorkbookPreflight;
+}
+
+function matchLabel(sheet: SheetPreflight): string {
+  switch (sheet.matchedBy) {
+    case "mapping":
+      return "mapped";
+    case "alias":
+      return `alias "${sheet.matchedName}"`;
+    case "name":
+      return "template name";
+    default:
+      return "";
+  }
+}
+
+function periodSummary(periods: string[]): string {
+  if (periods.length === 0) return "no months";
+  if (periods.length === 1) return periods[0];
+  return `${periods[0]} – ${periods[periods.length - 1]} (${periods.length})`;
+}
+
+export function WorkbookPreflightSummary({ preflight }: WorkbookPreflightProps) {
+  const { sheets, blockingIssues, warnings, totalTokens, maxTokens } = preflight;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {blockingIssues.length > 0 ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:bg-red-950/30 p-3 text-red-700 dark:text-red-400">
+          <p className="font-medium flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            This workbook can&apos;t be used yet
+          </p>
+          <ul className="mt-1 ml-6 list-disc">
+            {blockingIssues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="flex items-center gap-2 text-green-700">
+          <CheckCircle className="w-4 h-4" />
+          Required sheets found · {totalTokens.toLocaleString()} of {maxTokens.toLocaleString()} tokens
+        </p>
+      )}
+
+      {warnings.length > 0 && (
+        <ul className="space-y-1 text-orange-700">
+          {warnings.map((warning) => (
+            <li key={warning} className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{warning}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-1.5 px-2 font-medium">Role</th>
+              <th className="text-left py-1.5 px-2 font-medium">Tab</th>
+              <th className="text-right py-1.5 px-2 font-medium">Size</th>
+              <th className="text-left py-1.5 px-2 font-medium">Months</th>
+              <th className="text-right py-1.5 px-2 font-medium">Tokens</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sheets.map((sheet) => (
+              <tr key={sheet.role} className="border-b">
+                <td className="py-1.5 px-2">
+                  {sheet.label}
+                  {sheet.required && <span className="text-muted-foreground"> *</span>}
+                </td>
+                <td className="py-1.5 px-2">
+                  {sheet.sheetName ? (
+                    <>
+                      {sheet.sheetName}
+                      <span className="text-muted-foreground"> ({matchLabel(sheet)})</span>
+                    </>
+                  ) : (
+                    <span
+                      className={`flex items-center gap-1 ${sheet.required ? "text-red-600" : "text-muted-foreground"}`}
+                    >
+                      <XCircle className="w-3.5 h-3.5" />
+                      Not found
+                    </span>
+                  )}
+                </td>
+                <td className="py-1.5 px-2 text-right text-muted-foreground whitespace-nowrap">
+                  {sheet.sheetName ? `${sheet.rows} × ${sheet.columns}` : "-"}
+                </td>
+                <td className="py-1.5 px-2 text-muted-foreground whitespace-nowrap">
+                  {sheet.sheetName ? periodSummary(sheet.periodColumns) : "-"}
+                </td>
+                <td className="py-1.5 px-2 text-right whitespace-nowrap">
+                  {sheet.duplicateOf ? (
+                    <span className="text-muted-foreground">shared</span>
+                  ) : sheet.skippedForBudget ? (
+                    <span className="text-orange-700">{sheet.originalTokens.toLocaleString()} (skipped)</span>
+                  ) : sheet.trimSteps.length > 0 ? (
+                    <span className="text-orange-700" title={sheet.trimSteps.join("\n")}>
+                      {sheet.estimatedTokens.toLocaleString()} (trimmed)
+                    </span>
+                  ) : sheet.sheetName ? (
+                    sheet.estimatedTokens.toLocaleString()
+                  ) : (
+                    "-"
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-1 text-xs text-muted-foreground">* Required</p>
+      </div>
+    </div>
+  );
+}
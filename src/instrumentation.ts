@@ -0,0 +1,17 @@
+/**
+ * Next.js instrumentation hook - runs once when the server process starts.
+ * Starts the background job worker (Node.js runtime only, not edge).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if (process.env.DISABLE_QUEUE_WORKER === "true") return;
+
+  const { startWorkers } = await import("@/lib/worker");
+
+  try {
+    await startWorkers();
+  } catch (error) {
+    // Don't take the web server down if the queue can't start
+    console.error("Failed to start job queue worker:", error);
+  }
+}
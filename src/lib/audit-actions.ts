@@ -0,0 +1,37 @@
+/**
+ * Audit Actions
+ *
+ * The events recorded in the audit trail. Kept free of server imports so the
+ * audit page's filters can use it.
+ */
+
+export const AUDIT_ACTIONS = [
+  { value: "viewed", label: "Viewed report" },
+  { value: "section_viewed", label: "Viewed section" },
+  { value: "downloaded_pdf", label: "Downloaded PDF" },
+  { value: "downloaded_excel", label: "Downloaded Excel" },
+  { value: "report_published", label: "Published report" },
+  { value: "report_unpublished", label: "Unpublished report" },
+  { value: "config_updated", label: "Updated metric config" },
+  { value: "schedule_updated", label: "Updated run schedule" },
+  { value: "sheet_mapping_updated", label: "Updated sheet mapping" },
+  { value: "user_linked", label: "Linked user" },
+  { value: "user_unlinked", label: "Unlinked user" },
+  { value: "role_changed", label: "Changed company role" },
+  { value: "firm_role_changed", label: "Changed firm role" },
+  { value: "invitation_sent", label: "Sent invitation" },
+  { value: "invitation_revoked", label: "Revoked invitation" },
+  { value: "domain_added", label: "Verified email domain" },
+  { value: "domain_removed", label: "Removed email domain" },
+  { value: "company_deleted", label: "Deleted company" },
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]["value"];
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return AUDIT_ACTIONS.some((a) => a.value === value);
+}
+
+export function getAuditActionLabel(action: string): string {
+  return AUDIT_ACTIONS.find((a) => a.value === action)?.label ?? action;
+}
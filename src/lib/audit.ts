@@ -0,0 +1,168 @@
+/**
+ * Audit Trail
+ *
+ * Every report access and admin change is written to `access_logs`, so the
+ * audit page can answer "who saw what and who changed what". Report access is
+ * recorded as part of the request; admin changes are recorded after they
+ * succeed and never fail the request that made them.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { getAuditActionLabel, isAuditAction, type AuditAction } from "@/lib/audit-actions";
+import type { AuditLogEntry } from "@/types";
+
+export interface AuditEvent {
+  action: AuditAction;
+  userId: string | null; // The user who acted (null for system actions)
+  companyId?: string | null;
+  reportId?: string | null;
+  details?: Prisma.InputJsonObject;
+}
+
+function requestMetadata(request?: Request) {
+  return {
+    ipAddress: request?.headers.get("x-forwarded-for") || undefined,
+    userAgent: request?.headers.get("user-agent") || undefined,
+  };
+}
+
+/**
+ * Record a report access (view or download). Errors propagate like any
+ * other write in the request.
+ */
+export async function logAccess(event: AuditEvent, request?: Request): Promise<void> {
+  await prisma.accessLog.create({
+    data: {
+      userId: event.userId,
+      companyId: event.companyId ?? null,
+      reportId: event.reportId ?? null,
+      action: event.action,
+      details: event.details,
+      ...requestMetadata(request),
+    },
+  });
+}
+
+/**
+ * Record an admin change that has already happened. A failure is logged
+ * rather than thrown, since the change itself went through.
+ */
+export async function logAdminAction(event: AuditEvent, request?: Request): Promise<void> {
+  try {
+    await logAccess(event, request);
+  } catch (error) {
+    console.error(`Failed to record audit event ${event.action}:`, error);
+  }
+}
+
+export interface AuditFilters {
+  companyId?: string;
+  userId?: string;
+  reportId?: string;
+  action?: AuditAction;
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+}
+
+/**
+ * Read audit filters from a query string. Dates are YYYY-MM-DD and `to`
+ * includes the whole day.
+ */
+export function parseAuditFilters(searchParams: URLSearchParams): AuditFilters | { error: string } {
+  const filters: AuditFilters = {
+    companyId: searchParams.get("companyId") || undefined,
+    userId: searchParams.get("userId") || undefined,
+    reportId: searchParams.get("reportId") || undefined,
+  };
+
+  const action = searchParams.get("action");
+  if (action) {
+    if (!isAuditAction(action)) {
+      return { error: `Unknown action: ${action}` };
+    }
+    filters.action = action;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const value = searchParams.get(key);
+    if (!value) continue;
+
+    const date = new Date(`${value}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+      return { error: `${key} must be a date (YYYY-MM-DD)` };
+    }
+    if (key === "to") {
+      date.setUTCDate(date.getUTCDate() + 1);
+    }
+    filters[key] = date;
+  }
+
+  return filters;
+}
+
+export function buildAuditWhere(filters: AuditFilters): Prisma.AccessLogWhereInput {
+  return {
+    userId: filters.userId,
+    reportId: filters.reportId,
+    action: filters.action,
+    timestamp: filters.from || filters.to ? { gte: filters.from, lt: filters.to } : undefined,
+    // Older report access rows only have the report to go by
+    ...(filters.companyId && {
+      OR: [{ companyId: filters.companyId }, { report: { companyId: filters.companyId } }],
+    }),
+  };
+}
+
+export const AUDIT_LOG_INCLUDE = {
+  user: { select: { id: true, email: true } },
+  company: { select: { id: true, name: true } },
+  report: { select: { id: true, periodLabel: true, company: { select: { id: true, name: true } } } },
+} satisfies Prisma.AccessLogInclude;
+
+type AuditLogRow = Prisma.AccessLogGetPayload<{ include: typeof AUDIT_LOG_INCLUDE }>;
+
+export function toAuditLogEntry(row: AuditLogRow): AuditLogEntry {
+  return {
+    id: row.id,
+    timestamp: row.timestamp.toISOString(),
+    action: row.action,
+    user: row.user,
+    company: row.company ?? row.report?.company ?? null,
+    report: row.report ? { id: row.report.id, periodLabel: row.report.periodLabel } : null,
+    details: (row.details as Record<string, unknown> | null) ?? null,
+    ipAddress: row.ipAddress,
+    userAgent: row.userAgent,
+  };
+}
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  let text = value == null ? "" : String(value);
+  if (FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_HEADER = ["Timestamp", "Action", "User", "Company", "Report", "Details", "IP Address", "User Agent"];
+
+/**
+ * CSV lines (each ending in CRLF) for the entries. Exports are written in
+ * batches, so only the first batch includes the header.
+ */
+export function auditEntriesToCsv(entries: AuditLogEntry[], { header = true } = {}): string {
+  const rows = entries.map((e) => [
+    e.timestamp,
+    getAuditActionLabel(e.action),
+    e.user?.email ?? "",
+    e.company?.name ?? (e.details?.companyName as string | undefined) ?? "",
+    e.report ? (e.report.periodLabel ?? e.report.id) : "",
+    e.details ? JSON.stringify(e.details) : "",
+    e.ipAddress ?? "",
+    e.userAgent ?? "",
+  ]);
+  return (header ? [CSV_HEADER, ...rows] : rows).map((row) => row.map(csvCell).join(",") + "\r\n").join("");
+}
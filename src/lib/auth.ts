@@ -0,0 +1,178 @@
+/**
+ * Authorization
+ *
+ * Shared access checks for API routes and server pages. The database is the
+ * source of truth for roles; a copy is cached in the user's Clerk public
+ * metadata (exposed as `sessionClaims.metadata.role`) so the middleware can
+ * turn client users away from admin routes without a database round trip.
+ *
+ * Client users can belong to several companies. The one they are looking at
+ * is kept in the `active_company` cookie (set by the company switcher) and
+ * falls back to their first membership.
+ */
+
+import { cookies } from "next/headers";
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import type { Prisma, UserRole } from "@prisma/client";
+import prisma from "@/lib/db";
+import { getCompanyRole, hasPermission, isFirmRole, type Permission } from "@/lib/permissions";
+
+export const ACTIVE_COMPANY_COOKIE = "active_company";
+
+export type AuthFailure = { error: string; status: number };
+
+export type CurrentUser = Prisma.UserGetPayload<{
+  include: { memberships: { include: { company: { select: { id: true; name: true } } } } };
+}>;
+
+/**
+ * Look up the signed-in user's database record (null if signed out or not synced yet).
+ */
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const { userId, sessionClaims } = await auth();
+  if (!userId) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { clerkUserId: userId },
+    include: {
+      memberships: {
+        include: { company: { select: { id: true, name: true } } },
+        orderBy: { company: { name: "asc" } },
+      },
+    },
+  });
+
+  // Refresh the cached role claim if it has drifted from the database
+  if (user && sessionClaims?.metadata?.role !== user.role) {
+    syncRoleClaim(user.clerkUserId, user.role).catch((error) => {
+      console.error(`Failed to sync role claim for ${user.clerkUserId}:`, error);
+    });
+  }
+
+  return user;
+}
+
+/**
+ * Require a signed-in user with a database record.
+ */
+export async function requireUser(): Promise<{ user: CurrentUser } | AuthFailure> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized", status: 401 };
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: "User not found", status: 404 };
+  }
+
+  return { user };
+}
+
+/**
+ * Require a signed-in user whose role grants the given permission.
+ */
+export async function requirePermission(
+  permission: Permission
+): Promise<{ user: CurrentUser } | AuthFailure> {
+  const result = await requireUser();
+  if ("error" in result) {
+    return result.status === 404 ? { error: "Permission denied", status: 403 } : result;
+  }
+
+  if (!hasPermission(result.user.role, permission)) {
+    return { error: "Permission denied", status: 403 };
+  }
+
+  return result;
+}
+
+/**
+ * The company a user is currently viewing: the switcher's choice if they
+ * still belong to it, otherwise their first membership.
+ */
+export async function getActiveCompanyId(user: CurrentUser): Promise<string | null> {
+  const cookieStore = await cookies();
+  const selected = cookieStore.get(ACTIVE_COMPANY_COOKIE)?.value;
+
+  if (selected && user.memberships.some((m) => m.companyId === selected)) {
+    return selected;
+  }
+
+  return user.memberships[0]?.companyId ?? null;
+}
+
+/**
+ * Require access to a company, defaulting to the user's active company.
+ * Firm roles can access any company; everyone else needs a membership.
+ */
+export async function requireCompanyMember(
+  companyId?: string
+): Promise<{ user: CurrentUser; companyId: string; role: UserRole } | AuthFailure> {
+  const result = await requireUser();
+  if ("error" in result) {
+    return result;
+  }
+
+  const { user } = result;
+
+  if (companyId && isFirmRole(user.role)) {
+    return { user, companyId, role: user.role };
+  }
+
+  const targetId = companyId ?? (await getActiveCompanyId(user));
+  if (!targetId) {
+    return { error: "User not linked to a company", status: 403 };
+  }
+
+  const membership = user.memberships.find((m) => m.companyId === targetId);
+  if (!membership) {
+    return { error: "Access denied", status: 403 };
+  }
+
+  return { user, companyId: targetId, role: getCompanyRole(user.role, membership.role) };
+}
+
+/**
+ * Require a permission granted by the user's role at a company (defaults to
+ * the active company), e.g. a client owner inviting colleagues.
+ */
+export async function requireCompanyPermission(
+  permission: Permission,
+  companyId?: string
+): Promise<{ user: CurrentUser; companyId: string; role: UserRole } | AuthFailure> {
+  const access = await requireCompanyMember(companyId);
+  if ("error" in access) {
+    return access;
+  }
+
+  if (!hasPermission(access.role, permission)) {
+    return { error: "Permission denied", status: 403 };
+  }
+
+  return access;
+}
+
+/**
+ * Prisma filter for records (reports) the user can see: everything for firm
+ * roles, otherwise only their companies.
+ */
+export function companyAccessFilter(user: CurrentUser): { companyId?: { in: string[] } } {
+  if (isFirmRole(user.role)) {
+    return {};
+  }
+  return { companyId: { in: user.memberships.map((m) => m.companyId) } };
+}
+
+/**
+ * Copy a user's role into their Clerk public metadata so it shows up in
+ * session claims. Call after every role change.
+ */
+export async function syncRoleClaim(clerkUserId: string, role: string): Promise<void> {
+  const client = await clerkClient();
+  await client.users.updateUserMetadata(clerkUserId, {
+    publicMetadata: { role },
+  });
+}
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { releaseBatchSlot, resumeStalledBatches, startNextBatchReports } from "@/lib/batches";
+
+const db = vi.hoisted(() => {
+  const db = {
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+    report: {
+      count: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  };
+  db.$transaction.mockImplementation((fn: (tx: typeof db) => unknown) => fn(db));
+  return db;
+});
+
+const queue = vi.hoisted(() => ({ enqueueReportGeneration: vi.fn() }));
+const generation = vi.hoisted(() => ({ markReportFailed: vi.fn(), recordReportEvent: vi.fn() }));
+
+vi.mock("@/lib/db", () => ({ default: db, prisma: db }));
+vi.mock("@/lib/queue", () => queue);
+vi.mock("@/lib/report-generation", () => generation);
+
+function waitingReports(...ids: string[]) {
+  return ids.map((id) => ({ id }));
+}
+
+describe("startNextBatchReports", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    db.$queryRaw.mockResolvedValue([{ concurrency: 3 }]);
+    queue.enqueueReportGeneration.mockImplementation(async (id: string) => `job_${id}`);
+  });
+
+  it("claims only as many waiting reports as there are free slots", async () => {
+    db.report.count.mockResolvedValue(1);
+    db.report.findMany.mockResolvedValue(waitingReports("report_2", "report_3"));
+
+    await startNextBatchReports("batch_1");
+
+    expect(db.report.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 2 }));
+    expect(db.report.updateMany).toHaveBeenLastCalledWith({
+      where: { id: { in: ["report_2", "report_3"] } },
+      data: { jobId: "claimed" },
+    });
+    expect(queue.enqueueReportGeneration.mock.calls).toEqual([["report_2"], ["report_3"]]);
+    expect(db.report.update).toHaveBeenCalledWith({ where: { id: "report_3" }, data: { jobId: "job_report_3" } });
+  });
+
+  it("counts claimed reports as running, under the batch row lock", async () => {
+    db.report.count.mockResolvedValue(3);
+
+    await startNextBatchReports("batch_1");
+
+    const [sql] = db.$queryRaw.mock.calls[0];
+    expect(sql.join("?")).toContain("FOR UPDATE");
+    expect(db.report.count).toHaveBeenCalledWith({
+      where: { batchId: "batch_1", status: "processing", jobId: { not: null } },
+    });
+    expect(db.report.findMany).not.toHaveBeenCalled();
+    expect(queue.enqueueReportGeneration).not.toHaveBeenCalled();
+  });
+
+  it("gives stale claims their slot back before counting", async () => {
+    db.report.count.mockResolvedValue(0);
+    db.report.findMany.mockResolvedValue([]);
+    const now = Date.now();
+
+    await startNextBatchReports("batch_1");
+
+    const [release] = db.report.updateMany.mock.calls[0];
+    expect(release).toMatchObject({
+      where: { batchId: "batch_1", status: "processing", jobId: "claimed" },
+      data: { jobId: null },
+    });
+    expect(now - release.where.updatedAt.lt.getTime()).toBeGreaterThanOrEqual(10 * 60 * 1000 - 1000);
+    expect(db.report.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      db.report.count.mock.invocationCallOrder[0]
+    );
+  });
+
+  it("fails a report that can't be queued and starts the rest", async () => {
+    db.report.count.mockResolvedValue(0);
+    db.report.findMany.mockResolvedValue(waitingReports("report_1", "report_2"));
+    queue.enqueueReportGeneration.mockRejectedValueOnce(new Error("queue unavailable"));
+
+    await startNextBatchReports("batch_1");
+
+    expect(generation.markReportFailed).toHaveBeenCalledWith("report_1", "queue unavailable");
+    expect(db.report.update).toHaveBeenCalledWith({ where: { id: "report_2" }, data: { jobId: "job_report_2" } });
+  });
+
+  it("does nothing for a deleted batch", async () => {
+    db.$queryRaw.mockResolvedValue([]);
+
+    await startNextBatchReports("batch_1");
+
+    expect(db.report.count).not.toHaveBeenCalled();
+    expect(queue.enqueueReportGeneration).not.toHaveBeenCalled();
+  });
+});
+
+describe("releaseBatchSlot", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.$queryRaw.mockResolvedValue([{ concurrency: 1 }]);
+    db.report.count.mockResolvedValue(0);
+    db.report.findMany.mockResolvedValue([]);
+  });
+
+  it("starts the next report once a batch report finishes", async () => {
+    db.report.findUnique.mockResolvedValue({ batchId: "batch_1", status: "complete" });
+
+    await releaseBatchSlot("report_1");
+
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores reports outside a batch and ones still processing", async () => {
+    db.report.findUnique.mockResolvedValueOnce({ batchId: null, status: "complete" });
+    await releaseBatchSlot("report_1");
+    db.report.findUnique.mockResolvedValueOnce({ batchId: "batch_1", status: "processing" });
+    await releaseBatchSlot("report_2");
+
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe("resumeStalledBatches", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    db.report.count.mockResolvedValue(0);
+  });
+
+  it("starts every batch with waiting or claimed reports, even if one fails", async () => {
+    db.report.findMany
+      .mockResolvedValueOnce([{ batchId: "batch_1" }, { batchId: "batch_2" }])
+      .mockResolvedValue([]);
+    db.$queryRaw.mockRejectedValueOnce(new Error("lock timeout")).mockResolvedValue([{ concurrency: 3 }]);
+
+    await resumeStalledBatches();
+
+    expect(db.report.findMany.mock.calls[0][0]).toMatchObject({
+      where: { status: "processing", OR: [{ jobId: null }, { jobId: "claimed" }] },
+      distinct: ["batchId"],
+    });
+    expect(db.$transaction).toHaveBeenCalledTimes(2);
+    expect(db.report.count).toHaveBeenCalledWith({
+      where: { batchId: "batch_2", status: "processing", jobId: { not: null } },
+    });
+  });
+});
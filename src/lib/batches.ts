@@ -0,0 +1,203 @@
+/**
+ * Batch Generation
+ *
+ * A batch is a month-end run across many companies: one uploaded workbook per
+ * company, all for the same period. Reports in a batch wait (processing, no
+ * job id) until a slot is free, so at most `concurrency` of them are in the
+ * job queue at once; each finished report releases its slot to the next one.
+ */
+
+import prisma from "@/lib/db";
+import { enqueueReportGeneration } from "@/lib/queue";
+import { markReportFailed, recordReportEvent } from "@/lib/report-generation";
+import { getReportUsageTotals } from "@/lib/usage";
+import type { BatchReportStatus, GenerationBatchStatus, GenerationStage, ReportStatus } from "@/types";
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+// Placeholder job id while a claimed report is being queued, so it already
+// counts as running
+const CLAIMED_JOB_ID = "claimed";
+
+// A claim this old was never queued (the process died in between), so its
+// slot goes back to the batch
+const CLAIM_TIMEOUT_MINUTES = 10;
+
+/**
+ * Claim as many waiting reports as the batch has free slots for. The batch
+ * row is locked while counting and claiming, so two workers finishing at the
+ * same time can't both fill the same free slot.
+ */
+async function claimBatchSlots(batchId: string): Promise<string[]> {
+  return prisma.$transaction(async (tx) => {
+    const [batch] = await tx.$queryRaw<Array<{ concurrency: number }>>`
+      SELECT concurrency FROM generation_batches WHERE id = ${batchId} FOR UPDATE
+    `;
+
+    if (!batch) {
+      return [];
+    }
+
+    await tx.report.updateMany({
+      where: {
+        batchId,
+        status: "processing",
+        jobId: CLAIMED_JOB_ID,
+        updatedAt: { lt: new Date(Date.now() - CLAIM_TIMEOUT_MINUTES * 60 * 1000) },
+      },
+      data: { jobId: null },
+    });
+
+    const running = await tx.report.count({
+      where: { batchId, status: "processing", jobId: { not: null } },
+    });
+    const freeSlots = batch.concurrency - running;
+
+    if (freeSlots <= 0) {
+      return [];
+    }
+
+    const waiting = await tx.report.findMany({
+      where: { batchId, status: "processing", jobId: null, sourceFileUrl: { not: null } },
+      orderBy: { createdAt: "asc" },
+      take: freeSlots,
+      select: { id: true },
+    });
+    const ids = waiting.map((r) => r.id);
+
+    await tx.report.updateMany({
+      where: { id: { in: ids } },
+      data: { jobId: CLAIMED_JOB_ID },
+    });
+
+    return ids;
+  });
+}
+
+/**
+ * Queue as many waiting reports as the batch has free slots for.
+ */
+export async function startNextBatchReports(batchId: string): Promise<void> {
+  const claimed = await claimBatchSlots(batchId);
+
+  for (const id of claimed) {
+    try {
+      await recordReportEvent(id, "queued", "Started by batch");
+      const jobId = await enqueueReportGeneration(id);
+      await prisma.report.update({
+        where: { id },
+        data: { jobId },
+      });
+    } catch (error) {
+      console.error(`Failed to start batch report ${id}:`, error);
+      await markReportFailed(id, error instanceof Error ? error.message : "Failed to queue report");
+    }
+  }
+}
+
+/**
+ * Start waiting reports in every batch that has some, including slots held by
+ * claims that were never queued. Run by the worker's hourly check, since a
+ * batch whose slots are all stale claims has no finishing report to move it on.
+ */
+export async function resumeStalledBatches(): Promise<void> {
+  const waiting = await prisma.report.findMany({
+    where: {
+      batchId: { not: null },
+      status: "processing",
+      OR: [{ jobId: null }, { jobId: CLAIMED_JOB_ID }],
+    },
+    distinct: ["batchId"],
+    select: { batchId: true },
+  });
+
+  for (const { batchId } of waiting) {
+    try {
+      await startNextBatchReports(batchId!);
+    } catch (error) {
+      console.error(`Failed to resume batch ${batchId}:`, error);
+    }
+  }
+}
+
+/**
+ * Hand a finished report's slot to the next waiting report in its batch.
+ * Called by the worker once a run is complete or has permanently failed.
+ */
+export async function releaseBatchSlot(reportId: string): Promise<void> {
+  try {
+    const report = await prisma.report.findUnique({
+      where: { id: reportId },
+      select: { batchId: true, status: true },
+    });
+
+    if (!report?.batchId || report.status === "processing") {
+      return;
+    }
+
+    await startNextBatchReports(report.batchId);
+  } catch (error) {
+    console.error(`Failed to start the next batch report after ${reportId}:`, error);
+  }
+}
+
+/**
+ * Progress of every report in a batch, in upload order.
+ */
+export async function getBatchStatus(batchId: string): Promise<GenerationBatchStatus | null> {
+  const batch = await prisma.generationBatch.findUnique({
+    where: { id: batchId },
+    include: {
+      reports: {
+        orderBy: { createdAt: "asc" },
+        include: { company: { select: { name: true } } },
+      },
+    },
+  });
+
+  if (!batch) {
+    return null;
+  }
+
+  const usageTotals = await getReportUsageTotals(batch.reports.map((r) => r.id));
+
+  const reports = batch.reports.map((report): BatchReportStatus => {
+    const usage = usageTotals.get(report.id);
+    return {
+      reportId: report.id,
+      companyId: report.companyId,
+      companyName: report.company.name,
+      fileName: report.sourceFileName,
+      status: report.status as ReportStatus,
+      stage: report.stage as GenerationStage | null,
+      progress: report.progress,
+      stageUpdatedAt: report.stageUpdatedAt?.toISOString() ?? null,
+      startedAt: report.startedAt?.toISOString() ?? null,
+      completedAt: report.completedAt?.toISOString() ?? null,
+      attempts: report.attempts,
+      errorMessage: report.errorMessage,
+      waiting: report.status === "processing" && report.jobId === null,
+      inputTokens: usage?.inputTokens ?? null,
+      outputTokens: usage?.outputTokens ?? null,
+      costUsd: usage?.costUsd ?? null,
+    };
+  });
+
+  const waiting = reports.filter((r) => r.waiting).length;
+
+  return {
+    id: batch.id,
+    periodEnd: batch.periodEnd.toISOString(),
+    concurrency: batch.concurrency,
+    createdAt: batch.createdAt.toISOString(),
+    counts: {
+      total: reports.length,
+      waiting,
+      running: reports.filter((r) => r.status === "processing").length - waiting,
+      complete: reports.filter((r) => r.status === "complete").length,
+      failed: reports.filter((r) => r.status === "failed").length,
+    },
+    reports,
+  };
+}
@@ -14,9 +14,61 @@ const anthropic = new Anthropic({
 });
 
 // Model configuration
-const MODEL = "claude-sonnet-4-20250514";
+export const MODEL = "claude-sonnet-4-20250514";
+const CONTEXT_WINDOW = 200000;
 const MAX_TOKENS = 16000;
 const THINKING_BUDGET = 10000;
+const SECTION_MAX_TOKENS = 8000; // Single-section regeneration
+const SECTION_THINKING_BUDGET = 4000;
+
+// Room for the whole report prompt: the context window less the output
+// (which includes thinking)
+export const REPORT_INPUT_BUDGET = CONTEXT_WINDOW - MAX_TOKENS;
+export const SECTION_INPUT_BUDGET = CONTEXT_WINDOW - SECTION_MAX_TOKENS;
+
+export interface ClaudeUsage {
+  model: string;
+  messageId: string;
+  inputTokens: number; // Uncached input
+  outputTokens: number; // Includes thinking
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  thinkingTokens: number; // Estimated - the API bills thinking as output without a separate count
+  latencyMs: number;
+}
+
+// Prompt caching and extended thinking are newer than the SDK's types, so
+// requests that use them are typed here
+type CachedThinkingParams = Anthropic.MessageCreateParamsNonStreaming & {
+  system: Array<Anthropic.TextBlockParam & { cache_control: { type: "ephemeral" } }>;
+  thinking: { type: "enabled"; budget_tokens: number };
+};
+
+/**
+ * Token counts for a response. Cache and thinking fields are newer than the
+ * SDK's types, so they're read loosely.
+ */
+function readUsage(response: Anthropic.Message, startedAt: number): ClaudeUsage {
+  const usage = response.usage as Anthropic.Usage & {
+    cache_read_input_tokens?: number | null;
+    cache_creation_input_tokens?: number | null;
+  };
+  const thinkingText = (response.content as Array<{ type: string; thinking?: string }>)
+    .filter((block) => block.type === "thinking")
+    .map((block) => block.thinking ?? "")
+    .join("");
+
+  return {
+    model: response.model,
+    messageId: response.id,
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+    thinkingTokens: Math.min(Math.ceil(thinkingText.length / 4), usage.output_tokens),
+    latencyMs: Date.now() - startedAt,
+  };
+}
 
 /**
  * Build the system prompt based on client metric configuration.
@@ -67,23 +119,16 @@ ${JSON.stringify(config.enabledMetrics, null, 2)}
 }
 
 /**
- * Generate a financial report using Claude API.
+ * The system prompt and user message for a full report, so the prompt can
+ * be measured before it's sent.
  */
-export async function generateFinancialReport(
+export function buildReportPrompt(
   workbookData: string,
   companyName: string,
   periodEnd: string,
-  config: ClientMetricConfig | null
-): Promise<{
-  report: string;
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
-    cacheReadTokens?: number;
-  };
-}> {
-  const systemPrompt = buildSystemPrompt(config);
-
+  config: ClientMetricConfig | null,
+  priorPeriodContext?: string
+): { system: string; userMessage: string } {
   const userMessage = `Generate Month-End Financial Review for ${companyName}, period ending ${periodEnd}.
 
 REFERENCE EXAMPLE (match this format, structure, and level of detail):
@@ -93,13 +138,41 @@ ${EXAMPLE_REPORT}
 END OF REFERENCE EXAMPLE
 
 Now generate a report for this company using the financial data below. Match the formatting, table structures, section headers, and level of analytical detail shown in the reference example.
-
+${priorPeriodContext ? `
+${priorPeriodContext}
+END OF PRIOR PERIOD REPORT
+` : ""}
 FINANCIAL DATA:
 
 ${workbookData}`;
 
+  return { system: buildSystemPrompt(config), userMessage };
+}
+
+/**
+ * Generate a financial report using Claude API.
+ */
+export async function generateFinancialReport(
+  workbookData: string,
+  companyName: string,
+  periodEnd: string,
+  config: ClientMetricConfig | null,
+  priorPeriodContext?: string
+): Promise<{
+  report: string;
+  usage: ClaudeUsage;
+}> {
+  const { system: systemPrompt, userMessage } = buildReportPrompt(
+    workbookData,
+    companyName,
+    periodEnd,
+    config,
+    priorPeriodContext
+  );
+
   try {
-    const response = await anthropic.messages.create({
+    const startedAt = Date.now();
+    const params: CachedThinkingParams = {
       model: MODEL,
       max_tokens: MAX_TOKENS,
 
@@ -109,7 +182,6 @@ ${workbookData}`;
           type: "text",
           text: systemPrompt,
           // Enable caching for the system prompt (saves ~90% on repeated calls)
-          // @ts-ignore - cache_control is valid but not in types yet
           cache_control: { type: "ephemeral" },
         },
       ],
@@ -122,12 +194,12 @@ ${workbookData}`;
       ],
 
       // Enable extended thinking for complex financial analysis
-      // @ts-ignore - thinking is valid but may not be in types
       thinking: {
         type: "enabled",
         budget_tokens: THINKING_BUDGET,
       },
-    });
+    };
+    const response = await anthropic.messages.create(params);
 
     // Extract text content (ignore thinking blocks)
     const reportText = response.content
@@ -137,12 +209,7 @@ ${workbookData}`;
 
     return {
       report: reportText,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-        // @ts-ignore - cache tokens may not be in types
-        cacheReadTokens: response.usage.cache_read_input_tokens,
-      },
+      usage: readUsage(response, startedAt),
     };
   } catch (error) {
     console.error("Claude API error:", error);
@@ -152,6 +219,114 @@ ${workbookData}`;
   }
 }
 
+export interface SectionRequest {
+  name: string;
+  currentMarkdown?: string;
+  instructions?: string;
+}
+
+/**
+ * The system prompt and user message for regenerating one section, so the
+ * prompt can be measured before it's sent.
+ */
+export function buildSectionPrompt(
+  workbookData: string,
+  companyName: string,
+  periodEnd: string,
+  config: ClientMetricConfig | null,
+  section: SectionRequest
+): { system: string; userMessage: string } {
+  const userMessage = `Regenerate ONLY section "${section.name}" of the Month-End Financial Review for ${companyName}, period ending ${periodEnd}.
+
+Output just this one section, starting with its "## ${section.name}" header. Do not include any other sections, a cover page or appendices.
+${section.currentMarkdown ? `
+CURRENT VERSION OF THIS SECTION (keep the same structure and table layout unless the instructions say otherwise):
+
+${section.currentMarkdown}
+
+END OF CURRENT VERSION
+` : ""}${section.instructions ? `
+REVIEWER INSTRUCTIONS (apply these):
+${section.instructions}
+` : ""}
+FINANCIAL DATA:
+
+${workbookData}`;
+
+  return { system: buildSystemPrompt(config), userMessage };
+}
+
+/**
+ * Regenerate a single report section. Reuses the (cached) system prompt and
+ * the current section as the format reference instead of the full example
+ * report, so one fix costs a fraction of a full run.
+ */
+export async function generateReportSection(
+  workbookData: string,
+  companyName: string,
+  periodEnd: string,
+  config: ClientMetricConfig | null,
+  section: SectionRequest
+): Promise<{
+  markdown: string;
+  usage: ClaudeUsage;
+}> {
+  const { system: systemPrompt, userMessage } = buildSectionPrompt(
+    workbookData,
+    companyName,
+    periodEnd,
+    config,
+    section
+  );
+
+  try {
+    const startedAt = Date.now();
+    const params: CachedThinkingParams = {
+      model: MODEL,
+      max_tokens: SECTION_MAX_TOKENS,
+
+      system: [
+        {
+          type: "text",
+          text: systemPrompt,
+          cache_control: { type: "ephemeral" },
+        },
+      ],
+
+      messages: [
+        {
+          role: "user",
+          content: userMessage,
+        },
+      ],
+
+      thinking: {
+        type: "enabled",
+        budget_tokens: SECTION_THINKING_BUDGET,
+      },
+    };
+    const response = await anthropic.messages.create(params);
+
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === "text")
+      .map((block) => block.text)
+      .join("\n\n");
+
+    // Drop any preamble before the section header
+    const headerIndex = text.search(/^##\s+/m);
+
+    return {
+      markdown: (headerIndex >= 0 ? text.slice(headerIndex) : `## ${section.name}\n\n${text}`).trim(),
+      usage: readUsage(response, startedAt),
+    };
+  } catch (error) {
+    console.error("Claude API error:", error);
+    throw new Error(
+      `Failed to regenerate section: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
 /**
  * Test the Claude API connection.
  */
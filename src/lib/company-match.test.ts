@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { suggestCompany } from "@/lib/company-match";
+
+const companies = [
+  { id: "acme", name: "Acme Holdings LLC" },
+  { id: "blue", name: "Blue River Dental" },
+  { id: "blue_sky", name: "Blue Sky Logistics" },
+  { id: "csv", name: "CSV Analytics" },
+];
+
+describe("suggestCompany", () => {
+  it("matches the file name, ignoring legal suffixes", () => {
+    expect(suggestCompany("acme-march.xlsx", "", companies)).toEqual({
+      companyId: "acme",
+      source: "filename",
+      score: 1,
+    });
+  });
+
+  it("strips every extension uploads accept", () => {
+    expect(suggestCompany("Acme.csv", "", companies)?.companyId).toBe("acme");
+    expect(suggestCompany("acme.XLS", "", companies)?.companyId).toBe("acme");
+    // The extension isn't read as part of the name
+    expect(suggestCompany("march.csv", "", companies)).toBeNull();
+  });
+
+  it("prefers the full name in the workbook over a partial file name match", () => {
+    const suggestion = suggestCompany("blue.csv", "Blue Sky Logistics - Profit and Loss", companies);
+    expect(suggestion).toEqual({ companyId: "blue_sky", source: "contents", score: 1 });
+  });
+
+  it("doesn't guess between equally good matches", () => {
+    expect(suggestCompany("blue.xlsx", "", companies)).toBeNull();
+  });
+
+  it("needs at least half the company's name", () => {
+    expect(suggestCompany("river.xlsx", "", [{ id: "blue", name: "Blue River Dental Group Partners" }])).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Company Matching
+ *
+ * Suggests which company a workbook belongs to from its file name and the
+ * text near the top of its sheets (titles like "Acme Holdings LLC - Balance
+ * Sheet"). Runs in the browser on the batch generate page, so it must not
+ * import server modules.
+ */
+
+// Words that don't help tell companies apart
+const IGNORED_WORDS = new Set([
+  "the", "inc", "llc", "ltd", "limited", "corp", "corporation", "co", "company",
+  "group", "holdings", "plc", "lp", "llp", "pllc",
+]);
+
+// What isSourceFileName accepts (importers.ts is server-only)
+const SOURCE_FILE_EXTENSION = /\.(xlsx|xls|csv)$/i;
+
+// Only the top of each sheet is read - titles and headers live there
+const SHEET_ROWS_TO_READ = 10;
+
+export interface CompanySuggestion {
+  companyId: string;
+  source: "filename" | "contents";
+  score: number; // 0-1, share of the company's name that matched
+}
+
+function nameWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !IGNORED_WORDS.has(word));
+}
+
+function containsPhrase(haystack: string[], phrase: string[]): boolean {
+  return ` ${haystack.join(" ")} `.includes(` ${phrase.join(" ")} `);
+}
+
+/**
+ * Read the sheet names and the first rows of every sheet as plain text.
+ */
+export async function readWorkbookText(data: ArrayBuffer): Promise<string> {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.read(data, { type: "array", sheetRows: SHEET_ROWS_TO_READ });
+  const parts: string[] = [];
+
+  for (const sheetName of workbook.SheetNames) {
+    parts.push(sheetName);
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1 });
+    for (const row of rows) {
+      for (const cell of row) {
+        if (typeof cell === "string" && cell.trim()) {
+          parts.push(cell.trim());
+        }
+      }
+    }
+  }
+
+  return parts.join("\n");
+}
+
+/**
+ * Best matching company, or null if nothing matches well or two companies
+ * match equally well. The full name appearing in the sheets beats a partial
+ * match on the file name.
+ */
+export function suggestCompany(
+  fileName: string,
+  workbookText: string,
+  companies: Array<{ id: string; name: string }>
+): CompanySuggestion | null {
+  const fileWords = nameWords(fileName.replace(SOURCE_FILE_EXTENSION, ""));
+  const fileWordSet = new Set(fileWords);
+  const textWords = nameWords(workbookText);
+
+  const scored = companies
+    .map((company): CompanySuggestion | null => {
+      const words = nameWords(company.name);
+      if (words.length === 0) {
+        return null;
+      }
+
+      if (containsPhrase(textWords, words)) {
+        return { companyId: company.id, source: "contents", score: 1 };
+      }
+
+      const matched = words.filter((word) => fileWordSet.has(word)).length;
+      const score = containsPhrase(fileWords, words) ? 1 : matched / words.length;
+
+      // A single shared word out of a long name is too weak to suggest
+      return score >= 0.5 ? { companyId: company.id, source: "filename", score } : null;
+    })
+    .filter((suggestion): suggestion is CompanySuggestion => suggestion !== null)
+    .sort(
+      (a, b) =>
+        b.score - a.score || Number(b.source === "contents") - Number(a.source === "contents")
+    );
+
+  const [best, runnerUp] = scored;
+  if (!best || (runnerUp && runnerUp.score === best.score && runnerUp.source === best.source)) {
+    return null;
+  }
+
+  return best;
+}
@@ -0,0 +1,100 @@
+/**
+ * Email Transport
+ *
+ * Outgoing email goes through a transport chosen by EMAIL_TRANSPORT:
+ *   - smtp: sent with nodemailer using the SMTP_* settings
+ *   - mock: kept in an in-memory outbox and logged (local development, tests)
+ * Without EMAIL_TRANSPORT, SMTP is used when SMTP_HOST is set, otherwise mock.
+ */
+
+import nodemailer from "nodemailer";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: "smtp" | "mock";
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+export interface MockEmailTransport extends EmailTransport {
+  name: "mock";
+  outbox: EmailMessage[];
+}
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || "CleverProfits <reports@cleverprofits.com>";
+}
+
+export function createSmtpTransport(): EmailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST is not configured - cannot send email");
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || "587", 10);
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail({ from: getFromAddress(), ...message });
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+export function createMockTransport(): MockEmailTransport {
+  const outbox: EmailMessage[] = [];
+
+  return {
+    name: "mock",
+    outbox,
+    async send(message) {
+      outbox.push(message);
+      console.log(`[mock email] To: ${message.to} | ${message.subject}`);
+      return { messageId: `mock-${outbox.length}-${Date.now()}` };
+    },
+  };
+}
+
+const globalForEmail = globalThis as unknown as {
+  emailTransport: EmailTransport | undefined;
+};
+
+/**
+ * Get the configured transport (created once per process).
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!globalForEmail.emailTransport) {
+    const configured = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "mock");
+    globalForEmail.emailTransport = configured === "smtp" ? createSmtpTransport() : createMockTransport();
+  }
+  return globalForEmail.emailTransport;
+}
+
+/**
+ * Replace the transport, e.g. with a mock in a test or script.
+ */
+export function setEmailTransport(transport: EmailTransport): void {
+  globalForEmail.emailTransport = transport;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
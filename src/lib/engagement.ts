@@ -0,0 +1,143 @@
+/**
+ * Report Engagement
+ *
+ * Summarizes the access log for a company's published reports: which client
+ * users opened each report, how long after publishing, which sections they
+ * read and what they downloaded. Firm users are left out, since their views
+ * are previews rather than client engagement.
+ */
+
+import prisma from "@/lib/db";
+import { isFirmRole } from "@/lib/permissions";
+
+const ENGAGEMENT_ACTIONS = ["viewed", "section_viewed", "downloaded_pdf", "downloaded_excel"];
+
+export interface UserReportEngagement {
+  userId: string;
+  firstViewedAt: Date | null;
+  hoursToFirstView: number | null; // From publishing to the first view
+  views: number;
+  downloads: number;
+  sectionsViewed: string[]; // Section keys
+}
+
+export interface ReportEngagement {
+  id: string;
+  periodLabel: string | null;
+  periodEnd: Date;
+  publishedAt: Date | null;
+  sections: Array<{ sectionKey: string; sectionName: string }>;
+  users: UserReportEngagement[]; // One per client user, in the same order as `clients`
+  openedCount: number;
+}
+
+export interface CompanyEngagement {
+  clients: Array<{ id: string; email: string; lastLoginAt: Date | null }>;
+  reports: ReportEngagement[]; // Newest first
+  notOpenedLatest: Array<{ id: string; email: string; lastLoginAt: Date | null }>;
+}
+
+/**
+ * Engagement with a company's most recent published reports.
+ */
+export async function getCompanyEngagement(
+  companyId: string,
+  reportLimit: number = 6
+): Promise<CompanyEngagement> {
+  const [memberships, reports] = await Promise.all([
+    prisma.companyMembership.findMany({
+      where: { companyId },
+      include: { user: { select: { id: true, email: true, role: true, lastLoginAt: true } } },
+      orderBy: { user: { email: "asc" } },
+    }),
+    prisma.report.findMany({
+      where: { companyId, published: true },
+      orderBy: { periodEnd: "desc" },
+      take: reportLimit,
+      select: {
+        id: true,
+        periodLabel: true,
+        periodEnd: true,
+        publishedAt: true,
+        sections: {
+          orderBy: { sortOrder: "asc" },
+          select: { sectionKey: true, sectionName: true },
+        },
+      },
+    }),
+  ]);
+
+  const clients = memberships
+    .filter((m) => !isFirmRole(m.user.role))
+    .map(({ user }) => ({ id: user.id, email: user.email, lastLoginAt: user.lastLoginAt }));
+
+  const logs =
+    clients.length > 0 && reports.length > 0
+      ? await prisma.accessLog.findMany({
+          where: {
+            reportId: { in: reports.map((r) => r.id) },
+            userId: { in: clients.map((c) => c.id) },
+            action: { in: ENGAGEMENT_ACTIONS },
+          },
+          select: { userId: true, reportId: true, action: true, details: true, timestamp: true },
+          orderBy: { timestamp: "asc" },
+        })
+      : [];
+
+  const reportEngagement = reports.map((report): ReportEngagement => {
+    const reportLogs = logs.filter((log) => log.reportId === report.id);
+
+    const users = clients.map((client): UserReportEngagement => {
+      const userLogs = reportLogs.filter((log) => log.userId === client.id);
+      const firstView = userLogs.find((log) => log.action === "viewed");
+      const sectionsViewed = new Set<string>();
+
+      for (const log of userLogs) {
+        const sectionKey = (log.details as { sectionKey?: unknown } | null)?.sectionKey;
+        if (log.action === "section_viewed" && typeof sectionKey === "string") {
+          sectionsViewed.add(sectionKey);
+        }
+      }
+
+      return {
+        userId: client.id,
+        firstViewedAt: firstView?.timestamp ?? null,
+        hoursToFirstView:
+          firstView && report.publishedAt
+            ? Math.max(0, (firstView.timestamp.getTime() - report.publishedAt.getTime()) / 3_600_000)
+            : null,
+        views: userLogs.filter((log) => log.action === "viewed").length,
+        downloads: userLogs.filter((log) => log.action.startsWith("downloaded_")).length,
+        sectionsViewed: report.sections
+          .map((s) => s.sectionKey)
+          .filter((key) => sectionsViewed.has(key)),
+      };
+    });
+
+    return {
+      ...report,
+      users,
+      openedCount: users.filter((u) => u.firstViewedAt).length,
+    };
+  });
+
+  const latest = reportEngagement[0];
+  const notOpenedLatest = latest
+    ? clients.filter((_, index) => !latest.users[index].firstViewedAt)
+    : [];
+
+  return { clients, reports: reportEngagement, notOpenedLatest };
+}
+
+/**
+ * "3h", "2d" - rough time from publishing to first view.
+ */
+export function formatTimeToView(hours: number): string {
+  if (hours < 1) {
+    return "<1h";
+  }
+  if (hours < 48) {
+    return `${Math.round(hours)}h`;
+  }
+  return `${Math.round(hours / 24)}d`;
+}
@@ -0,0 +1,406 @@
+import * as XLSX from "xlsx";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type Cell,
+  classifyAccountType,
+  describeSheetTrim,
+  extractCoreSheets,
+  parseAmount,
+  parseFinancialStatements,
+  parsePeriodHeader,
+  preflightWorkbook,
+  readWorkbook,
+} from "@/lib/excel";
+import type { SheetMappingEntry } from "@/lib/sheet-roles";
+import { createLocalTokenCounter, getTokenCounter, setTokenCounter, type TokenCounter } from "@/lib/token-count";
+
+const tokenCounter = createLocalTokenCounter();
+
+function makeWorkbook(sheets: Record<string, Cell[][]>): Buffer {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+function mapping(role: SheetMappingEntry["role"], sheetName: string): SheetMappingEntry {
+  return { role, sheetName, headerRow: null, range: null };
+}
+
+const PROFIT_AND_LOSS: Cell[][] = [
+  ["Profit and Loss"],
+  ["", "Feb 2025", "Mar 2025"],
+  ["Income"],
+  ["Sales", 1000, 1200],
+  ["Total Income", 1000, 1200],
+  ["Expenses"],
+  ["Rent", 300, 300],
+  ["Total Expenses", 300, 300],
+  ["Net Income", 700, 900],
+];
+
+const BALANCE_SHEET: Cell[][] = [
+  ["Balance Sheet"],
+  ["", "Feb 2025", "Mar 2025"],
+  ["Bank"],
+  ["Operating Account", 5000, 5700],
+  ["Equity"],
+  ["Retained Earnings", 5000, 5700],
+];
+
+describe("parsePeriodHeader", () => {
+  it("reads a single month in the usual export formats", () => {
+    expect(parsePeriodHeader("Oct 2025")).toEqual({ key: "2025-10", label: "Oct 2025" });
+    expect(parsePeriodHeader("Oct-25")?.key).toBe("2025-10");
+    expect(parsePeriodHeader("October 1 - October 31, 2025")?.key).toBe("2025-10");
+    expect(parsePeriodHeader(new Date(2025, 9, 31))?.key).toBe("2025-10");
+  });
+
+  it("skips ranges, totals and headers without a year", () => {
+    expect(parsePeriodHeader("Jan - Oct, 2025")).toBeNull();
+    expect(parsePeriodHeader("Total Oct 2025")).toBeNull();
+    expect(parsePeriodHeader("October")).toBeNull();
+    expect(parsePeriodHeader(45_930)).toBeNull();
+  });
+});
+
+describe("parseAmount", () => {
+  it("reads numbers and formatted text", () => {
+    expect(parseAmount(1200.5)).toBe(1200.5);
+    expect(parseAmount("$1,234.50")).toBe(1234.5);
+    expect(parseAmount("(1,234)")).toBe(-1234);
+    expect(parseAmount("-£50")).toBe(-50);
+  });
+
+  it("treats dashes and text as empty", () => {
+    expect(parseAmount("-")).toBeNull();
+    expect(parseAmount("—")).toBeNull();
+    expect(parseAmount("n/a")).toBeNull();
+    expect(parseAmount(null)).toBeNull();
+  });
+});
+
+describe("classifyAccountType", () => {
+  it("maps account types and section headings to classes", () => {
+    expect(classifyAccountType("Income")).toBe("revenue");
+    expect(classifyAccountType("Cost of Goods Sold")).toBe("cogs");
+    expect(classifyAccountType("Other Income")).toBe("other_income");
+    expect(classifyAccountType("Other Expense")).toBe("other_expense");
+    expect(classifyAccountType("Expenses")).toBe("operating_expense");
+    expect(classifyAccountType("Bank")).toBe("cash");
+    expect(classifyAccountType("Accounts Receivable (A/R)")).toBe("current_asset");
+    expect(classifyAccountType("Fixed Assets")).toBe("noncurrent_asset");
+    expect(classifyAccountType("Credit Card")).toBe("current_liability");
+    expect(classifyAccountType("Long Term Liabilities")).toBe("noncurrent_liability");
+    expect(classifyAccountType("Owner's Equity")).toBe("equity");
+  });
+
+  it("leaves combined and unknown headings unclassified", () => {
+    expect(classifyAccountType("Liabilities and Equity")).toBeNull();
+    expect(classifyAccountType("Miscellaneous")).toBeNull();
+    expect(classifyAccountType("")).toBeNull();
+  });
+});
+
+describe("parseFinancialStatements", () => {
+  const DETAILED_PROFIT_AND_LOSS: Cell[][] = [
+    ["Acme Holdings", null, null],
+    ["Profit and Loss", null, null],
+    [null, "Sep 2025", "Oct 2025"],
+    ["Income", null, null],
+    ["Sales", 10_000, 12_000],
+    ["Total Income", 10_000, 12_000],
+    ["Cost of Goods Sold", null, null],
+    ["Materials", 4000, 4500],
+    ["Total Cost of Goods Sold", 4000, 4500],
+    ["Gross Profit", 6000, 7500],
+    ["Expenses", null, null],
+    ["Payroll:Salaries", 2000, 2000],
+    ["Depreciation Expense", 500, 500],
+    ["Consulting", 300, "(100)"],
+    ["Total Expenses", 2800, 2400],
+    ["Net Operating Income", 3200, 5100],
+    ["Other Income", null, null],
+    ["Interest Earned", 50, 60],
+    ["Net Income", 3250, 5160],
+  ];
+
+  const CHART_OF_ACCOUNTS: Cell[][] = [
+    ["Account", "Type"],
+    ["Payroll:Salaries", "Expense"],
+    ["Consulting", "Other Expense"],
+  ];
+
+  const STATEMENT_BALANCE_SHEET: Cell[][] = [
+    [null, "Sep 2025", "Oct 2025"],
+    ["Current Assets", null, null],
+    ["Bank", null, null],
+    ["Operating Account", 20_000, 25_000],
+    ["Total Bank", 20_000, 25_000],
+    ["Accounts Receivable", 8000, 7000],
+    ["Total Current Assets", 28_000, 32_000],
+    ["Fixed Assets", null, null],
+    ["Equipment", 15_000, 14_500],
+    ["Liabilities and Equity", null, null],
+    ["Current Liabilities", null, null],
+    ["Accounts Payable", 6000, 5000],
+    ["Equity", null, null],
+    ["Retained Earnings", 37_000, 41_500],
+  ];
+
+  it("classifies accounts by the chart of accounts, then by section", () => {
+    const workbook = readWorkbook(
+      makeWorkbook({
+        "PL - RAW": DETAILED_PROFIT_AND_LOSS,
+        "BS - RAW": STATEMENT_BALANCE_SHEET,
+        "Chart of Accounts": CHART_OF_ACCOUNTS,
+      })
+    );
+    const statements = parseFinancialStatements(workbook);
+
+    const lines = statements.profitAndLoss!.lines;
+    expect(statements.profitAndLoss!.periods.map((p) => p.key)).toEqual(["2025-09", "2025-10"]);
+    expect(lines.find((l) => l.account === "Materials")).toMatchObject({
+      section: "Cost of Goods Sold",
+      accountClass: "cogs",
+    });
+    expect(lines.find((l) => l.account === "Consulting")).toMatchObject({
+      accountClass: "other_expense",
+      amounts: [300, -100],
+    });
+    expect(lines.find((l) => l.account === "Gross Profit")?.isTotal).toBe(true);
+    expect(statements.warnings).toEqual([]);
+  });
+
+  it("computes headline figures from the account lines rather than the export's totals", () => {
+    const workbook = readWorkbook(
+      makeWorkbook({
+        "PL - RAW": DETAILED_PROFIT_AND_LOSS,
+        "BS - RAW": STATEMENT_BALANCE_SHEET,
+        "Chart of Accounts": CHART_OF_ACCOUNTS,
+      })
+    );
+    const { income, balance } = parseFinancialStatements(workbook);
+
+    expect(income[1]).toEqual({
+      period: { key: "2025-10", label: "Oct 2025" },
+      revenue: 12_000,
+      cogs: 4500,
+      grossProfit: 7500,
+      operatingExpenses: 2500,
+      depreciationAmortization: 500,
+      ebitda: 5500,
+      operatingIncome: 5000,
+      netOtherIncome: 160,
+      netIncome: 5160,
+    });
+    expect(balance[0]).toEqual({
+      period: { key: "2025-09", label: "Sep 2025" },
+      cash: 20_000,
+      currentAssets: 28_000,
+      totalAssets: 43_000,
+      currentLiabilities: 6000,
+      totalLiabilities: 6000,
+      equity: 37_000,
+      workingCapital: 22_000,
+    });
+  });
+
+  it("falls back to section headings without a chart of accounts", () => {
+    const workbook = readWorkbook(
+      makeWorkbook({ "PL - RAW": PROFIT_AND_LOSS, "BS - RAW": [["Balance Sheet"], ["Bank", 5000]] })
+    );
+    const statements = parseFinancialStatements(workbook);
+
+    expect(statements.income.map((f) => f.netIncome)).toEqual([700, 900]);
+    expect(statements.balanceSheet).toBeNull();
+    expect(statements.warnings).toEqual([
+      "No chart of accounts sheet; accounts classified by statement section headings",
+      "'BS - RAW' has no monthly period columns",
+    ]);
+  });
+});
+
+describe("preflightWorkbook", () => {
+  it("finds required sheets by template name or alias", async () => {
+    const buffer = makeWorkbook({ "PL - RAW": PROFIT_AND_LOSS, "Balance Sheet": BALANCE_SHEET });
+    const preflight = await preflightWorkbook(buffer, { tokenCounter });
+
+    expect(preflight.blockingIssues).toEqual([]);
+    const bySheet = Object.fromEntries(preflight.sheets.map((s) => [s.role, s]));
+    expect(bySheet.income_statement).toMatchObject({ sheetName: "PL - RAW", matchedBy: "name", included: true });
+    expect(bySheet.balance_sheet).toMatchObject({ sheetName: "Balance Sheet", matchedBy: "alias" });
+    expect(bySheet.income_statement.periodColumns).toEqual(["Feb 2025", "Mar 2025"]);
+  });
+
+  it("blocks when a required sheet is missing", async () => {
+    const buffer = makeWorkbook({ "PL - RAW": PROFIT_AND_LOSS });
+    const preflight = await preflightWorkbook(buffer, { tokenCounter });
+
+    expect(preflight.blockingIssues).toEqual(["Balance sheet not found (expected a tab named 'BS - RAW')"]);
+  });
+
+  it("names the mapped tab when it's missing, and falls back to the defaults", async () => {
+    const buffer = makeWorkbook({ "PL - RAW": PROFIT_AND_LOSS, "BS - RAW": BALANCE_SHEET });
+    const preflight = await preflightWorkbook(buffer, {
+      tokenCounter,
+      mappings: [mapping("balance_sheet", "Balance Sheet 2025")],
+    });
+
+    expect(preflight.blockingIssues).toEqual([]);
+    expect(preflight.warnings).toContain(
+      "Balance sheet: mapped tab 'Balance Sheet 2025' isn't in the workbook, using 'BS - RAW'"
+    );
+  });
+
+  it("uses a tab mapped to several roles only once", async () => {
+    const buffer = makeWorkbook({ Statements: PROFIT_AND_LOSS, "BS - RAW": BALANCE_SHEET });
+    const preflight = await preflightWorkbook(buffer, {
+      tokenCounter,
+      mappings: [mapping("income_statement", "Statements"), mapping("monthly_comparative", "Statements")],
+    });
+
+    const comparative = preflight.sheets.find((s) => s.role === "monthly_comparative")!;
+    expect(comparative).toMatchObject({ sheetName: "Statements", duplicateOf: "income_statement", included: false });
+    expect(preflight.totalTokens).toBe(
+      preflight.sheets.filter((s) => s.included).reduce((sum, s) => sum + s.estimatedTokens, 0)
+    );
+  });
+
+  it("warns when a statement has no month columns", async () => {
+    const buffer = makeWorkbook({
+      "PL - RAW": [["", "Total"], ["Sales", 1000]],
+      "BS - RAW": BALANCE_SHEET,
+    });
+    const preflight = await preflightWorkbook(buffer, { tokenCounter });
+
+    expect(preflight.warnings).toContain(
+      "Income statement ('PL - RAW') has no month columns; figures won't be computed from it"
+    );
+  });
+
+  it("blocks a required sheet that doesn't fit the budget even trimmed", async () => {
+    const buffer = makeWorkbook({ "PL - RAW": PROFIT_AND_LOSS, "BS - RAW": BALANCE_SHEET });
+    const preflight = await preflightWorkbook(buffer, { tokenCounter, maxTokens: 10 });
+
+    expect(preflight.blockingIssues).toContain(
+      "Income statement ('PL - RAW') is too large for the token budget, even trimmed"
+    );
+  });
+});
+
+describe("extractCoreSheets", () => {
+  const configured = getTokenCounter();
+
+  afterEach(() => {
+    setTokenCounter(configured);
+  });
+
+  it("sizes sheets with the local estimate rather than the configured counter", async () => {
+    const count = vi.fn(async () => 0);
+    setTokenCounter({ name: "api", count });
+
+    const buffer = makeWorkbook({ "PL - RAW": PROFIT_AND_LOSS, "BS - RAW": BALANCE_SHEET });
+    const extraction = await extractCoreSheets(buffer);
+
+    expect(count).not.toHaveBeenCalled();
+    expect(extraction.sheets.map((s) => s.name)).toEqual(["PL - RAW", "BS - RAW"]);
+    expect(extraction.totalTokens).toBeGreaterThan(0);
+  });
+});
+
+describe("sheet trimming", () => {
+  // Jan 2024 - Mar 2025: two months before the 13 kept for a March 2025 report
+  const MONTHS = Array.from({ length: 15 }, (_, i) =>
+    new Date(2024, i, 1).toLocaleString("en-US", { month: "short", year: "numeric" })
+  );
+
+  const monthly = (label: string, amount: number | null): Cell[] => [label, ...MONTHS.map(() => amount)];
+
+  // Sheets holding the given text are "too large", anything else fits
+  function oversizedWhile(text: string): TokenCounter {
+    return { name: "local", count: async (input) => (input.text.includes(text) ? 1000 : 10) };
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("collapses months before the trailing window into one total column", async () => {
+    const buffer = makeWorkbook({
+      "PL - RAW": [["", ...MONTHS], monthly("Income", null), monthly("Sales", 100), monthly("Total Income", 100)],
+      "BS - RAW": BALANCE_SHEET,
+    });
+    const extraction = await extractCoreSheets(buffer, {
+      maxTokens: 500,
+      periodEnd: "2025-03-31",
+      tokenCounter: oversizedWhile(",Jan 2024"),
+    });
+
+    const [trim] = extraction.trimmedSheets;
+    expect(trim).toEqual({
+      role: "income_statement",
+      sheetName: "PL - RAW",
+      originalTokens: 1000,
+      trimmedTokens: 10,
+      steps: ["collapsed 2 months (Jan 2024 – Feb 2024) into one total column"],
+    });
+    const [header, , sales] = extraction.sheets[0].csv.split("\n");
+    expect(header).toMatch(/^,Total Jan 2024 – Feb 2024,Mar 2024,/);
+    expect(sales).toMatch(/^Sales,200,100,/);
+    expect(describeSheetTrim(trim)).toBe(
+      "PL - RAW: collapsed 2 months (Jan 2024 – Feb 2024) into one total column (~1,000 → 10 tokens)"
+    );
+  });
+
+  it("drops early months from the balance sheet rather than adding them up", async () => {
+    const buffer = makeWorkbook({
+      "PL - RAW": PROFIT_AND_LOSS,
+      "BS - RAW": [["", ...MONTHS], monthly("Bank", null), monthly("Operating Account", 5000)],
+    });
+    const extraction = await extractCoreSheets(buffer, {
+      maxTokens: 500,
+      periodEnd: "2025-03-31",
+      tokenCounter: oversizedWhile(",Jan 2024"),
+    });
+
+    expect(extraction.trimmedSheets[0].steps).toEqual(["dropped 2 months (Jan 2024 – Feb 2024)"]);
+    expect(extraction.sheets[1].csv.split("\n")[0]).toMatch(/^,Mar 2024,/);
+  });
+
+  it("rolls sub-accounts up into their parent account", async () => {
+    const buffer = makeWorkbook({
+      "PL - RAW": [
+        ["", "Feb 2025", "Mar 2025"],
+        ["Expenses"],
+        ["Payroll:Salaries", 1000, 1100],
+        ["Payroll:Taxes", 100, 110],
+        ["Rent", 300, 300],
+      ],
+      "BS - RAW": BALANCE_SHEET,
+    });
+    const extraction = await extractCoreSheets(buffer, { maxTokens: 500, tokenCounter: oversizedWhile("Payroll:") });
+
+    expect(extraction.trimmedSheets[0].steps).toEqual(["summarised 2 sub-account rows into 1 parent account totals"]);
+    expect(extraction.sheets[0].csv.split("\n").slice(1, 4)).toEqual(["Expenses", "Payroll,1100,1210", "Rent,300,300"]);
+  });
+
+  it("replaces detail rows with the section total that covers them", async () => {
+    const buffer = makeWorkbook({ "PL - RAW": PROFIT_AND_LOSS, "BS - RAW": BALANCE_SHEET });
+    const extraction = await extractCoreSheets(buffer, { maxTokens: 500, tokenCounter: oversizedWhile("Rent") });
+
+    expect(extraction.trimmedSheets[0].steps).toEqual(["replaced 2 detail rows with their section totals"]);
+    expect(extraction.sheets[0].csv).not.toContain("Sales");
+    expect(extraction.sheets[0].csv).toContain("Total Income,1000,1200");
+  });
+
+  it("leaves out a sheet that doesn't fit even trimmed", async () => {
+    const buffer = makeWorkbook({ "PL - RAW": PROFIT_AND_LOSS, "BS - RAW": BALANCE_SHEET });
+    const extraction = await extractCoreSheets(buffer, { maxTokens: 500, tokenCounter: oversizedWhile("Profit") });
+
+    expect(extraction.trimmedSheets[0]).toMatchObject({ sheetName: "PL - RAW", trimmedTokens: null });
+    expect(extraction.sheets.map((s) => s.name)).toEqual(["BS - RAW"]);
+    expect(extraction.missingRequiredSheets).toEqual(["PL - RAW"]);
+  });
+});
@@ -2,7 +2,12 @@
  * Excel Processing Module
  * 
  * Extracts core financial sheets from Excel workbooks and converts to
- * CSV format for Claude API consumption.
+ * CSV format for Claude API consumption. Also parses the raw P&L and balance
+ * sheet into account-level data so headline figures (revenue, gross profit,
+ * EBITDA, net income, ...) are computed here rather than by the model.
+ *
+ * Sheets are found by role (see sheet-roles.ts): a company's sheet mapping
+ * first, then our template's tab names and their common aliases.
  * 
  * Based on validated analysis:
  * - Full workbooks: 989K-2.9M tokens (TOO LARGE)
@@ -10,36 +15,9 @@
  */
 
 import * as XLSX from "xlsx";
-
-// Core sheets required for financial reporting (in priority order)
-export const CORE_SHEETS = [
-  // Primary financial statements (ALWAYS required)
-  "PL - RAW",           // Income statement (raw data)
-  "Dynamic PL",         // Formatted income statement
-  "BS - RAW",           // Balance sheet (raw data)
-  
-  // Supporting data (high priority)
-  "Weekly Financial Review",  // Summary dashboard
-  "Monthly Comparative",       // Month-over-month trends
-  
-  // Additional context (if available)
-  "Revenue Chart Data",  // Revenue breakdown by line/product
-  "COA - RAW",          // Chart of accounts
-  
-  // Budget/forecast (if available)
-  "Budget",
-  "Forecast",
-  "Annual P&L",
-];
-
-// Alternative sheet name patterns (some clients use different naming)
-export const SHEET_NAME_ALIASES: Record<string, string[]> = {
-  "PL - RAW": ["P&L - RAW", "PL-RAW", "P&L RAW", "Income Statement", "PL Raw"],
-  "Dynamic PL": ["Dynamic P&L", "DynamicPL", "Formatted PL", "P&L"],
-  "BS - RAW": ["BS-RAW", "BS RAW", "Balance Sheet", "BS Raw"],
-  "Weekly Financial Review": ["Weekly Review", "Financial Review", "Dashboard"],
-  "Monthly Comparative": ["Monthly Comparison", "MoM Comparative", "Comparative"],
-};
+import { SHEET_ROLES, type SheetMappingEntry, type SheetRole } from "@/lib/sheet-roles";
+import { createLocalTokenCounter, type TokenCounter } from "@/lib/token-count";
+import type { SheetPreflight, WorkbookPreflight } from "@/types";
 
 export interface ExtractedSheet {
   name: string;
@@ -51,33 +29,167 @@ export interface ExtractionResult {
   sheets: ExtractedSheet[];
   totalTokens: number;
   missingRequiredSheets: string[];
+  trimmedSheets: SheetTrim[]; // Sheets cut down (or left out) to fit maxTokens
   allSheetNames: string[];
+  statements: FinancialStatements;
+}
+
+// ===========================================
+// FINANCIAL STATEMENT MODEL
+// ===========================================
+
+export type AccountClass =
+  | "revenue"
+  | "cogs"
+  | "operating_expense"
+  | "other_income"
+  | "other_expense"
+  | "cash"
+  | "current_asset"
+  | "noncurrent_asset"
+  | "current_liability"
+  | "noncurrent_liability"
+  | "equity";
+
+export interface StatementPeriod {
+  key: string; // "2025-10"
+  label: string; // "Oct 2025"
+}
+
+export interface StatementLine {
+  account: string;
+  section: string | null; // Nearest heading row above the line
+  accountClass: AccountClass | null;
+  isTotal: boolean; // Subtotal/total rows (excluded from computed figures)
+  amounts: Array<number | null>; // Aligned with the statement's periods
+}
+
+export interface FinancialStatement {
+  sheetName: string;
+  periods: StatementPeriod[];
+  lines: StatementLine[];
+}
+
+export interface IncomeFigures {
+  period: StatementPeriod;
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+  operatingExpenses: number;
+  depreciationAmortization: number;
+  ebitda: number;
+  operatingIncome: number;
+  netOtherIncome: number;
+  netIncome: number;
+}
+
+export interface BalanceFigures {
+  period: StatementPeriod;
+  cash: number;
+  currentAssets: number;
+  totalAssets: number;
+  currentLiabilities: number;
+  totalLiabilities: number;
+  equity: number;
+  workingCapital: number;
+}
+
+export interface FinancialStatements {
+  profitAndLoss: FinancialStatement | null;
+  balanceSheet: FinancialStatement | null;
+  monthlyComparative: FinancialStatement | null;
+  income: IncomeFigures[];
+  balance: BalanceFigures[];
+  warnings: string[];
+}
+
+export interface ResolvedSheet {
+  role: SheetRole;
+  label: string;
+  sheetName: string | null; // Actual tab, null when not found
+  matchedBy: "mapping" | "name" | "alias" | null;
+  matchedName: string | null; // The mapped name, template name or alias that matched
+  mappedSheetName: string | null; // Tab the company's mapping asks for (even if missing)
+  expectedName: string; // The mapped tab, or the template name when unmapped
+  range: string | null; // A1 range to read (from the mapping's header row/range)
+  required: boolean;
 }
 
 /**
- * Find a sheet by name, checking aliases and case-insensitive matches.
+ * Find a sheet by exact name, ignoring case and surrounding spaces.
  */
-function findSheetByName(workbook: XLSX.WorkBook, targetName: string): string | null {
-  // Direct match (case-insensitive)
-  for (const sheetName of workbook.SheetNames) {
-    if (sheetName.toLowerCase() === targetName.toLowerCase()) {
-      return sheetName;
-    }
+function findSheet(workbook: XLSX.WorkBook, name: string): string | null {
+  const target = name.trim().toLowerCase();
+  return workbook.SheetNames.find((sheetName) => sheetName.trim().toLowerCase() === target) ?? null;
+}
+
+/**
+ * The part of a sheet a mapping asks for: its range, starting no higher
+ * than the header row. Null means the whole sheet.
+ */
+function getMappedRange(sheet: XLSX.WorkSheet, mapping: SheetMappingEntry): string | null {
+  if (!mapping.range && !mapping.headerRow) return null;
+
+  const bounds = XLSX.utils.decode_range(mapping.range ?? sheet["!ref"] ?? "A1");
+  if (mapping.headerRow) {
+    bounds.s.r = Math.max(bounds.s.r, mapping.headerRow - 1);
   }
+  return XLSX.utils.encode_range(bounds);
+}
+
+/**
+ * Find the tab for every sheet role: the company's mapping first, then the
+ * template name, then its aliases. A mapped tab that isn't in the workbook
+ * falls back to the defaults (matchedBy shows which one was used).
+ */
+export function resolveSheets(workbook: XLSX.WorkBook, mappings: SheetMappingEntry[] = []): ResolvedSheet[] {
+  return SHEET_ROLES.map(({ role, label, defaultName, aliases, required = false }) => {
+    const mapping = mappings.find((m) => m.role === role);
+    const base = {
+      role,
+      label,
+      mappedSheetName: mapping?.sheetName ?? null,
+      expectedName: mapping?.sheetName ?? defaultName,
+      range: null,
+      required,
+    };
+
+    if (mapping) {
+      const sheetName = findSheet(workbook, mapping.sheetName);
+      if (sheetName) {
+        return {
+          ...base,
+          sheetName,
+          matchedBy: "mapping" as const,
+          matchedName: mapping.sheetName,
+          range: getMappedRange(workbook.Sheets[sheetName], mapping),
+        };
+      }
+    }
+
+    const byName = findSheet(workbook, defaultName);
+    if (byName) {
+      return { ...base, sheetName: byName, matchedBy: "name" as const, matchedName: defaultName };
+    }
 
-  // Check aliases
-  const aliases = SHEET_NAME_ALIASES[targetName];
-  if (aliases) {
     for (const alias of aliases) {
-      for (const sheetName of workbook.SheetNames) {
-        if (sheetName.toLowerCase() === alias.toLowerCase()) {
-          return sheetName;
-        }
+      const byAlias = findSheet(workbook, alias);
+      if (byAlias) {
+        return { ...base, sheetName: byAlias, matchedBy: "alias" as const, matchedName: alias };
       }
     }
-  }
 
-  return null;
+    return { ...base, sheetName: null, matchedBy: null, matchedName: null };
+  });
+}
+
+/**
+ * The worksheet for a resolved sheet, limited to its mapped range.
+ */
+function getResolvedSheet(workbook: XLSX.WorkBook, resolved: ResolvedSheet): XLSX.WorkSheet | null {
+  if (!resolved.sheetName) return null;
+  const sheet = workbook.Sheets[resolved.sheetName];
+  return resolved.range ? { ...sheet, "!ref": resolved.range } : sheet;
 }
 
 /**
@@ -90,78 +202,493 @@ function sheetToCsv(sheet: XLSX.WorkSheet): string {
   });
 }
 
+export function readWorkbook(buffer: Buffer | ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(buffer, {
+    type: "buffer",
+    cellDates: true,   // Parse dates properly
+    cellNF: true,      // Include number formats
+    cellStyles: false, // Skip styles (not needed)
+  });
+}
+
+// ===========================================
+// SHEET TRIMMING
+// ===========================================
+
+// Months kept column-by-column when a sheet has to be trimmed (matches the
+// 13 months of verified figures); earlier ones are collapsed
+const TRAILING_MONTHS = 13;
+
+export interface SheetTrim {
+  role: SheetRole;
+  sheetName: string;
+  originalTokens: number;
+  trimmedTokens: number | null; // Null when it didn't fit even after trimming
+  steps: string[]; // What was trimmed, in order
+}
+
+type TrimStep = (rows: Cell[][]) => { rows: Cell[][]; step: string } | null;
+
+function isBlank(cell: Cell | undefined): boolean {
+  return cellText(cell ?? null) === "";
+}
+
+function rowsToCsv(rows: Cell[][]): string {
+  return sheetToCsv(XLSX.utils.aoa_to_sheet(rows));
+}
+
+const dropEmptyColumns: TrimStep = (rows) => {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const keep = Array.from({ length: width }, (_, column) => column).filter((column) =>
+    rows.some((row) => !isBlank(row[column]))
+  );
+  if (keep.length === width) return null;
+
+  return {
+    rows: rows.map((row) => keep.map((column) => row[column] ?? null)),
+    step: `dropped ${width - keep.length} empty columns`,
+  };
+};
+
 /**
- * Estimate token count from text.
- * Rule of thumb: 1 token ≈ 4 characters
+ * Replace the months before the trailing window with one total column
+ * (or drop them, for balances that can't be added up).
  */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+function collapseEarlyPeriods(periodEnd: string | undefined, additive: boolean): TrimStep {
+  return (rows) => {
+    const header = findPeriodHeader(rows);
+    if (!header) return null;
+
+    const keys = header.periodColumns.map((p) => p.period.key).sort();
+    const endKey = periodEnd?.slice(0, 7) ?? keys[keys.length - 1];
+    const trailing = keys.filter((key) => key <= endKey).slice(-TRAILING_MONTHS);
+    if (trailing.length < TRAILING_MONTHS) return null;
+
+    // Every column headed by an earlier month, including "% of" duplicates
+    const cutoff = trailing[0];
+    const early = new Set<number>();
+    rows[header.headerIndex].forEach((cell, column) => {
+      const period = parsePeriodHeader(cell);
+      if (period && period.key < cutoff) early.add(column);
+    });
+    if (early.size === 0) return null;
+
+    const earlyPeriods = header.periodColumns
+      .filter((p) => p.period.key < cutoff)
+      .sort((a, b) => a.period.key.localeCompare(b.period.key));
+    const firstEarly = Math.min(...early);
+    const span = `${earlyPeriods[0].period.label} – ${earlyPeriods[earlyPeriods.length - 1].period.label}`;
+
+    const collapsed = rows.map((row, index) => {
+      const kept = row.filter((_, column) => !early.has(column));
+      if (!additive) return kept;
+
+      let total: Cell = null;
+      if (index === header.headerIndex) {
+        total = `Total ${span}`;
+      } else if (index > header.headerIndex) {
+        const amounts = earlyPeriods
+          .map(({ column }) => parseAmount(row[column] ?? null))
+          .filter((amount): amount is number => amount !== null);
+        total = amounts.length > 0 ? roundCents(amounts.reduce((sum, amount) => sum + amount, 0)) : null;
+      }
+
+      const insertAt = row.slice(0, firstEarly).filter((_, column) => !early.has(column)).length;
+      return [...kept.slice(0, insertAt), total, ...kept.slice(insertAt)];
+    });
+
+    return {
+      rows: collapsed,
+      step: additive
+        ? `collapsed ${earlyPeriods.length} months (${span}) into one total column`
+        : `dropped ${earlyPeriods.length} months (${span})`,
+    };
+  };
 }
 
 /**
- * Extract core financial sheets from an Excel workbook.
- * 
- * @param buffer - Excel file as Buffer or ArrayBuffer
- * @param maxTokens - Maximum tokens to include (default 150K for Claude headroom)
- * @returns Extracted sheets and metadata
+ * Roll detail rows up to account-level subtotals: sub-accounts
+ * ("Payroll:Salaries") into their parent account, otherwise the lines of
+ * each section that closes with a "Total ..." row into that total.
  */
-export function extractCoreSheets(
-  buffer: Buffer | ArrayBuffer,
-  maxTokens: number = 150000
-): ExtractionResult {
-  // Read workbook
-  const workbook = XLSX.read(buffer, {
-    type: "buffer",
-    cellDates: true,   // Parse dates properly
-    cellNF: true,      // Include number formats
-    cellStyles: false, // Skip styles (not needed)
-  });
+const summarizeDetailRows: TrimStep = (rows) => {
+  const header = findPeriodHeader(rows);
+  if (!header) return null;
 
-  const result: ExtractionResult = {
-    sheets: [],
-    totalTokens: 0,
-    missingRequiredSheets: [],
-    allSheetNames: workbook.SheetNames,
+  const firstAmountColumn = Math.min(...header.periodColumns.map((p) => p.column));
+  const labelOf = (row: Cell[]) => {
+    const column = row.slice(0, firstAmountColumn).findIndex((cell) => !isBlank(cell));
+    return column === -1 ? null : { column, text: cellText(row[column]) };
   };
+  const hasAmounts = (row: Cell[]) => row.slice(firstAmountColumn).some((cell) => parseAmount(cell) !== null);
 
-  // Extract each core sheet
-  for (const targetName of CORE_SHEETS) {
-    const actualName = findSheetByName(workbook, targetName);
+  const head = rows.slice(0, header.headerIndex + 1);
+  const body = rows.slice(header.headerIndex + 1);
 
-    if (actualName) {
-      const sheet = workbook.Sheets[actualName];
-      const csv = sheetToCsv(sheet);
-      const tokens = estimateTokens(csv);
+  if (body.some((row) => labelOf(row)?.text.includes(":"))) {
+    const output: Cell[][] = [];
+    let parent: string | null = null;
+    let detailCount = 0;
+    let parentCount = 0;
 
-      // Check if adding this sheet would exceed limit
-      if (result.totalTokens + tokens > maxTokens) {
-        console.warn(
-          `Skipping '${actualName}' (${tokens.toLocaleString()} tokens) - would exceed limit`
-        );
+    for (const row of body) {
+      const label = labelOf(row);
+      if (!label || !label.text.includes(":")) {
+        output.push(row);
+        parent = null;
         continue;
       }
 
-      result.sheets.push({
-        name: actualName,
-        csv,
-        estimatedTokens: tokens,
+      const name = label.text.split(":")[0].trim();
+      detailCount++;
+      if (name !== parent) {
+        const summary: Cell[] = new Array<Cell>(row.length).fill(null);
+        summary[label.column] = name;
+        output.push(summary);
+        parent = name;
+        parentCount++;
+      }
+
+      const summary = output[output.length - 1];
+      row.forEach((cell, column) => {
+        const amount = column >= firstAmountColumn ? parseAmount(cell) : null;
+        if (amount !== null) {
+          summary[column] = roundCents(((summary[column] as number | null) ?? 0) + amount);
+        }
       });
-      result.totalTokens += tokens;
     }
+
+    return {
+      rows: [...head, ...output],
+      step: `summarised ${detailCount} sub-account rows into ${parentCount} parent account totals`,
+    };
   }
 
-  // Check for required sheets
-  const requiredSheets = ["PL - RAW", "BS - RAW"];
-  for (const required of requiredSheets) {
-    const found = result.sheets.some(
-      (s) => s.name.toLowerCase().includes("pl") || s.name.toLowerCase().includes("bs")
-    );
-    if (!found) {
-      result.missingRequiredSheets.push(required);
+  // Lines are only dropped when a total row covers them
+  const output: Cell[][] = [];
+  let pending: Cell[][] = [];
+  let dropped = 0;
+
+  for (const row of body) {
+    const label = labelOf(row)?.text ?? "";
+    if (/^total\s+/i.test(label) || (COMPUTED_ROW.test(label) && hasAmounts(row))) {
+      dropped += pending.length;
+      pending = [];
+      output.push(row);
+    } else if (!hasAmounts(row)) {
+      output.push(...pending, row);
+      pending = [];
+    } else {
+      pending.push(row);
+    }
+  }
+  output.push(...pending);
+
+  if (dropped === 0) return null;
+  return {
+    rows: [...head, ...output],
+    step: `replaced ${dropped} detail rows with their section totals`,
+  };
+};
+
+/**
+ * Trim a sheet step by step until it fits the remaining token budget.
+ */
+async function trimSheet(
+  sheet: XLSX.WorkSheet,
+  budget: number,
+  options: { periodEnd?: string; additive: boolean; tokenCounter: TokenCounter }
+): Promise<{ csv: string; estimatedTokens: number; steps: string[]; fits: boolean }> {
+  const steps = [
+    dropEmptyColumns,
+    collapseEarlyPeriods(options.periodEnd, options.additive),
+    summarizeDetailRows,
+  ];
+
+  let rows = readRows(sheet);
+  let csv = sheetToCsv(sheet);
+  let tokens = Infinity;
+  const applied: string[] = [];
+
+  for (const step of steps) {
+    const result = step(rows);
+    if (!result) continue;
+
+    rows = result.rows;
+    csv = rowsToCsv(rows);
+    applied.push(result.step);
+    tokens = await options.tokenCounter.count({ text: csv });
+    if (tokens <= budget) {
+      return { csv, estimatedTokens: tokens, steps: applied, fits: true };
     }
   }
 
-  return result;
+  return { csv, estimatedTokens: tokens, steps: applied, fits: false };
+}
+
+/**
+ * One line per trimmed sheet, for the prompt and the data-gaps appendix.
+ */
+export function describeSheetTrim(trim: SheetTrim): string {
+  if (trim.trimmedTokens === null) {
+    return `${trim.sheetName}: left out (~${trim.originalTokens.toLocaleString()} tokens, too large even after trimming)`;
+  }
+  const steps = trim.steps.join("; ");
+  return `${trim.sheetName}: ${steps} (~${trim.originalTokens.toLocaleString()} → ${trim.trimmedTokens.toLocaleString()} tokens)`;
+}
+
+// ===========================================
+// EXTRACTION
+// ===========================================
+
+const DEFAULT_MAX_TOKENS = 150000; // Headroom under Claude's context window
+
+export interface ExtractionOptions {
+  maxTokens?: number;
+  mappings?: SheetMappingEntry[];
+  periodEnd?: string;
+  tokenCounter?: TokenCounter;
+}
+
+// Roles read as month-by-month statements (see parseFinancialStatements)
+const STATEMENT_ROLES: SheetRole[] = ["income_statement", "balance_sheet", "monthly_comparative"];
+
+interface PlannedSheet {
+  resolved: ResolvedSheet;
+  sheet: XLSX.WorkSheet | null;
+  csv: string | null;
+  estimatedTokens: number;
+  included: boolean;
+  skippedForBudget: boolean;
+  duplicateOf: SheetRole | null; // Same tab already used for an earlier role
+  trim: SheetTrim | null;
+}
+
+/**
+ * Decide which resolved sheets fit in the token budget, in role priority
+ * order, trimming the ones that don't. A tab that fills several roles is
+ * only included once.
+ */
+async function planExtraction(
+  workbook: XLSX.WorkBook,
+  resolvedSheets: ResolvedSheet[],
+  options: { maxTokens: number; periodEnd?: string; tokenCounter: TokenCounter }
+): Promise<PlannedSheet[]> {
+  const { maxTokens, periodEnd, tokenCounter } = options;
+  const planned: PlannedSheet[] = [];
+  let totalTokens = 0;
+
+  for (const resolved of resolvedSheets) {
+    const sheet = getResolvedSheet(workbook, resolved);
+    const earlier = planned.find((p) => p.sheet && p.resolved.sheetName === resolved.sheetName);
+    const entry: PlannedSheet = {
+      resolved,
+      sheet,
+      csv: null,
+      estimatedTokens: 0,
+      included: false,
+      skippedForBudget: false,
+      duplicateOf: earlier?.resolved.role ?? null,
+      trim: null,
+    };
+    planned.push(entry);
+
+    if (!sheet || earlier) continue;
+
+    entry.csv = sheetToCsv(sheet);
+    entry.estimatedTokens = await tokenCounter.count({ text: entry.csv });
+
+    // Trim sheets that would exceed the limit, and skip them if that's not enough
+    if (totalTokens + entry.estimatedTokens > maxTokens) {
+      const trimmed = await trimSheet(sheet, maxTokens - totalTokens, {
+        periodEnd,
+        additive: resolved.role !== "balance_sheet",
+        tokenCounter,
+      });
+      entry.trim = {
+        role: resolved.role,
+        sheetName: resolved.sheetName!,
+        originalTokens: entry.estimatedTokens,
+        trimmedTokens: trimmed.fits ? trimmed.estimatedTokens : null,
+        steps: trimmed.steps,
+      };
+
+      if (!trimmed.fits) {
+        entry.skippedForBudget = true;
+        continue;
+      }
+
+      entry.csv = trimmed.csv;
+      entry.estimatedTokens = trimmed.estimatedTokens;
+    }
+
+    entry.included = true;
+    totalTokens += entry.estimatedTokens;
+  }
+
+  return planned;
+}
+
+/**
+ * Required roles that won't reach the model: not in the workbook, or
+ * dropped for the token budget.
+ */
+function getMissingRequired(planned: PlannedSheet[]): PlannedSheet[] {
+  return planned.filter((entry) => {
+    if (!entry.resolved.required) return false;
+    const used = entry.duplicateOf
+      ? planned.find((p) => p.resolved.role === entry.duplicateOf)!
+      : entry;
+    return !used.included;
+  });
+}
+
+/**
+ * Extract core financial sheets from an Excel workbook.
+ * 
+ * @param buffer - Excel file as Buffer or ArrayBuffer
+ * @param options.maxTokens - Maximum tokens of sheet data (default 150K for Claude headroom)
+ * @param options.mappings - The company's sheet mapping (defaults apply to unmapped roles)
+ * @param options.periodEnd - Report period end (YYYY-MM-DD), anchors the months kept when trimming
+ * @param options.tokenCounter - Sizes each sheet and trim step. Defaults to the local estimate:
+ *   that's many counts per workbook, so the API counter is only used on the assembled prompt
+ *   (see extractWithinPromptBudget in report-generation.ts)
+ * @returns Extracted sheets and metadata
+ */
+export async function extractCoreSheets(
+  buffer: Buffer | ArrayBuffer,
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
+  const {
+    maxTokens = DEFAULT_MAX_TOKENS,
+    mappings = [],
+    periodEnd,
+    tokenCounter = createLocalTokenCounter(),
+  } = options;
+
+  const workbook = readWorkbook(buffer);
+  const resolvedSheets = resolveSheets(workbook, mappings);
+  const planned = await planExtraction(workbook, resolvedSheets, { maxTokens, periodEnd, tokenCounter });
+
+  for (const entry of planned) {
+    if (entry.trim) {
+      console.warn(`Trimmed to fit the token limit - ${describeSheetTrim(entry.trim)}`);
+    }
+  }
+
+  const sheets = planned
+    .filter((entry) => entry.included)
+    .map((entry) => ({
+      name: entry.resolved.sheetName!,
+      csv: entry.csv!,
+      estimatedTokens: entry.estimatedTokens,
+    }));
+
+  return {
+    sheets,
+    totalTokens: sheets.reduce((sum, s) => sum + s.estimatedTokens, 0),
+    missingRequiredSheets: getMissingRequired(planned).map((entry) => entry.resolved.expectedName),
+    trimmedSheets: planned.flatMap((entry) => (entry.trim ? [entry.trim] : [])),
+    allSheetNames: workbook.SheetNames,
+    statements: parseFinancialStatements(workbook, resolvedSheets),
+  };
+}
+
+/**
+ * Parse just the financial statements (no sheet data or token counting),
+ * e.g. to re-run tie-out checks.
+ */
+export function readFinancialStatements(
+  buffer: Buffer | ArrayBuffer,
+  mappings: SheetMappingEntry[] = []
+): FinancialStatements {
+  const workbook = readWorkbook(buffer);
+  return parseFinancialStatements(workbook, resolveSheets(workbook, mappings));
+}
+
+/**
+ * Check a workbook before it's uploaded: what each sheet role would use, how
+ * big it is, and whether anything generation needs is missing.
+ */
+export async function preflightWorkbook(
+  buffer: Buffer | ArrayBuffer,
+  options: ExtractionOptions = {}
+): Promise<WorkbookPreflight> {
+  const {
+    maxTokens = DEFAULT_MAX_TOKENS,
+    mappings = [],
+    periodEnd,
+    tokenCounter = createLocalTokenCounter(),
+  } = options;
+
+  const workbook = readWorkbook(buffer);
+  const resolvedSheets = resolveSheets(workbook, mappings);
+  const planned = await planExtraction(workbook, resolvedSheets, { maxTokens, periodEnd, tokenCounter });
+
+  const sheets = planned.map((entry): SheetPreflight => {
+    const { resolved, sheet } = entry;
+    const rows = sheet ? readRows(sheet) : [];
+    const header = findPeriodHeader(rows);
+
+    return {
+      role: resolved.role,
+      label: resolved.label,
+      required: resolved.required,
+      sheetName: resolved.sheetName,
+      matchedBy: resolved.matchedBy,
+      matchedName: resolved.matchedName,
+      expectedName: resolved.expectedName,
+      range: resolved.range,
+      rows: rows.length,
+      columns: Math.max(0, ...rows.map((row) => row.length)),
+      periodColumns: header?.periodColumns.map((p) => p.period.label) ?? [],
+      estimatedTokens: entry.estimatedTokens,
+      included: entry.included,
+      skippedForBudget: entry.skippedForBudget,
+      duplicateOf: entry.duplicateOf,
+      trimSteps: entry.trim?.steps ?? [],
+      originalTokens: entry.trim?.originalTokens ?? entry.estimatedTokens,
+    };
+  });
+
+  const blockingIssues = getMissingRequired(planned).map(({ resolved, skippedForBudget }) =>
+    skippedForBudget
+      ? `${resolved.label} ('${resolved.sheetName}') is too large for the token budget, even trimmed`
+      : `${resolved.label} not found (expected a tab named '${resolved.expectedName}')`
+  );
+
+  const warnings: string[] = [];
+  planned.forEach(({ resolved, trim }, index) => {
+    const sheet = sheets[index];
+    if (resolved.mappedSheetName && resolved.matchedBy !== "mapping") {
+      warnings.push(
+        `${resolved.label}: mapped tab '${resolved.mappedSheetName}' isn't in the workbook` +
+          (resolved.sheetName ? `, using '${resolved.sheetName}'` : "")
+      );
+    }
+    if (sheet.included && STATEMENT_ROLES.includes(resolved.role) && sheet.periodColumns.length === 0) {
+      warnings.push(
+        `${resolved.label} ('${resolved.sheetName}') has no month columns; figures won't be computed from it`
+      );
+    }
+    if (trim && sheet.included) {
+      warnings.push(`${resolved.label} will be trimmed to fit - ${describeSheetTrim(trim)}`);
+    }
+    if (sheet.skippedForBudget && !resolved.required) {
+      warnings.push(
+        `${resolved.label} ('${resolved.sheetName}') will be left out to stay within the token budget, even trimmed`
+      );
+    }
+  });
+
+  return {
+    sheets,
+    allSheets: workbook.SheetNames,
+    totalTokens: sheets.reduce((sum, s) => sum + (s.included ? s.estimatedTokens : 0), 0),
+    maxTokens,
+    blockingIssues,
+    warnings,
+  };
 }
 
 /**
@@ -178,13 +705,442 @@ export function formatForClaude(
   output += `FINANCIAL DATA (${result.sheets.length} SHEETS EXTRACTED)\n`;
   output += `${"=".repeat(80)}\n`;
 
+  const verified = formatVerifiedFigures(result.statements, periodEnd);
+  if (verified) {
+    output += `\n${verified}`;
+  }
+
   for (const sheet of result.sheets) {
-    output += `\n### SHEET: ${sheet.name}\n`;
+    const trimmed = result.trimmedSheets.some((t) => t.sheetName === sheet.name);
+    output += `\n### SHEET: ${sheet.name}${trimmed ? " (TRIMMED)" : ""}\n`;
     output += `${"-".repeat(80)}\n`;
     output += sheet.csv;
     output += "\n";
   }
 
+  if (result.trimmedSheets.length > 0) {
+    output += `\n### DATA TRIMMED TO FIT\n`;
+    output += `${"-".repeat(80)}\n`;
+    output += `These sheets were too large to send in full. List each one under Appendix C (Data Gaps) and don't draw month-level conclusions from trimmed detail:\n`;
+    output += result.trimmedSheets.map((trim) => `- ${describeSheetTrim(trim)}`).join("\n");
+    output += "\n";
+  }
+
+  return output;
+}
+
+// ===========================================
+// FINANCIAL STATEMENT PARSING
+// ===========================================
+
+export type Cell = string | number | boolean | Date | null;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const MONTH_NAME = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?/gi;
+
+// Computed rows that QuickBooks-style exports print between sections
+const COMPUTED_ROW = /^(total\b|gross (profit|margin)|net (operating|other) (income|loss)|net (income|loss|profit|earnings)|ebitda\b)/i;
+
+const DEPRECIATION_ACCOUNT = /depreciation|amortization|amortisation/i;
+
+function makePeriod(year: number, monthIndex: number): StatementPeriod {
+  return {
+    key: `${year}-${String(monthIndex + 1).padStart(2, "0")}`,
+    label: `${MONTH_LABELS[monthIndex]} ${year}`,
+  };
+}
+
+/**
+ * Read a column header as a monthly period ("Oct 2025", "Oct-25",
+ * "Oct 1 - Oct 31, 2025", or a date cell). Ranges spanning several months
+ * (e.g. "Jan - Oct, 2025") and "Total" columns are not periods.
+ */
+export function parsePeriodHeader(cell: Cell): StatementPeriod | null {
+  if (cell instanceof Date && !isNaN(cell.getTime())) {
+    return makePeriod(cell.getFullYear(), cell.getMonth());
+  }
+  if (typeof cell !== "string") return null;
+
+  const text = cell.trim();
+  if (!text || /total/i.test(text)) return null;
+
+  const months = new Set(Array.from(text.matchAll(MONTH_NAME), (m) => m[1].toLowerCase()));
+  if (months.size !== 1) return null;
+
+  const yearMatch = text.match(/\b(\d{4})\b/) ?? text.match(/['\-\s](\d{2})\s*$/);
+  if (!yearMatch) return null;
+
+  const year = yearMatch[1].length === 2 ? 2000 + Number(yearMatch[1]) : Number(yearMatch[1]);
+  return makePeriod(year, MONTHS.indexOf([...months][0]));
+}
+
+/**
+ * Parse an amount cell. Handles numbers and text like "$1,234.50", "(1,234)" and "-".
+ */
+export function parseAmount(cell: Cell): number | null {
+  if (typeof cell === "number") return Number.isFinite(cell) ? cell : null;
+  if (typeof cell !== "string") return null;
+
+  const text = cell.trim();
+  if (!text || text === "-" || text === "—") return null;
+
+  const isNegative = /^\(.*\)$/.test(text) || text.startsWith("-");
+  const numeric = text.replace(/[()$€£,\s]/g, "").replace(/^-/, "");
+  if (!/^\d+(\.\d+)?$/.test(numeric)) return null;
+
+  return isNegative ? -Number(numeric) : Number(numeric);
+}
+
+function cellText(cell: Cell): string {
+  if (cell === null || cell === undefined) return "";
+  return String(cell).trim();
+}
+
+/**
+ * Map a QuickBooks/Xero account type (or a statement section heading) to an account class.
+ */
+export function classifyAccountType(type: string): AccountClass | null {
+  const lower = type.toLowerCase().trim();
+  if (!lower) return null;
+
+  if (/^(other|non-operating)\s*income/.test(lower)) return "other_income";
+  if (/^other\s*expense/.test(lower)) return "other_expense";
+  if (/cost of (goods|sales|revenue)|^cogs/.test(lower)) return "cogs";
+  if (/^(trading |operating )?(income|revenue|sales)s?$/.test(lower)) return "revenue";
+  if (/expense/.test(lower)) return "operating_expense";
+  if (/^(bank|cash)/.test(lower)) return "cash";
+  if (/receivable|other current asset|inventory|prepaid|^current assets?$/.test(lower)) return "current_asset";
+  if (/fixed asset|other asset|non-?current asset|long[- ]term asset/.test(lower)) return "noncurrent_asset";
+  if (/payable|credit card|other current liabilit|^current liabilit/.test(lower)) return "current_liability";
+  if (/long[- ]term liabilit|non-?current liabilit/.test(lower)) return "noncurrent_liability";
+  // Not "Liabilities and Equity", which covers both
+  if (/^(owner'?s?|shareholders?'?|stockholders?'?|members?'?|partners?'?)?\s*equity$/.test(lower)) return "equity";
+  return null;
+}
+
+export function readRows(sheet: XLSX.WorkSheet): Cell[][] {
+  return XLSX.utils.sheet_to_json<Cell[]>(sheet, { header: 1, raw: true, defval: null, blankrows: false });
+}
+
+/**
+ * Read the chart of accounts into an account name -> class map. Sub-accounts
+ * ("Payroll:Salaries") are indexed under both the full and the leaf name.
+ */
+function parseChartOfAccounts(rows: Cell[][]): Map<string, AccountClass> {
+  const accounts = new Map<string, AccountClass>();
+
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => /^(account )?type$/i.test(cellText(cell)))
+  );
+  if (headerIndex === -1) return accounts;
+
+  const header = rows[headerIndex].map((cell) => cellText(cell).toLowerCase());
+  const typeColumn = header.findIndex((h) => h === "type" || h === "account type");
+  const nameColumn = header.findIndex((h) => ["account", "name", "account name", "full name"].includes(h));
+  if (nameColumn === -1) return accounts;
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const name = cellText(row[nameColumn]);
+    const accountClass = classifyAccountType(cellText(row[typeColumn]));
+    if (!name || !accountClass) continue;
+
+    accounts.set(name.toLowerCase(), accountClass);
+    const leaf = name.split(":").pop()!.trim().toLowerCase();
+    if (!accounts.has(leaf)) accounts.set(leaf, accountClass);
+  }
+
+  return accounts;
+}
+
+/**
+ * The first row with month headers, and the column of each month in it.
+ */
+function findPeriodHeader(
+  rows: Cell[][]
+): { headerIndex: number; periodColumns: Array<{ column: number; period: StatementPeriod }> } | null {
+  const headerIndex = rows.findIndex((row) => row.some((cell) => parsePeriodHeader(cell) !== null));
+  if (headerIndex === -1) return null;
+
+  const periodColumns: Array<{ column: number; period: StatementPeriod }> = [];
+  rows[headerIndex].forEach((cell, column) => {
+    const period = parsePeriodHeader(cell);
+    // Keep the first column for each month (later duplicates are usually "% of" columns)
+    if (period && !periodColumns.some((p) => p.period.key === period.key)) {
+      periodColumns.push({ column, period });
+    }
+  });
+
+  return { headerIndex, periodColumns };
+}
+
+/**
+ * Parse a statement sheet laid out as account rows by month columns.
+ * The header row is the first row with at least one period column.
+ */
+function parseStatementSheet(
+  sheetName: string,
+  rows: Cell[][],
+  chartOfAccounts: Map<string, AccountClass>
+): FinancialStatement | null {
+  const header = findPeriodHeader(rows);
+  if (!header) return null;
+
+  const { headerIndex, periodColumns } = header;
+  const firstAmountColumn = Math.min(...periodColumns.map((p) => p.column));
+  const lines: StatementLine[] = [];
+  const sections: string[] = [];
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const account = row
+      .slice(0, firstAmountColumn)
+      .map(cellText)
+      .find((text) => text.length > 0);
+    if (!account) continue;
+
+    const amounts = periodColumns.map(({ column }) => parseAmount(row[column]));
+    const hasAmounts = amounts.some((amount) => amount !== null);
+    const isTotal = COMPUTED_ROW.test(account);
+
+    if (/^total\s+/i.test(account)) {
+      // "Total Expenses" closes the "Expenses" section
+      const closed = account.replace(/^total\s+/i, "").toLowerCase();
+      const openIndex = sections.map((s) => s.toLowerCase()).lastIndexOf(closed);
+      if (openIndex !== -1) sections.length = openIndex;
+    }
+
+    if (!hasAmounts) {
+      // Section heading ("Income", "Expenses", "Current Assets", ...)
+      if (!isTotal) sections.push(account);
+      continue;
+    }
+
+    const leaf = account.split(":").pop()!.trim().toLowerCase();
+    let accountClass = chartOfAccounts.get(account.toLowerCase()) ?? chartOfAccounts.get(leaf) ?? null;
+    if (!accountClass) {
+      for (let i = sections.length - 1; i >= 0 && !accountClass; i--) {
+        accountClass = classifyAccountType(sections[i]);
+      }
+    }
+
+    lines.push({
+      account,
+      section: sections[sections.length - 1] ?? null,
+      accountClass,
+      isTotal,
+      amounts,
+    });
+  }
+
+  return { sheetName, periods: periodColumns.map((p) => p.period), lines };
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Sum the non-total lines of the given classes for one period.
+ */
+function sumLines(
+  statement: FinancialStatement,
+  periodIndex: number,
+  classes: AccountClass[],
+  filter: (line: StatementLine) => boolean = () => true
+): number {
+  let total = 0;
+  for (const line of statement.lines) {
+    if (line.isTotal || !line.accountClass || !classes.includes(line.accountClass)) continue;
+    if (!filter(line)) continue;
+    total += line.amounts[periodIndex] ?? 0;
+  }
+  return roundCents(total);
+}
+
+/**
+ * Compute headline P&L figures for every period in the statement.
+ */
+export function computeIncomeFigures(statement: FinancialStatement): IncomeFigures[] {
+  return statement.periods.map((period, index) => {
+    const revenue = sumLines(statement, index, ["revenue"]);
+    const cogs = sumLines(statement, index, ["cogs"]);
+    const operatingExpenses = sumLines(statement, index, ["operating_expense"]);
+    const depreciationAmortization = sumLines(statement, index, ["operating_expense"], (line) =>
+      DEPRECIATION_ACCOUNT.test(line.account)
+    );
+    const netOtherIncome = roundCents(
+      sumLines(statement, index, ["other_income"]) - sumLines(statement, index, ["other_expense"])
+    );
+
+    const grossProfit = roundCents(revenue - cogs);
+    const operatingIncome = roundCents(grossProfit - operatingExpenses);
+
+    return {
+      period,
+      revenue,
+      cogs,
+      grossProfit,
+      operatingExpenses,
+      depreciationAmortization,
+      ebitda: roundCents(operatingIncome + depreciationAmortization),
+      operatingIncome,
+      netOtherIncome,
+      netIncome: roundCents(operatingIncome + netOtherIncome),
+    };
+  });
+}
+
+/**
+ * Compute month-end balance sheet figures for every period in the statement.
+ */
+export function computeBalanceFigures(statement: FinancialStatement): BalanceFigures[] {
+  return statement.periods.map((period, index) => {
+    const cash = sumLines(statement, index, ["cash"]);
+    const currentAssets = sumLines(statement, index, ["cash", "current_asset"]);
+    const currentLiabilities = sumLines(statement, index, ["current_liability"]);
+
+    return {
+      period,
+      cash,
+      currentAssets,
+      totalAssets: sumLines(statement, index, ["cash", "current_asset", "noncurrent_asset"]),
+      currentLiabilities,
+      totalLiabilities: sumLines(statement, index, ["current_liability", "noncurrent_liability"]),
+      equity: sumLines(statement, index, ["equity"]),
+      workingCapital: roundCents(currentAssets - currentLiabilities),
+    };
+  });
+}
+
+/**
+ * Parse the income statement, balance sheet and monthly comparative
+ * (PL - RAW, BS - RAW and Monthly Comparative in our template) into
+ * account-level statements, classified with the chart of accounts when
+ * present, and compute headline figures from them.
+ */
+export function parseFinancialStatements(
+  workbook: XLSX.WorkBook,
+  sheets: ResolvedSheet[] = resolveSheets(workbook)
+): FinancialStatements {
+  const warnings: string[] = [];
+  const sheetFor = (role: SheetRole) => sheets.find((s) => s.role === role) ?? null;
+
+  const readStatement = (role: SheetRole, chartOfAccounts: Map<string, AccountClass>) => {
+    const resolved = sheetFor(role);
+    const sheet = resolved && getResolvedSheet(workbook, resolved);
+    if (!resolved?.sheetName || !sheet) return null;
+
+    const sheetName = resolved.sheetName;
+    const statement = parseStatementSheet(sheetName, readRows(sheet), chartOfAccounts);
+    if (!statement) {
+      warnings.push(`'${sheetName}' has no monthly period columns`);
+      return null;
+    }
+
+    const unclassified = statement.lines.filter((line) => !line.isTotal && !line.accountClass);
+    if (unclassified.length > 0) {
+      warnings.push(
+        `'${sheetName}': ${unclassified.length} account(s) could not be classified (${unclassified
+          .slice(0, 5)
+          .map((line) => line.account)
+          .join(", ")}${unclassified.length > 5 ? ", ..." : ""})`
+      );
+    }
+    return statement;
+  };
+
+  const coa = sheetFor("chart_of_accounts");
+  const coaSheet = coa && getResolvedSheet(workbook, coa);
+  const chartOfAccounts = coaSheet ? parseChartOfAccounts(readRows(coaSheet)) : new Map();
+  if (!coaSheet) {
+    warnings.push("No chart of accounts sheet; accounts classified by statement section headings");
+  }
+
+  const profitAndLoss = readStatement("income_statement", chartOfAccounts);
+  const balanceSheet = readStatement("balance_sheet", chartOfAccounts);
+  const monthlyComparative = readStatement("monthly_comparative", chartOfAccounts);
+
+  // The monthly comparative stands in for the P&L when it has no usable months
+  const incomeSource =
+    profitAndLoss && profitAndLoss.periods.length > 0 ? profitAndLoss : monthlyComparative;
+
+  return {
+    profitAndLoss,
+    balanceSheet,
+    monthlyComparative,
+    income: incomeSource ? computeIncomeFigures(incomeSource) : [],
+    balance: balanceSheet ? computeBalanceFigures(balanceSheet) : [],
+    warnings,
+  };
+}
+
+function formatFigure(value: number): string {
+  const text = Math.abs(value).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return value < 0 ? `(${text})` : text;
+}
+
+function figureTable<T extends { period: StatementPeriod }>(
+  figures: T[],
+  rows: Array<[string, (figure: T) => number]>
+): string {
+  let table = `| Metric | ${figures.map((f) => f.period.label).join(" | ")} |\n`;
+  table += `|---|${figures.map(() => "---").join("|")}|\n`;
+  for (const [label, value] of rows) {
+    table += `| ${label} | ${figures.map((f) => formatFigure(value(f))).join(" | ")} |\n`;
+  }
+  return table;
+}
+
+/**
+ * Format computed figures (up to 13 months ending at the report period) as
+ * a prompt block the model must use as-is. Returns "" when nothing parsed.
+ */
+export function formatVerifiedFigures(statements: FinancialStatements, periodEnd: string): string {
+  const endKey = periodEnd.slice(0, 7);
+  const income = statements.income.filter((f) => f.period.key <= endKey).slice(-13);
+  const balance = statements.balance.filter((f) => f.period.key <= endKey).slice(-13);
+
+  if (income.length === 0 && balance.length === 0) return "";
+
+  let output = `### VERIFIED FIGURES (computed from account-level workbook data)\n`;
+  output += `${"-".repeat(80)}\n`;
+  output += `These totals were computed in code from the raw statements. Use these exact values for the headline metrics and tie-outs; do not recompute or override them.\n`;
+
+  if (income.length > 0) {
+    output += `\nIncome statement:\n`;
+    output += figureTable(income, [
+      ["Revenue", (f) => f.revenue],
+      ["COGS", (f) => f.cogs],
+      ["Gross Profit", (f) => f.grossProfit],
+      ["Operating Expenses", (f) => f.operatingExpenses],
+      ["Depreciation & Amortization", (f) => f.depreciationAmortization],
+      ["EBITDA", (f) => f.ebitda],
+      ["Operating Income (EBIT)", (f) => f.operatingIncome],
+      ["Net Other Income", (f) => f.netOtherIncome],
+      ["Net Income", (f) => f.netIncome],
+    ]);
+  }
+
+  if (balance.length > 0) {
+    output += `\nBalance sheet (month-end):\n`;
+    output += figureTable(balance, [
+      ["Cash", (f) => f.cash],
+      ["Current Assets", (f) => f.currentAssets],
+      ["Total Assets", (f) => f.totalAssets],
+      ["Current Liabilities", (f) => f.currentLiabilities],
+      ["Total Liabilities", (f) => f.totalLiabilities],
+      ["Equity", (f) => f.equity],
+      ["Working Capital", (f) => f.workingCapital],
+    ]);
+  }
+
+  if (statements.warnings.length > 0) {
+    output += `\nParser notes:\n${statements.warnings.map((w) => `- ${w}`).join("\n")}\n`;
+  }
+
   return output;
 }
 
@@ -192,7 +1148,8 @@ export function formatForClaude(
  * Validate that an Excel file is suitable for processing.
  */
 export function validateExcelFile(
-  buffer: Buffer | ArrayBuffer
+  buffer: Buffer | ArrayBuffer,
+  mappings: SheetMappingEntry[] = []
 ): { valid: boolean; error?: string; sheetCount?: number } {
   try {
     const workbook = XLSX.read(buffer, { type: "buffer" });
@@ -202,14 +1159,14 @@ export function validateExcelFile(
     }
 
     // Check for at least one financial sheet
-    const hasFinancialSheet = CORE_SHEETS.some((name) =>
-      findSheetByName(workbook, name) !== null
-    );
+    const resolved = resolveSheets(workbook, mappings);
+    const hasFinancialSheet = resolved.some((s) => s.sheetName !== null);
 
     if (!hasFinancialSheet) {
+      const expected = resolved.slice(0, 3).map((s) => s.expectedName);
       return {
         valid: false,
-        error: `No financial sheets found. Expected at least one of: ${CORE_SHEETS.slice(0, 3).join(", ")}. Found: ${workbook.SheetNames.slice(0, 5).join(", ")}${workbook.SheetNames.length > 5 ? "..." : ""}`,
+        error: `No financial sheets found. Expected at least one of: ${expected.join(", ")}. Found: ${workbook.SheetNames.slice(0, 5).join(", ")}${workbook.SheetNames.length > 5 ? "..." : ""}`,
       };
     }
 
@@ -222,25 +1179,31 @@ export function validateExcelFile(
   }
 }
 
-/**
- * Get a preview of what sheets would be extracted (without actually extracting).
- */
-export function previewExtraction(buffer: Buffer | ArrayBuffer): {
+export interface ExtractionPreview {
   foundSheets: string[];
   missingSheets: string[];
   allSheets: string[];
-} {
+  roles: ResolvedSheet[];
+}
+
+/**
+ * Get a preview of what sheets would be extracted (without actually extracting).
+ */
+export function previewExtraction(
+  buffer: Buffer | ArrayBuffer,
+  mappings: SheetMappingEntry[] = []
+): ExtractionPreview {
   const workbook = XLSX.read(buffer, { type: "buffer" });
+  const roles = resolveSheets(workbook, mappings);
 
   const foundSheets: string[] = [];
   const missingSheets: string[] = [];
 
-  for (const targetName of CORE_SHEETS) {
-    const actualName = findSheetByName(workbook, targetName);
-    if (actualName) {
-      foundSheets.push(actualName);
+  for (const resolved of roles) {
+    if (resolved.sheetName) {
+      foundSheets.push(resolved.sheetName);
     } else {
-      missingSheets.push(targetName);
+      missingSheets.push(resolved.expectedName);
     }
   }
 
@@ -248,5 +1211,6 @@ export function previewExtraction(buffer: Buffer | ArrayBuffer): {
     foundSheets,
     missingSheets,
     allSheets: workbook.SheetNames,
+    roles,
   };
 }
@@ -0,0 +1,130 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import { readRows, readWorkbook, type Cell } from "@/lib/excel";
+import { ImportError, importSourceFiles, type SourceFile } from "@/lib/importers";
+
+function csv(name: string, lines: string[]): SourceFile {
+  return { name, buffer: Buffer.from(lines.join("\n")) };
+}
+
+function workbook(name: string, sheets: Record<string, Cell[][]>, bookType: XLSX.BookType = "xlsx"): SourceFile {
+  const book = XLSX.utils.book_new();
+  for (const [sheetName, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), sheetName);
+  }
+  return { name, buffer: XLSX.write(book, { type: "buffer", bookType }) };
+}
+
+function tabs(buffer: Buffer): Record<string, Cell[][]> {
+  const combined = readWorkbook(buffer);
+  return Object.fromEntries(combined.SheetNames.map((name) => [name, readRows(combined.Sheets[name])]));
+}
+
+const QUICKBOOKS_PROFIT_AND_LOSS = [
+  "Profit and Loss",
+  "Acme Holdings LLC",
+  '"Oct 1 - Oct 31, 2025"',
+  ",Total",
+  "Income,",
+  'Sales,"$1,200.00"',
+  'Total Income,"$1,200.00"',
+  ",",
+  '"Accrual Basis Monday, November 3, 2025 10:00 AM GMT-04:00",',
+];
+
+describe("importSourceFiles", () => {
+  it("reads a single-month QuickBooks export as that month's column", () => {
+    const result = importSourceFiles([csv("acme_pl.csv", QUICKBOOKS_PROFIT_AND_LOSS)]);
+
+    expect(result.files).toEqual([
+      { fileName: "acme_pl.csv", format: "quickbooks", role: "income_statement", sheetNames: ["PL - RAW"] },
+    ]);
+    expect(result.extension).toBe(".xlsx");
+    expect(result.warnings).toEqual([]);
+    expect(tabs(result.buffer)["PL - RAW"]).toEqual([
+      [null, "Oct 2025"],
+      ["Income", null],
+      ["Sales", 1200],
+      ["Total Income", 1200],
+    ]);
+  });
+
+  it("leaves a multi-month total alone and says why", () => {
+    const result = importSourceFiles([
+      csv("Balance Sheet.csv", ["Balance Sheet", "Demo Co", "As at 31 March 2024", ",31 Mar 2024", "Checking,5000"]),
+      csv("Income.csv", ["Income Statement", "Demo Co", "For the year ended 31 December 2024", ",2024", "Sales,1000"]),
+    ]);
+
+    expect(result.files.map((f) => [f.format, f.role, f.sheetNames])).toEqual([
+      ["xero", "balance_sheet", ["BS - RAW"]],
+      ["xero", "income_statement", ["PL - RAW"]],
+    ]);
+    expect(tabs(result.buffer)["PL - RAW"][0]).toEqual([null, "2024"]);
+    expect(result.warnings).toEqual([
+      "Income.csv covers more than one month ('For the year ended 31 December 2024') and has no month columns, " +
+        "so its figures can't be used; export it by month instead",
+    ]);
+  });
+
+  it("names Google Sheets downloads after their template tab", () => {
+    const result = importSourceFiles([
+      csv("Acme Financials - BS - RAW.csv", [",Sep 2025,Oct 2025", "Checking,5000,5700"]),
+      csv("Acme Financials - Notes.csv", ["Item,Note", "Rent,Lease renewed"]),
+    ]);
+
+    expect(result.files.map((f) => [f.format, f.role, f.sheetNames])).toEqual([
+      ["csv", "balance_sheet", ["BS - RAW"]],
+      ["csv", null, ["Acme Financials - Notes"]],
+    ]);
+    expect(result.fileName).toBe("Acme Financials - BS - RAW.csv, Acme Financials - Notes.csv");
+    expect(result.warnings).toEqual([
+      "Couldn't tell which statement Acme Financials - Notes.csv is; it was added as tab " +
+        "'Acme Financials - Notes' (map it on the company's sheet mapping to use it)",
+    ]);
+  });
+
+  it("keeps a second export of the same statement under its own name", () => {
+    const result = importSourceFiles([
+      csv("pl-october.csv", QUICKBOOKS_PROFIT_AND_LOSS),
+      csv("pl-september.csv", QUICKBOOKS_PROFIT_AND_LOSS),
+    ]);
+
+    expect(result.files.map((f) => f.sheetNames)).toEqual([["PL - RAW"], ["pl-september"]]);
+    expect(result.warnings).toEqual([
+      "pl-september.csv and pl-october.csv both look like the income statement; using pl-october.csv",
+    ]);
+  });
+
+  it("passes a lone template workbook through, keeping its .xls format", () => {
+    const file = workbook("acme.xls", { "PL - RAW": [["", "Oct 2025"]], "BS - RAW": [["", "Oct 2025"]] }, "biff8");
+    const result = importSourceFiles([file]);
+
+    expect(result.buffer).toBe(file.buffer);
+    expect(result).toMatchObject({ extension: ".xls", contentType: "application/vnd.ms-excel" });
+    expect(result.files).toEqual([
+      { fileName: "acme.xls", format: "workbook", role: null, sheetNames: ["PL - RAW", "BS - RAW"] },
+    ]);
+  });
+
+  it("renames a workbook tab that another file already added", () => {
+    const result = importSourceFiles([
+      workbook("template.xlsx", { "PL - RAW": [["", "Oct 2025"]], Notes: [["Rent"]] }),
+      csv("Acme - PL - RAW.csv", [",Oct 2025", "Sales,100"]),
+    ]);
+
+    expect(result.files.map((f) => f.sheetNames)).toEqual([["PL - RAW", "Notes"], ["PL - RAW (2)"]]);
+    expect(result.warnings).toEqual([
+      "Acme - PL - RAW.csv: another file already has a 'PL - RAW' tab, added as 'PL - RAW (2)'",
+    ]);
+  });
+
+  it("rejects files it can't import", () => {
+    expect(() => importSourceFiles([])).toThrow(new ImportError("No files to import"));
+    expect(() => importSourceFiles([{ name: "report.pdf", buffer: Buffer.from("") }])).toThrow(
+      "report.pdf isn't a supported file (.xlsx, .xls or .csv)"
+    );
+    expect(() => importSourceFiles([csv("notes.csv", ["Just a note", "Another line"])])).toThrow(
+      "notes.csv has no table in it"
+    );
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Source File Importers
+ *
+ * Reports can be generated from our template workbook or from what clients
+ * actually send: plain CSVs (including Google Sheets downloads) and
+ * QuickBooks or Xero "Profit and Loss" / "Balance Sheet" exports, as CSV or
+ * Excel. All the files uploaded for one report are combined into a single
+ * workbook, with each export on a tab named after the statement it holds
+ * (the template's tab name), so extraction, sheet mapping and preflight read
+ * it like any other workbook. The combined workbook is what gets stored.
+ */
+
+import * as XLSX from "xlsx";
+import { parseAmount, parsePeriodHeader, readRows, readWorkbook, type Cell } from "@/lib/excel";
+import { getSheetRoleLabel, SHEET_ROLES, type SheetRole } from "@/lib/sheet-roles";
+import type { ImportedFile } from "@/types";
+
+export const SOURCE_FILE_EXTENSIONS = [".xlsx", ".xls", ".csv"];
+
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export interface SourceFile {
+  name: string;
+  buffer: Buffer;
+}
+
+export interface ImportResult {
+  buffer: Buffer; // The combined workbook
+  contentType: string;
+  extension: ".xlsx" | ".xls"; // For the stored file's name
+  fileName: string; // For the report's sourceFileName
+  files: ImportedFile[];
+  warnings: string[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export function isSourceFileName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return SOURCE_FILE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "").trim();
+}
+
+// ===========================================
+// FORMAT DETECTION
+// ===========================================
+
+// Report titles -> the statement they hold (checked in order)
+const TITLE_ROLES: Array<{ pattern: RegExp; role: SheetRole }> = [
+  { pattern: /balance sheet|statement of financial position/i, role: "balance_sheet" },
+  { pattern: /budget/i, role: "budget" },
+  { pattern: /forecast/i, role: "forecast" },
+  { pattern: /chart of accounts|account list/i, role: "chart_of_accounts" },
+  {
+    pattern: /profit (and|&) loss|income statement|statement of (operations|profit or loss)|\bp ?& ?l\b/i,
+    role: "income_statement",
+  },
+];
+
+// Xero titles: "For the month ended 31 March 2024", "As at 31 March 2024"
+const XERO_TITLE = /^(for the (month|year|period|\d+ months) ended|as at)\b/i;
+
+// QuickBooks titles and footers: "As of March 31, 2025", "January - October, 2025", "Accrual Basis ..."
+const QUICKBOOKS_TITLE = /^as of\b|^[a-z]+( \d{1,2})?,?( \d{4})? [-–] [a-z]+/i;
+const BASIS_LINE = /^(cash|accrual) basis\b/i;
+
+// Titles naming one month or date, whose totals are that month: "For the
+// month ended 31 March 2024", "As at 31 March 2024", "As of March 31, 2025",
+// "March 2025", or a range within one month ("Oct 1 - Oct 31, 2025")
+const SINGLE_PERIOD_TITLE = /^(for the month ended|as at|as of)\b|^[a-z]{3,9}\.?,? \d{4}$/i;
+const DATE_RANGE_TITLE = /^[a-z]+( \d{1,2})?,?( \d{4})? [-–] [a-z]+/i;
+// Titles covering several months: "For the year ended ...", "For the 3 months ended ..."
+const MULTI_PERIOD_TITLE = /^for the (year|period|quarter|\d+ months) ended\b/i;
+
+function isSinglePeriodTitle(line: string): boolean {
+  return SINGLE_PERIOD_TITLE.test(line) || (DATE_RANGE_TITLE.test(line) && parsePeriodHeader(line) !== null);
+}
+
+function isMultiPeriodTitle(line: string): boolean {
+  return MULTI_PERIOD_TITLE.test(line) || (DATE_RANGE_TITLE.test(line) && parsePeriodHeader(line) === null);
+}
+
+/**
+ * Which statement a file holds. Google Sheets names a downloaded tab
+ * "<spreadsheet> - <tab>.csv", so template tab names and aliases at the end
+ * of the file name count first, then the report title, then the file name.
+ */
+function detectRole(fileName: string, title: string[]): SheetRole | null {
+  const name = baseName(fileName).toLowerCase();
+  for (const { role, defaultName, aliases } of SHEET_ROLES) {
+    const tabNames = [defaultName, ...aliases].map((tab) => tab.toLowerCase());
+    if (tabNames.some((tab) => name === tab || name.endsWith(` - ${tab}`))) {
+      return role;
+    }
+  }
+
+  const fromTitle = TITLE_ROLES.find(({ pattern }) => title.some((line) => pattern.test(line)));
+  if (fromTitle) return fromTitle.role;
+
+  const readableName = name.replace(/[_.]+/g, " ");
+  return TITLE_ROLES.find(({ pattern }) => pattern.test(readableName))?.role ?? null;
+}
+
+function rowTexts(row: Cell[]): string[] {
+  return row.map((cell) => (cell === null ? "" : String(cell).trim())).filter(Boolean);
+}
+
+interface ExportTable {
+  title: string[]; // Title lines above the column headers
+  header: Cell[];
+  body: Cell[][];
+  format: "csv" | "quickbooks" | "xero";
+}
+
+/**
+ * Split an export into its title block and table. The column headers are
+ * the first row with anything past the first column; title lines above it
+ * (report name, company, date range) only fill the first.
+ */
+function readExportTable(rows: Cell[][], isCsv: boolean): ExportTable | null {
+  const headerIndex = rows.findIndex((row) => rowTexts(row.slice(1)).length > 0);
+  if (headerIndex === -1) return null;
+
+  const title = rows.slice(0, headerIndex).flatMap(rowTexts);
+  const body = rows.slice(headerIndex + 1);
+  const footer = body.slice(-3).flatMap(rowTexts);
+
+  let format: ExportTable["format"] = "csv";
+  if (title.some((line) => XERO_TITLE.test(line))) {
+    format = "xero";
+  } else if ([...title, ...footer].some((line) => QUICKBOOKS_TITLE.test(line) || BASIS_LINE.test(line))) {
+    format = "quickbooks";
+  }
+
+  if (!isCsv && format === "csv") return null; // An ordinary single-tab workbook
+  return { title, header: rows[headerIndex], body, format };
+}
+
+// ===========================================
+// NORMALIZATION
+// ===========================================
+
+/**
+ * Rows for the combined workbook: the column headers first (so the title's
+ * "As of" date can't be mistaken for them), amounts as numbers, and no
+ * QuickBooks basis/timestamp footer. When the title names a single month or
+ * date, the "Total" column is renamed to that month so it reads as a period.
+ * A title covering several months (a year-to-date total) is left alone with
+ * a warning, since its total isn't any one month's figure.
+ */
+function normalizeTable(
+  table: ExportTable,
+  role: SheetRole | null,
+  fileName: string
+): { rows: Cell[][]; warning: string | null } {
+  const header = [...table.header];
+  const hasPeriods = header.some((cell) => parsePeriodHeader(cell) !== null);
+  let warning: string | null = null;
+
+  if (!hasPeriods && role !== "chart_of_accounts") {
+    const multiPeriodTitle = table.title.find(isMultiPeriodTitle);
+    const period = table.title
+      .filter(isSinglePeriodTitle)
+      .map((line) => parsePeriodHeader(line))
+      .find((p) => p !== null);
+    const totalColumn = header.findIndex(
+      (cell, column) => column > 0 && /^total$/i.test(String(cell ?? "").trim())
+    );
+    const amountColumn =
+      totalColumn !== -1 ? totalColumn : header.findIndex((cell, column) => column > 0 && cell !== null);
+
+    if (period && amountColumn !== -1) {
+      header[amountColumn] = period.label;
+    } else if (multiPeriodTitle) {
+      warning =
+        `${fileName} covers more than one month ('${multiPeriodTitle}') and has no month columns, ` +
+        `so its figures can't be used; export it by month instead`;
+    }
+  }
+
+  const body = table.body
+    .filter((row) => !rowTexts(row).some((text) => BASIS_LINE.test(text)))
+    .map((row) =>
+      row.map((cell, column) => {
+        if (column === 0 || typeof cell !== "string") return cell;
+        return parseAmount(cell) ?? cell;
+      })
+    );
+
+  return { rows: [header, ...body], warning };
+}
+
+// ===========================================
+// COMBINING
+// ===========================================
+
+const MAX_TAB_NAME = 31; // Excel's limit
+
+function uniqueTabName(workbook: XLSX.WorkBook, name: string): string {
+  const cleaned = name.replace(/[\\/?*:[\]]/g, " ").trim().slice(0, MAX_TAB_NAME) || "Sheet";
+  const taken = new Set(workbook.SheetNames.map((n) => n.toLowerCase()));
+  if (!taken.has(cleaned.toLowerCase())) return cleaned;
+
+  for (let i = 2; ; i++) {
+    const suffix = ` (${i})`;
+    const candidate = cleaned.slice(0, MAX_TAB_NAME - suffix.length) + suffix;
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+}
+
+function getRoleTabName(role: SheetRole): string {
+  return SHEET_ROLES.find((r) => r.role === role)!.defaultName;
+}
+
+/**
+ * Combine the uploaded files into one workbook. A lone workbook that isn't
+ * an accounting export is passed through untouched. Throws ImportError for a
+ * file that can't be read or has no table in it.
+ */
+export function importSourceFiles(files: SourceFile[]): ImportResult {
+  if (files.length === 0) {
+    throw new ImportError("No files to import");
+  }
+
+  const combined = XLSX.utils.book_new();
+  const imported: ImportedFile[] = [];
+  const warnings: string[] = [];
+  const roleFiles = new Map<SheetRole, string>();
+  let passThrough: Pick<ImportResult, "buffer" | "contentType" | "extension"> | null = null;
+
+  for (const file of files) {
+    if (!isSourceFileName(file.name)) {
+      throw new ImportError(`${file.name} isn't a supported file (.xlsx, .xls or .csv)`);
+    }
+
+    const isCsv = file.name.toLowerCase().endsWith(".csv");
+    let workbook: XLSX.WorkBook;
+    try {
+      // Raw CSV text keeps month headers as written instead of guessing dates
+      workbook = isCsv ? XLSX.read(file.buffer, { type: "buffer", raw: true }) : readWorkbook(file.buffer);
+    } catch {
+      throw new ImportError(`Could not read ${file.name}`);
+    }
+
+    const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+    const table =
+      workbook.SheetNames.length === 1 && firstSheet ? readExportTable(readRows(firstSheet), isCsv) : null;
+
+    if (!table) {
+      if (isCsv) {
+        throw new ImportError(`${file.name} has no table in it`);
+      }
+
+      if (files.length === 1) {
+        const isXls = file.name.toLowerCase().endsWith(".xls");
+        passThrough = {
+          buffer: file.buffer,
+          contentType: isXls ? "application/vnd.ms-excel" : XLSX_CONTENT_TYPE,
+          extension: isXls ? ".xls" : ".xlsx",
+        };
+      }
+      const sheetNames = workbook.SheetNames.map((sheetName) => {
+        const tabName = uniqueTabName(combined, sheetName);
+        if (tabName !== sheetName) {
+          warnings.push(`${file.name}: tab '${sheetName}' is also in another file, added as '${tabName}'`);
+        }
+        XLSX.utils.book_append_sheet(combined, workbook.Sheets[sheetName], tabName);
+        return tabName;
+      });
+      imported.push({ fileName: file.name, format: "workbook", role: null, sheetNames });
+      continue;
+    }
+
+    // A second export of the same statement is kept under its own name
+    const detected = detectRole(file.name, table.title);
+    const role = detected && !roleFiles.has(detected) ? detected : null;
+    const wantedName = role ? getRoleTabName(role) : baseName(file.name);
+    const tabName = uniqueTabName(combined, wantedName);
+
+    if (role) {
+      roleFiles.set(role, file.name);
+      if (tabName !== wantedName) {
+        warnings.push(`${file.name}: another file already has a '${wantedName}' tab, added as '${tabName}'`);
+      }
+    } else if (detected) {
+      warnings.push(
+        `${file.name} and ${roleFiles.get(detected)} both look like the ` +
+          `${getSheetRoleLabel(detected).toLowerCase()}; using ${roleFiles.get(detected)}`
+      );
+    } else {
+      warnings.push(
+        `Couldn't tell which statement ${file.name} is; it was added as tab '${tabName}' ` +
+          `(map it on the company's sheet mapping to use it)`
+      );
+    }
+
+    const normalized = normalizeTable(table, role, file.name);
+    if (normalized.warning) {
+      warnings.push(normalized.warning);
+    }
+
+    XLSX.utils.book_append_sheet(combined, XLSX.utils.aoa_to_sheet(normalized.rows), tabName);
+    imported.push({ fileName: file.name, format: table.format, role, sheetNames: [tabName] });
+  }
+
+  return {
+    ...(passThrough ?? {
+      buffer: XLSX.write(combined, { type: "buffer", bookType: "xlsx" }) as Buffer,
+      contentType: XLSX_CONTENT_TYPE,
+      extension: ".xlsx" as const,
+    }),
+    fileName: files.map((f) => f.name).join(", "),
+    files: imported,
+    warnings,
+  };
+}
@@ -0,0 +1,290 @@
+/**
+ * Invitations & Verified Domains
+ *
+ * Users join a company in one of two ways:
+ *   1. An invitation (sent by an admin or a client owner) for their email
+ *      address, accepted on sign-up or from the emailed link.
+ *   2. Signing up with an email domain an admin has verified for the company.
+ *
+ * Invitation emails are sent through Clerk, which also handles the sign-up.
+ */
+
+import { randomBytes } from "crypto";
+import { clerkClient } from "@clerk/nextjs/server";
+import type { Invitation, UserRole } from "@prisma/client";
+import prisma from "@/lib/db";
+import { logAdminAction } from "@/lib/audit";
+import type { InvitationListItem } from "@/types";
+
+export const INVITATION_TTL_DAYS = 14;
+
+// Shared mailbox providers can never be verified for a company
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "ymail.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+  "mail.com",
+  "zoho.com",
+  "fastmail.com",
+]);
+
+export class InvitationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "InvitationError";
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function getEmailDomain(email: string): string {
+  return normalizeEmail(email).split("@")[1] ?? "";
+}
+
+/**
+ * Normalize a domain entered by an admin ("@Acme.com " -> "acme.com").
+ * Returns null for anything that can't be verified for a single company.
+ */
+export function normalizeDomain(input: string): string | null {
+  const domain = input.trim().toLowerCase().replace(/^@/, "");
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) {
+    return null;
+  }
+  return PUBLIC_EMAIL_DOMAINS.has(domain) ? null : domain;
+}
+
+export function isInvitationPending(invitation: Invitation, now: Date = new Date()): boolean {
+  return !invitation.acceptedAt && !invitation.revokedAt && invitation.expiresAt > now;
+}
+
+/**
+ * Pending invitations for a company, newest first.
+ */
+export async function listPendingInvitations(companyId: string): Promise<InvitationListItem[]> {
+  const invitations = await prisma.invitation.findMany({
+    where: { companyId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+    include: { invitedBy: { select: { email: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return invitations.map((invitation) => ({
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    invitedBy: invitation.invitedBy?.email ?? null,
+    expiresAt: invitation.expiresAt.toISOString(),
+    createdAt: invitation.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Invite an email address to a company. Existing users are added straight
+ * away; everyone else gets a Clerk invitation email linking to the accept page.
+ */
+export async function createInvitation(input: {
+  companyId: string;
+  email: string;
+  role: UserRole;
+  invitedById: string;
+}): Promise<{ invitation: Invitation; linkedExistingUser: boolean }> {
+  const email = normalizeEmail(input.email);
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new InvitationError("Invalid email address");
+  }
+
+  const existingUser = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: "insensitive" } },
+    include: { memberships: { where: { companyId: input.companyId } } },
+  });
+
+  if (existingUser && existingUser.memberships.length > 0) {
+    throw new InvitationError("This user already has access to the company", 409);
+  }
+
+  // Replace any earlier invitation still waiting for this address
+  await revokePendingInvitations(input.companyId, email);
+
+  const invitation = await prisma.invitation.create({
+    data: {
+      companyId: input.companyId,
+      email,
+      role: input.role,
+      token: randomBytes(32).toString("base64url"),
+      invitedById: input.invitedById,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  if (existingUser) {
+    return { invitation: await acceptInvitation(invitation, existingUser.id), linkedExistingUser: true };
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  const client = await clerkClient();
+  const clerkInvitation = await client.invitations.createInvitation({
+    emailAddress: email,
+    redirectUrl: `${appUrl}/invitations/${invitation.token}`,
+    expiresInDays: INVITATION_TTL_DAYS,
+    ignoreExisting: true,
+  });
+
+  const saved = await prisma.invitation.update({
+    where: { id: invitation.id },
+    data: { clerkInvitationId: clerkInvitation.id },
+  });
+
+  return { invitation: saved, linkedExistingUser: false };
+}
+
+/**
+ * Revoke an invitation (and its Clerk sign-up invitation, if one was sent).
+ */
+export async function revokeInvitation(invitation: Invitation): Promise<void> {
+  await prisma.invitation.update({
+    where: { id: invitation.id },
+    data: { revokedAt: new Date() },
+  });
+
+  if (invitation.clerkInvitationId) {
+    try {
+      const client = await clerkClient();
+      await client.invitations.revokeInvitation(invitation.clerkInvitationId);
+    } catch (error) {
+      // Already accepted or revoked on Clerk's side
+      console.warn(`Could not revoke Clerk invitation ${invitation.clerkInvitationId}:`, error);
+    }
+  }
+}
+
+async function revokePendingInvitations(companyId: string, email: string): Promise<void> {
+  const pending = await prisma.invitation.findMany({
+    where: { companyId, email, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+  });
+  for (const invitation of pending) {
+    await revokeInvitation(invitation);
+  }
+}
+
+/**
+ * Add the user to the invitation's company with the invited role.
+ */
+export async function acceptInvitation(invitation: Invitation, userId: string): Promise<Invitation> {
+  const [, accepted] = await prisma.$transaction([
+    prisma.companyMembership.upsert({
+      where: { userId_companyId: { userId, companyId: invitation.companyId } },
+      create: { userId, companyId: invitation.companyId, role: invitation.role },
+      update: { role: invitation.role },
+    }),
+    prisma.invitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date() },
+    }),
+  ]);
+
+  // Credited to the inviter, who granted the access
+  await logAdminAction({
+    action: "user_linked",
+    userId: invitation.invitedById,
+    companyId: invitation.companyId,
+    details: { email: invitation.email, role: invitation.role, via: "invitation" },
+  });
+
+  return accepted;
+}
+
+/**
+ * Accept an invitation from its emailed link. The signed-in user's email must
+ * match the invited address.
+ */
+export async function acceptInvitationByToken(
+  token: string,
+  user: { id: string; email: string }
+): Promise<Invitation> {
+  const invitation = await prisma.invitation.findUnique({ where: { token } });
+
+  if (!invitation || invitation.revokedAt) {
+    throw new InvitationError("This invitation is no longer valid", 404);
+  }
+
+  if (normalizeEmail(user.email) !== invitation.email) {
+    throw new InvitationError(`This invitation was sent to ${invitation.email}`, 403);
+  }
+
+  if (invitation.acceptedAt) {
+    return invitation; // Usually accepted on sign-up already
+  }
+
+  if (invitation.expiresAt <= new Date()) {
+    throw new InvitationError("This invitation has expired. Ask for a new one.", 410);
+  }
+
+  return acceptInvitation(invitation, user.id);
+}
+
+/**
+ * Link a newly created user to companies: every pending invitation for their
+ * email, or failing that, the company that verified their email domain. The
+ * domain only counts once Clerk has verified the address, since anyone can
+ * type one in. Returns the names of the companies they were added to.
+ */
+export async function linkNewUser(
+  userId: string,
+  email: string,
+  { emailVerified }: { emailVerified: boolean }
+): Promise<string[]> {
+  const normalized = normalizeEmail(email);
+
+  const invitations = await prisma.invitation.findMany({
+    where: { email: normalized, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+    include: { company: { select: { name: true } } },
+  });
+
+  if (invitations.length > 0) {
+    for (const invitation of invitations) {
+      await acceptInvitation(invitation, userId);
+    }
+    return invitations.map((i) => i.company.name);
+  }
+
+  if (!emailVerified) {
+    return [];
+  }
+
+  const verified = await prisma.companyDomain.findUnique({
+    where: { domain: getEmailDomain(normalized) },
+    include: { company: { select: { name: true } } },
+  });
+
+  if (!verified) {
+    return [];
+  }
+
+  await prisma.companyMembership.upsert({
+    where: { userId_companyId: { userId, companyId: verified.companyId } },
+    create: { userId, companyId: verified.companyId, role: "client_viewer" },
+    update: {},
+  });
+
+  await logAdminAction({
+    action: "user_linked",
+    userId: null,
+    companyId: verified.companyId,
+    details: { email: normalized, role: "client_viewer", via: "verified_domain" },
+  });
+
+  return [verified.company.name];
+}
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockTransport, setEmailTransport, type MockEmailTransport } from "@/lib/email";
+import { sendReportPublishedNotifications } from "@/lib/notifications";
+
+const db = vi.hoisted(() => ({
+  report: { findUnique: vi.fn() },
+  notificationDelivery: { upsert: vi.fn() },
+}));
+
+vi.mock("@/lib/db", () => ({ default: db, prisma: db }));
+
+function member(id: string, notifyOnPublish = true) {
+  return { user: { id, email: `${id}@acme.com`, notifyOnPublish } };
+}
+
+function publishedReport(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "report_1",
+    published: true,
+    periodEnd: new Date("2025-03-31"),
+    periodLabel: "March 2025",
+    company: { name: "Acme", memberships: [member("ann"), member("bob")] },
+    sections: [{ content: { executive_insights: ["**Revenue up 12%** on new contracts"] } }],
+    notifications: [],
+    ...overrides,
+  };
+}
+
+// Rows saved for each user, by status
+function savedStatuses(): Record<string, string> {
+  return Object.fromEntries(
+    db.notificationDelivery.upsert.mock.calls.map(([args]) => [args.create.userId, args.create.status])
+  );
+}
+
+describe("sendReportPublishedNotifications", () => {
+  let transport: MockEmailTransport;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    transport = createMockTransport();
+    setEmailTransport(transport);
+  });
+
+  it("emails every member of the report's company", async () => {
+    db.report.findUnique.mockResolvedValue(publishedReport());
+
+    await sendReportPublishedNotifications("report_1");
+
+    expect(transport.outbox.map((m) => m.to)).toEqual(["ann@acme.com", "bob@acme.com"]);
+    expect(transport.outbox[0].subject).toBe("Acme: your March 2025 financial review is ready");
+    expect(transport.outbox[0].text).toContain("Revenue up 12% on new contracts");
+    expect(transport.outbox[0].text).toContain("/reports/report_1");
+    expect(savedStatuses()).toEqual({ ann: "sent", bob: "sent" });
+  });
+
+  it("records users who opted out as skipped without emailing them", async () => {
+    db.report.findUnique.mockResolvedValue(
+      publishedReport({ company: { name: "Acme", memberships: [member("ann"), member("bob", false)] } })
+    );
+
+    await sendReportPublishedNotifications("report_1");
+
+    expect(transport.outbox.map((m) => m.to)).toEqual(["ann@acme.com"]);
+    expect(savedStatuses()).toEqual({ ann: "sent", bob: "skipped" });
+  });
+
+  it("only emails users not already sent to (or skipped) when retried", async () => {
+    db.report.findUnique.mockResolvedValue(
+      publishedReport({
+        company: { name: "Acme", memberships: [member("ann"), member("bob"), member("cat")] },
+        notifications: [{ userId: "ann" }, { userId: "cat" }],
+      })
+    );
+
+    await sendReportPublishedNotifications("report_1");
+
+    expect(transport.outbox.map((m) => m.to)).toEqual(["bob@acme.com"]);
+    expect(savedStatuses()).toEqual({ bob: "sent" });
+  });
+
+  it("sends to everyone else before rethrowing a failure", async () => {
+    db.report.findUnique.mockResolvedValue(
+      publishedReport({
+        company: { name: "Acme", memberships: [member("ann"), member("bob"), member("cat")] },
+      })
+    );
+    setEmailTransport({
+      name: "mock",
+      async send(message) {
+        if (message.to === "ann@acme.com") throw new Error("Mailbox unavailable");
+        return transport.send(message);
+      },
+    });
+
+    await expect(sendReportPublishedNotifications("report_1")).rejects.toThrow(
+      "Failed to email 1 user(s): ann@acme.com"
+    );
+    expect(transport.outbox.map((m) => m.to)).toEqual(["bob@acme.com", "cat@acme.com"]);
+    expect(savedStatuses()).toEqual({ ann: "failed", bob: "sent", cat: "sent" });
+    expect(db.notificationDelivery.upsert.mock.calls[0][0].create.error).toBe("Mailbox unavailable");
+  });
+
+  it("sends nothing once the report has been unpublished", async () => {
+    db.report.findUnique.mockResolvedValue(publishedReport({ published: false }));
+
+    await sendReportPublishedNotifications("report_1");
+
+    expect(transport.outbox).toEqual([]);
+    expect(db.notificationDelivery.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Notifications
+ *
+ * Emails company users when one of their reports is published, and firm
+ * users when a scheduled monthly run finishes or can't start. Runs in the
+ * job queue worker; each recipient gets a delivery record, so a retried job
+ * only sends to the ones that haven't been emailed yet.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { escapeHtml, getEmailTransport, type EmailMessage } from "@/lib/email";
+import { hasPermission, USER_ROLES } from "@/lib/permissions";
+import { formatPeriodLabel } from "@/lib/utils";
+import type { ReportSectionContent } from "@/types";
+
+export const NOTIFICATION_TYPES = {
+  REPORT_PUBLISHED: "report_published",
+  SCHEDULED_RUN_COMPLETE: "scheduled_run_complete",
+  SCHEDULED_RUN_WAITING: "scheduled_run_waiting",
+  SCHEDULED_RUN_FAILED: "scheduled_run_failed",
+} as const;
+
+// "waiting": the run is due but no new workbook has been saved yet
+export type ScheduledRunOutcome = "complete" | "waiting" | "failed";
+
+const SCHEDULED_RUN_TYPES = {
+  complete: NOTIFICATION_TYPES.SCHEDULED_RUN_COMPLETE,
+  waiting: NOTIFICATION_TYPES.SCHEDULED_RUN_WAITING,
+  failed: NOTIFICATION_TYPES.SCHEDULED_RUN_FAILED,
+} as const;
+
+// Executive Snapshot's first insight, without markdown emphasis
+function getHeadline(content: ReportSectionContent | null): string | null {
+  const headline = content?.executive_insights?.[0] ?? content?.insights?.[0];
+  return headline ? headline.replace(/\*\*|__/g, "").trim() : null;
+}
+
+function buildReportPublishedEmail(input: {
+  to: string;
+  companyName: string;
+  periodLabel: string;
+  headline: string | null;
+  reportUrl: string;
+  settingsUrl: string;
+}): EmailMessage {
+  const subject = `${input.companyName}: your ${input.periodLabel} financial review is ready`;
+
+  const text = [
+    `Your ${input.periodLabel} financial review for ${input.companyName} has been published.`,
+    ...(input.headline ? ["", input.headline] : []),
+    "",
+    `Read the report: ${input.reportUrl}`,
+    "",
+    `Don't want these emails? Change your notification settings: ${input.settingsUrl}`,
+  ].join("\n");
+
+  const html = `
+    <p>Your <strong>${escapeHtml(input.periodLabel)}</strong> financial review for ${escapeHtml(input.companyName)} has been published.</p>
+    ${input.headline ? `<blockquote style="border-left:3px solid #2563eb;margin:16px 0;padding-left:12px;color:#374151">${escapeHtml(input.headline)}</blockquote>` : ""}
+    <p><a href="${input.reportUrl}" style="display:inline-block;background:#2563eb;color:#fff;padding:10px 16px;border-radius:6px;text-decoration:none">Read the report</a></p>
+    <p style="font-size:12px;color:#6b7280">Don't want these emails? <a href="${input.settingsUrl}">Change your notification settings</a>.</p>
+  `.trim();
+
+  return { to: input.to, subject, text, html };
+}
+
+/**
+ * Email every user linked to the report's company. Users who opted out get a
+ * "skipped" record; failures are recorded and rethrown so the job retries.
+ */
+export async function sendReportPublishedNotifications(reportId: string): Promise<void> {
+  const report = await prisma.report.findUnique({
+    where: { id: reportId },
+    include: {
+      company: {
+        include: {
+          memberships: {
+            include: { user: { select: { id: true, email: true, notifyOnPublish: true } } },
+          },
+        },
+      },
+      sections: {
+        where: { sectionKey: "executive_snapshot" },
+        select: { content: true },
+      },
+      notifications: {
+        where: { type: NOTIFICATION_TYPES.REPORT_PUBLISHED, status: { in: ["sent", "skipped"] } },
+        select: { userId: true },
+      },
+    },
+  });
+
+  // Unpublished again before the job ran
+  if (!report || !report.published) {
+    return;
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  const periodLabel = report.periodLabel || formatPeriodLabel(report.periodEnd);
+  const headline = getHeadline((report.sections[0]?.content as ReportSectionContent | undefined) ?? null);
+  const alreadyHandled = new Set(report.notifications.map((n) => n.userId));
+  const transport = getEmailTransport();
+  const failures: string[] = [];
+
+  for (const { user } of report.company.memberships) {
+    if (alreadyHandled.has(user.id)) {
+      continue;
+    }
+
+    const message = buildReportPublishedEmail({
+      to: user.email,
+      companyName: report.company.name,
+      periodLabel,
+      headline,
+      reportUrl: `${appUrl}/reports/${report.id}`,
+      settingsUrl: `${appUrl}/settings`,
+    });
+
+    const key = { type: NOTIFICATION_TYPES.REPORT_PUBLISHED, reportId: report.id, userId: user.id };
+    const record = {
+      email: user.email,
+      subject: message.subject,
+      transport: transport.name,
+    };
+
+    if (!user.notifyOnPublish) {
+      await prisma.notificationDelivery.upsert({
+        where: { type_reportId_userId: key },
+        create: { ...key, ...record, status: "skipped" },
+        update: { ...record, status: "skipped", error: null },
+      });
+      continue;
+    }
+
+    try {
+      const { messageId } = await transport.send(message);
+      await prisma.notificationDelivery.upsert({
+        where: { type_reportId_userId: key },
+        create: { ...key, ...record, status: "sent", messageId, sentAt: new Date() },
+        update: { ...record, status: "sent", messageId, sentAt: new Date(), error: null },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown email error";
+      console.error(`Failed to email ${user.email} about report ${report.id}:`, error);
+      failures.push(user.email);
+      await prisma.notificationDelivery.upsert({
+        where: { type_reportId_userId: key },
+        create: { ...key, ...record, status: "failed", error: errorMessage },
+        update: { ...record, status: "failed", error: errorMessage },
+      });
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Failed to email ${failures.length} user(s): ${failures.join(", ")}`);
+  }
+}
+
+function buildScheduledRunEmail(input: {
+  to: string;
+  companyName: string;
+  periodLabel: string;
+  outcome: ScheduledRunOutcome;
+  message?: string;
+  reportUrl: string | null;
+  settingsUrl: string;
+}): EmailMessage {
+  const subject = {
+    complete: `Scheduled report ready for review: ${input.companyName} ${input.periodLabel}`,
+    waiting: `Scheduled report waiting for a workbook: ${input.companyName} ${input.periodLabel}`,
+    failed: `Scheduled report failed: ${input.companyName} ${input.periodLabel}`,
+  }[input.outcome];
+
+  const summary = {
+    complete: `The scheduled ${input.periodLabel} report for ${input.companyName} has been generated and is ready for review.`,
+    waiting: `The scheduled ${input.periodLabel} report for ${input.companyName} is due, but there's no new workbook to run it from yet. It will start once one is saved.`,
+    failed: `The scheduled ${input.periodLabel} report for ${input.companyName} could not be generated.`,
+  }[input.outcome];
+
+  const text = [
+    summary,
+    ...(input.message ? ["", input.message] : []),
+    ...(input.reportUrl ? ["", `Open the report: ${input.reportUrl}`] : []),
+    "",
+    `Notification settings: ${input.settingsUrl}`,
+  ].join("\n");
+
+  const html = `
+    <p>${escapeHtml(summary)}</p>
+    ${input.message ? `<p style="color:#374151">${escapeHtml(input.message)}</p>` : ""}
+    ${input.reportUrl ? `<p><a href="${input.reportUrl}">Open the report</a></p>` : ""}
+    <p style="font-size:12px;color:#6b7280"><a href="${input.settingsUrl}">Notification settings</a></p>
+  `.trim();
+
+  return { to: input.to, subject, text, html };
+}
+
+/**
+ * Email the firm users who run generation about a scheduled run. Without a
+ * report (no workbook found) every call sends; with one, each user is only
+ * emailed once per outcome.
+ */
+export async function sendScheduledRunNotification(input: {
+  companyName: string;
+  periodLabel: string;
+  outcome: ScheduledRunOutcome;
+  message?: string;
+  reportId?: string;
+}): Promise<void> {
+  const type = SCHEDULED_RUN_TYPES[input.outcome];
+  const roles = USER_ROLES.filter((r) => hasPermission(r.value, "reports:generate")).map((r) => r.value);
+
+  const [recipients, delivered] = await Promise.all([
+    prisma.user.findMany({
+      where: { role: { in: roles }, notifyOnScheduledRun: true },
+      select: { id: true, email: true },
+    }),
+    input.reportId
+      ? prisma.notificationDelivery.findMany({
+          where: { type, reportId: input.reportId, status: "sent" },
+          select: { userId: true },
+        })
+      : [],
+  ]);
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  const alreadySent = new Set(delivered.map((d) => d.userId));
+  const transport = getEmailTransport();
+
+  for (const user of recipients) {
+    if (alreadySent.has(user.id)) {
+      continue;
+    }
+
+    const message = buildScheduledRunEmail({
+      to: user.email,
+      companyName: input.companyName,
+      periodLabel: input.periodLabel,
+      outcome: input.outcome,
+      message: input.message,
+      reportUrl: input.reportId ? `${appUrl}/admin/reports/${input.reportId}` : null,
+      settingsUrl: `${appUrl}/settings`,
+    });
+
+    const record = {
+      type,
+      reportId: input.reportId ?? null,
+      userId: user.id,
+      email: user.email,
+      subject: message.subject,
+      transport: transport.name,
+    };
+
+    // Compound unique lookups don't work with a null reportId, so alerts
+    // without a report are always new rows
+    const save = (data: Prisma.NotificationDeliveryUncheckedCreateInput) =>
+      input.reportId
+        ? prisma.notificationDelivery.upsert({
+            where: { type_reportId_userId: { type, reportId: input.reportId, userId: user.id } },
+            create: data,
+            update: data,
+          })
+        : prisma.notificationDelivery.create({ data });
+
+    try {
+      const { messageId } = await transport.send(message);
+      await save({ ...record, status: "sent", messageId, sentAt: new Date(), error: null });
+    } catch (error) {
+      // Admin alerts are best effort: record the failure and carry on
+      console.error(`Failed to email ${user.email} about a scheduled run:`, error);
+      await save({
+        ...record,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown email error",
+      });
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Roles and Permissions
+ *
+ * Every API route checks a permission rather than a role, so changing what
+ * a role can do only touches the table below. Kept free of server imports:
+ * the middleware and client components use it too.
+ */
+
+import type { UserRole } from "@prisma/client";
+
+export type Permission =
+  | "admin:access" // Open the admin panel and read companies and reports
+  | "companies:manage" // Create, edit and delete companies and their metric config
+  | "users:manage" // Link users to companies and change any role
+  | "reports:generate" // Upload workbooks and start generation runs
+  | "reports:edit" // Edit, restore and regenerate sections
+  | "reports:review" // Approve sections or request changes
+  | "reports:publish" // Publish and unpublish reports
+  | "audit:view" // Read and export the audit log
+  | "team:invite"; // Invite colleagues to the user's own company
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    "admin:access",
+    "companies:manage",
+    "users:manage",
+    "reports:generate",
+    "reports:edit",
+    "reports:review",
+    "reports:publish",
+    "audit:view",
+    "team:invite",
+  ],
+  analyst: ["admin:access", "reports:generate", "reports:edit"],
+  reviewer: ["admin:access", "reports:review", "reports:publish"],
+  client_owner: ["team:invite"],
+  client_viewer: [],
+};
+
+// Firm roles are set on the user and apply to every company; client roles
+// are set per company membership.
+export const USER_ROLES: Array<{
+  value: UserRole;
+  label: string;
+  description: string;
+  scope: "firm" | "client";
+}> = [
+  { value: "admin", label: "Admin", description: "Full access to every company", scope: "firm" },
+  { value: "analyst", label: "Analyst", description: "Generates and edits reports", scope: "firm" },
+  { value: "reviewer", label: "Reviewer", description: "Approves and publishes reports", scope: "firm" },
+  {
+    value: "client_owner",
+    label: "Client Owner",
+    description: "Views reports and invites colleagues",
+    scope: "client",
+  },
+  { value: "client_viewer", label: "Client Viewer", description: "Views published reports", scope: "client" },
+];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.some((role) => role.value === value);
+}
+
+export function isClientRole(value: unknown): value is UserRole {
+  return USER_ROLES.some((role) => role.value === value && role.scope === "client");
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isUserRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Firm roles work across all companies; client roles are scoped to their own.
+ */
+export function isFirmRole(role: string | null | undefined): boolean {
+  return hasPermission(role, "admin:access");
+}
+
+/**
+ * A user's role at one company: a firm role applies everywhere, otherwise
+ * the membership role counts.
+ */
+export function getCompanyRole(userRole: UserRole, membershipRole: UserRole): UserRole {
+  return isFirmRole(userRole) ? userRole : membershipRole;
+}
+
+export function getRoleLabel(role: string): string {
+  return USER_ROLES.find((r) => r.value === role)?.label ?? role;
+}
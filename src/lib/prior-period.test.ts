@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ensureFollowUpBlock,
+  FOLLOW_UP_HEADING,
+  loadPriorPeriodContext,
+  type PriorPeriodContext,
+} from "@/lib/prior-period";
+
+const db = vi.hoisted(() => ({ report: { findFirst: vi.fn() } }));
+
+vi.mock("@/lib/db", () => ({ default: db, prisma: db }));
+
+const SNAPSHOT = `## 1. Executive Snapshot
+
+Revenue grew 8% on new contracts.
+
+### 1.2 Materiality & Variance Count
+- Payroll up $12.8K MoM
+
+### 1.3 Cash Position
+Cash is steady.`;
+
+describe("loadPriorPeriodContext", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("only reads the latest published report before the period", async () => {
+    db.report.findFirst.mockResolvedValue(null);
+    const periodEnd = new Date("2025-04-30");
+
+    await expect(loadPriorPeriodContext("company_acme", periodEnd)).resolves.toBeNull();
+    expect(db.report.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { companyId: "company_acme", status: "complete", published: true, periodEnd: { lt: periodEnd } },
+        orderBy: [{ periodEnd: "desc" }, { publishedAt: "desc" }],
+      })
+    );
+  });
+
+  it("collects the snapshot, material variances and questions", async () => {
+    db.report.findFirst.mockResolvedValue({
+      id: "report_march",
+      periodEnd: new Date("2025-03-31"),
+      periodLabel: "March 2025",
+      sections: [
+        {
+          sectionKey: "executive_snapshot",
+          content: { raw_markdown: SNAPSHOT, questions: ["Why did payroll rise?"] },
+        },
+        {
+          sectionKey: "cash_flow",
+          content: { raw_markdown: "", questions: ["Why did payroll rise?", "Is the loan being refinanced?"] },
+        },
+      ],
+    });
+
+    const context = await loadPriorPeriodContext("company_acme", new Date("2025-04-30"));
+
+    expect(context).toEqual({
+      reportId: "report_march",
+      periodLabel: "March 2025",
+      executiveSnapshot: SNAPSHOT,
+      materialVariances: "### 1.2 Materiality & Variance Count\n- Payroll up $12.8K MoM",
+      questions: ["Why did payroll rise?", "Is the loan being refinanced?"],
+    });
+  });
+});
+
+describe("ensureFollowUpBlock", () => {
+  const context: PriorPeriodContext = {
+    reportId: "report_march",
+    periodLabel: "March 2025",
+    executiveSnapshot: null,
+    materialVariances: null,
+    questions: ["Why did payroll rise?"],
+  };
+
+  it("lists last month's questions as open when the model skipped them", () => {
+    const markdown = ensureFollowUpBlock("## 1. Executive Snapshot\n\nSteady month.\n", context);
+    expect(markdown).toContain(`### ${FOLLOW_UP_HEADING}`);
+    expect(markdown).toContain("| Why did payroll rise? | Open | Not addressed in this period's data |");
+  });
+
+  it("leaves a snapshot that already follows up alone", () => {
+    const markdown = `## 1. Executive Snapshot\n\n### ${FOLLOW_UP_HEADING}\n\n| Question | Status | Update |`;
+    expect(ensureFollowUpBlock(markdown, context)).toBe(markdown);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Prior-Period Context
+ *
+ * Gives generation a memory of last month: the company's previous published
+ * report supplies its executive snapshot, material variance list and the
+ * questions we asked management, so MoM commentary can reference what the
+ * client was told and open questions get followed up. Drafts that were never
+ * published are skipped, since the client never saw them.
+ */
+
+import prisma from "@/lib/db";
+import { parseMarkdownBlocks } from "@/lib/report-structure";
+import { formatPeriodLabel } from "@/lib/utils";
+import type { ReportSectionContent } from "@/types";
+
+export const FOLLOW_UP_HEADING = "Follow-up on Last Month's Open Questions";
+
+export interface PriorPeriodContext {
+  reportId: string;
+  periodLabel: string;
+  executiveSnapshot: string | null;
+  materialVariances: string | null;
+  questions: string[];
+}
+
+/**
+ * Pull the "Materiality & Variance Count" subsection out of a section's markdown.
+ */
+function extractMaterialVariances(markdown: string): string | null {
+  const lines = markdown.split("\n");
+  const start = lines.findIndex((line) => /^(#{2,4}\s+)?\d+\.\d+\s+.*material/i.test(line.trim()));
+  if (start === -1) return null;
+
+  let end = start + 1;
+  while (end < lines.length && !/^(#{2,4}\s+)?\d+\.\d+\s+\S/.test(lines[end].trim())) {
+    end++;
+  }
+
+  return lines.slice(start, end).join("\n").trim() || null;
+}
+
+function sectionQuestions(content: ReportSectionContent): string[] {
+  if (content.questions?.length) return content.questions;
+  if (!content.raw_markdown) return [];
+
+  // Reports generated before structured extraction only have markdown
+  return parseMarkdownBlocks(content.raw_markdown).flatMap((block) =>
+    block.type === "callout" && block.variant === "questions" ? block.items : []
+  );
+}
+
+/**
+ * Load the company's most recent published report before the given period.
+ */
+export async function loadPriorPeriodContext(
+  companyId: string,
+  periodEnd: Date
+): Promise<PriorPeriodContext | null> {
+  const prior = await prisma.report.findFirst({
+    where: {
+      companyId,
+      status: "complete",
+      published: true,
+      periodEnd: { lt: periodEnd },
+    },
+    orderBy: [{ periodEnd: "desc" }, { publishedAt: "desc" }],
+    include: {
+      sections: {
+        orderBy: { sortOrder: "asc" },
+      },
+    },
+  });
+
+  if (!prior || prior.sections.length === 0) return null;
+
+  const sectionMarkdown = (sectionKey: string) => {
+    const section = prior.sections.find((s) => s.sectionKey === sectionKey);
+    return (section?.content as ReportSectionContent | undefined)?.raw_markdown ?? null;
+  };
+  const snapshotMarkdown = sectionMarkdown("executive_snapshot");
+  const varianceMarkdown = sectionMarkdown("variance_performance");
+
+  const questions = Array.from(
+    new Set(prior.sections.flatMap((s) => sectionQuestions(s.content as ReportSectionContent)))
+  );
+
+  return {
+    reportId: prior.id,
+    periodLabel: prior.periodLabel || formatPeriodLabel(prior.periodEnd),
+    executiveSnapshot: snapshotMarkdown,
+    materialVariances:
+      (snapshotMarkdown && extractMaterialVariances(snapshotMarkdown)) ||
+      (varianceMarkdown && extractMaterialVariances(varianceMarkdown)) ||
+      null,
+    questions,
+  };
+}
+
+/**
+ * Format the prior period for the generation prompt.
+ */
+export function formatPriorPeriodContext(context: PriorPeriodContext): string {
+  let output = `PRIOR PERIOD REPORT (${context.periodLabel}) - what the client was told last month:\n`;
+
+  if (context.executiveSnapshot) {
+    output += `\n### Prior Executive Snapshot\n${context.executiveSnapshot}\n`;
+  }
+  if (context.materialVariances) {
+    output += `\n### Prior Material Variances\n${context.materialVariances}\n`;
+  }
+
+  if (context.questions.length > 0) {
+    output += `\n### Prior Questions for Management\n`;
+    output += context.questions.map((q, i) => `${i + 1}. ${q}`).join("\n");
+    output += `\n\nAt the end of section 1 (Executive Snapshot), add a subsection headed "### ${FOLLOW_UP_HEADING}" with a table | Question (${context.periodLabel}) | Status | Update |. Cover every question above; Status is Resolved, Partially resolved or Open, and Update cites the current-period data that answers it (or says what is still missing).\n`;
+  }
+
+  output += `\nWhere relevant, reference last month's commentary in the MoM analysis (e.g., whether flagged variances persisted or reversed). Do not restate prior figures that are not in the current workbook.\n`;
+
+  return output;
+}
+
+/**
+ * Deterministic fallback when the model skipped the follow-up block: list
+ * last month's questions as open at the end of the executive snapshot.
+ */
+export function ensureFollowUpBlock(markdown: string, context: PriorPeriodContext): string {
+  if (context.questions.length === 0) return markdown;
+  if (markdown.toLowerCase().includes(FOLLOW_UP_HEADING.toLowerCase())) return markdown;
+
+  const rows = context.questions
+    .map((q) => `| ${q.replace(/\|/g, "/")} | Open | Not addressed in this period's data |`)
+    .join("\n");
+
+  return `${markdown.trimEnd()}
+
+### ${FOLLOW_UP_HEADING}
+
+| Question (${context.periodLabel}) | Status | Update |
+|---|---|---|
+${rows}
+`;
+}
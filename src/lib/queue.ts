@@ -0,0 +1,128 @@
+/**
+ * Job Queue Module
+ *
+ * Durable background jobs backed by pg-boss (stored in the same Postgres
+ * database as the app). Report generation runs here instead of inside the
+ * upload request, so long workbooks no longer hit the route timeout.
+ */
+
+import PgBoss from "pg-boss";
+
+// Queue names
+export const QUEUES = {
+  GENERATE_REPORT: "generate-report",
+  NOTIFY_REPORT_PUBLISHED: "notify-report-published",
+  RUN_SCHEDULES: "run-report-schedules",
+} as const;
+
+// Retry policy for report generation (Claude overloads, storage hiccups, etc.)
+const GENERATION_RETRY_LIMIT = 3;
+const GENERATION_RETRY_DELAY = 30; // seconds, doubled on each retry
+const GENERATION_EXPIRE_MINUTES = 15;
+
+// Reports each worker process generates at once (batches start more as slots free up)
+export const GENERATION_CONCURRENCY = Math.max(1, parseInt(process.env.GENERATION_CONCURRENCY || "3", 10) || 1);
+
+// Retry policy for publish emails (only unsent recipients are retried)
+const NOTIFICATION_RETRY_LIMIT = 5;
+const NOTIFICATION_RETRY_DELAY = 60; // seconds, doubled on each retry
+
+// Scheduled monthly runs are checked at the top of every hour
+export const SCHEDULE_CHECK_CRON = "0 * * * *";
+
+export interface GenerateReportJob {
+  reportId: string;
+}
+
+export interface NotifyReportPublishedJob {
+  reportId: string;
+}
+
+const globalForBoss = globalThis as unknown as {
+  boss: Promise<PgBoss> | undefined;
+};
+
+async function createBoss(): Promise<PgBoss> {
+  const connectionString = process.env.QUEUE_DATABASE_URL || process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error("DATABASE_URL is not configured - cannot start job queue");
+  }
+
+  const boss = new PgBoss({
+    connectionString,
+    schema: "pgboss",
+    max: 3, // Keep the pool small - Prisma owns the main connections
+  });
+
+  boss.on("error", (error) => console.error("Job queue error:", error));
+
+  await boss.start();
+
+  // pg-boss v10 requires queues to exist before sending or working
+  await boss.createQueue(QUEUES.GENERATE_REPORT, {
+    name: QUEUES.GENERATE_REPORT,
+    retryLimit: GENERATION_RETRY_LIMIT,
+    retryDelay: GENERATION_RETRY_DELAY,
+    retryBackoff: true,
+    expireInMinutes: GENERATION_EXPIRE_MINUTES,
+  });
+
+  await boss.createQueue(QUEUES.NOTIFY_REPORT_PUBLISHED, {
+    name: QUEUES.NOTIFY_REPORT_PUBLISHED,
+    retryLimit: NOTIFICATION_RETRY_LIMIT,
+    retryDelay: NOTIFICATION_RETRY_DELAY,
+    retryBackoff: true,
+  });
+
+  // A missed check is picked up by the next one, so no retries
+  await boss.createQueue(QUEUES.RUN_SCHEDULES, {
+    name: QUEUES.RUN_SCHEDULES,
+    retryLimit: 0,
+  });
+
+  return boss;
+}
+
+/**
+ * Get the shared pg-boss instance (started once per process).
+ */
+export function getQueue(): Promise<PgBoss> {
+  if (!globalForBoss.boss) {
+    globalForBoss.boss = createBoss().catch((error) => {
+      // Allow the next caller to retry instead of caching a failed start
+      globalForBoss.boss = undefined;
+      throw error;
+    });
+  }
+  return globalForBoss.boss;
+}
+
+/**
+ * Enqueue a report generation run. Returns the pg-boss job id.
+ */
+export async function enqueueReportGeneration(reportId: string): Promise<string> {
+  const boss = await getQueue();
+  const jobId = await boss.send(QUEUES.GENERATE_REPORT, { reportId } satisfies GenerateReportJob);
+
+  if (!jobId) {
+    throw new Error(`Failed to enqueue generation job for report ${reportId}`);
+  }
+
+  return jobId;
+}
+
+/**
+ * Enqueue the "report published" emails for a report's company users.
+ */
+export async function enqueueReportPublishedNotification(reportId: string): Promise<string> {
+  const boss = await getQueue();
+  const jobId = await boss.send(QUEUES.NOTIFY_REPORT_PUBLISHED, {
+    reportId,
+  } satisfies NotifyReportPublishedJob);
+
+  if (!jobId) {
+    throw new Error(`Failed to enqueue publish notification for report ${reportId}`);
+  }
+
+  return jobId;
+}
@@ -0,0 +1,529 @@
+/**
+ * Report Generation Pipeline
+ *
+ * Runs inside the job queue worker (see worker.ts). Each run downloads the
+ * stored source workbook, extracts the core sheets, loads last month's
+ * report for context, calls Claude (recording its token usage and cost) and
+ * saves the parsed sections, then tie the section tables out against the
+ * workbook. Every step is recorded as a ReportEvent so admins can
+ * see exactly where a run is or where it failed.
+ *
+ * Thrown errors are treated as transient and retried by the queue.
+ * Permanent problems (missing sheets, missing source file) mark the report
+ * as failed and return without throwing.
+ */
+
+import { Prisma, type ClientMetricConfig } from "@prisma/client";
+import prisma from "@/lib/db";
+import { downloadFile } from "@/lib/storage";
+import {
+  describeSheetTrim,
+  extractCoreSheets,
+  formatForClaude,
+  type ExtractionResult,
+  type SheetTrim,
+} from "@/lib/excel";
+import { toSheetMappingEntries, type SheetMappingEntry } from "@/lib/sheet-roles";
+import {
+  buildReportPrompt,
+  buildSectionPrompt,
+  generateFinancialReport,
+  generateReportSection,
+  REPORT_INPUT_BUDGET,
+  SECTION_INPUT_BUDGET,
+} from "@/lib/claude";
+import { getTokenCounter, type TokenCounter } from "@/lib/token-count";
+import { generateReportPdf } from "@/lib/report-pdf";
+import { buildSectionContent } from "@/lib/report-structure";
+import {
+  ensureFollowUpBlock,
+  formatPriorPeriodContext,
+  loadPriorPeriodContext,
+  type PriorPeriodContext,
+} from "@/lib/prior-period";
+import { saveSectionRevision } from "@/lib/section-revisions";
+import { runTieOutChecks, saveTieOutFindings } from "@/lib/tie-out";
+import { recordUsage } from "@/lib/usage";
+import type { GenerationStage, ReportSectionContent } from "@/types";
+
+// Percent complete when each stage starts (null = keep current progress)
+const STAGE_PROGRESS: Record<GenerationStage, number | null> = {
+  uploading: 0,
+  queued: 10,
+  extracting: 20,
+  generating: 35,
+  saving: 90,
+  complete: 100,
+  retrying: null,
+  failed: null,
+};
+
+/**
+ * Move the report to a new pipeline stage and append it to the generation log.
+ */
+export async function recordReportEvent(
+  reportId: string,
+  step: GenerationStage,
+  message?: string,
+  attempt: number = 1
+): Promise<void> {
+  const now = new Date();
+  const progress = STAGE_PROGRESS[step];
+  const isFinished = step === "complete" || step === "failed";
+
+  await prisma.$transaction([
+    prisma.report.update({
+      where: { id: reportId },
+      data: {
+        stage: step,
+        stageUpdatedAt: now,
+        ...(progress !== null ? { progress } : {}),
+        ...(isFinished ? { completedAt: now } : {}),
+      },
+    }),
+    prisma.reportEvent.create({
+      data: { reportId, step, message, attempt, createdAt: now },
+    }),
+  ]);
+}
+
+/**
+ * Mark a report as failed and log the reason.
+ */
+export async function markReportFailed(
+  reportId: string,
+  errorMessage: string,
+  attempt: number = 1
+): Promise<void> {
+  await prisma.report.update({
+    where: { id: reportId },
+    data: { status: "failed", errorMessage },
+  });
+  await recordReportEvent(reportId, "failed", errorMessage, attempt);
+}
+
+// Extraction passes before giving up on fitting the prompt
+const MAX_BUDGET_PASSES = 3;
+
+type PromptBuilder = (workbookData: string) => { system: string; userMessage: string };
+
+function countPromptTokens(buildPrompt: PromptBuilder, workbookData: string, tokenCounter: TokenCounter) {
+  const { system, userMessage } = buildPrompt(workbookData);
+  return tokenCounter.count({ system, text: userMessage });
+}
+
+/**
+ * Extract the workbook so the whole prompt (system prompt, format reference,
+ * prior-period context and data) fits within `inputBudget`. Sheet data gets
+ * whatever the rest of the prompt leaves. Sheets are sized with the local
+ * estimate, and the configured counter counts the assembled prompt once per
+ * pass. The estimate is approximate and verified figures and trimming notes
+ * aren't part of the data budget, so if the prompt still comes out over, the
+ * data budget shrinks by the overshoot and the workbook is extracted again.
+ * Returns null if it never fits.
+ */
+async function extractWithinPromptBudget(
+  buffer: Buffer,
+  options: { mappings: SheetMappingEntry[]; periodEnd: string },
+  inputBudget: number,
+  buildPrompt: PromptBuilder,
+  formatData: (extraction: ExtractionResult) => string
+): Promise<{ extraction: ExtractionResult; formattedData: string; promptTokens: number } | null> {
+  const tokenCounter = getTokenCounter();
+  let maxTokens = inputBudget - (await countPromptTokens(buildPrompt, "", tokenCounter));
+
+  for (let pass = 0; pass < MAX_BUDGET_PASSES && maxTokens > 0; pass++) {
+    const extraction = await extractCoreSheets(buffer, { ...options, maxTokens });
+    const formattedData = formatData(extraction);
+    const promptTokens = await countPromptTokens(buildPrompt, formattedData, tokenCounter);
+
+    if (promptTokens <= inputBudget) {
+      return { extraction, formattedData, promptTokens };
+    }
+    maxTokens -= promptTokens - inputBudget;
+  }
+
+  return null;
+}
+
+/**
+ * The full report prompt for a company and period, waiting for its data.
+ */
+async function getReportPromptBuilder(
+  company: { id: string; name: string; metricConfig: ClientMetricConfig | null },
+  periodEnd: Date
+): Promise<{
+  buildPrompt: PromptBuilder;
+  priorPeriod: PriorPeriodContext | null;
+  priorPeriodContext: string | undefined;
+}> {
+  const priorPeriod = await loadPriorPeriodContext(company.id, periodEnd);
+  const priorPeriodContext = priorPeriod ? formatPriorPeriodContext(priorPeriod) : undefined;
+  const period = periodEnd.toISOString().split("T")[0];
+
+  return {
+    buildPrompt: (workbookData) =>
+      buildReportPrompt(workbookData, company.name, period, company.metricConfig, priorPeriodContext),
+    priorPeriod,
+    priorPeriodContext,
+  };
+}
+
+/**
+ * Tokens of sheet data a report for this company and period starts with:
+ * the input budget less the rest of the prompt. Preflight checks workbooks
+ * against the same number generation extracts with.
+ */
+export async function getReportDataBudget(
+  company: { id: string; name: string; metricConfig: ClientMetricConfig | null },
+  periodEnd: Date
+): Promise<number> {
+  const { buildPrompt } = await getReportPromptBuilder(company, periodEnd);
+  return REPORT_INPUT_BUDGET - (await countPromptTokens(buildPrompt, "", getTokenCounter()));
+}
+
+/**
+ * Run the full generation pipeline for a queued report.
+ */
+export async function runReportGeneration(reportId: string, attempt: number): Promise<void> {
+  const report = await prisma.report.findUnique({
+    where: { id: reportId },
+    include: { company: { include: { metricConfig: true, sheetMappings: true } } },
+  });
+
+  if (!report) {
+    console.warn(`Generation job skipped: report ${reportId} no longer exists`);
+    return;
+  }
+
+  if (report.status === "complete") {
+    // Job was redelivered after a successful run
+    return;
+  }
+
+  await prisma.report.update({
+    where: { id: reportId },
+    data: {
+      status: "processing",
+      errorMessage: null,
+      attempts: attempt,
+      startedAt: report.startedAt ?? new Date(),
+      completedAt: null,
+    },
+  });
+
+  if (!report.sourceFileUrl) {
+    await markReportFailed(reportId, "Source file is missing from storage", attempt);
+    return;
+  }
+
+  // Step 1: Download and extract core sheets
+  await recordReportEvent(reportId, "extracting", undefined, attempt);
+
+  const sourceFile = await downloadFile(report.sourceFileUrl);
+  const fileBuffer = Buffer.from(await sourceFile.arrayBuffer());
+  const periodEnd = report.periodEnd.toISOString().split("T")[0];
+  const { buildPrompt, priorPeriod, priorPeriodContext } = await getReportPromptBuilder(
+    report.company,
+    report.periodEnd
+  );
+
+  const fitted = await extractWithinPromptBudget(
+    fileBuffer,
+    { mappings: toSheetMappingEntries(report.company.sheetMappings), periodEnd },
+    REPORT_INPUT_BUDGET,
+    buildPrompt,
+    (extraction) => formatForClaude(extraction, report.company.name, periodEnd)
+  );
+
+  if (!fitted) {
+    await markReportFailed(
+      reportId,
+      "The workbook data doesn't fit in the model's context window, even after trimming",
+      attempt
+    );
+    return;
+  }
+
+  const { extraction, formattedData, promptTokens } = fitted;
+
+  if (extraction.missingRequiredSheets.length > 0) {
+    await markReportFailed(
+      reportId,
+      `Missing required sheets: ${extraction.missingRequiredSheets.join(", ")}`,
+      attempt
+    );
+    return;
+  }
+
+  if (extraction.statements.warnings.length > 0) {
+    console.warn(`Statement parser warnings for report ${reportId}:`, extraction.statements.warnings);
+  }
+
+  // Step 2: Generate report with Claude
+  await recordReportEvent(
+    reportId,
+    "generating",
+    `${extraction.sheets.length} sheets${extraction.trimmedSheets.length > 0 ? ` (${extraction.trimmedSheets.length} trimmed to fit)` : ""}, ${extraction.statements.income.length} months of verified figures, ${extraction.totalTokens.toLocaleString()} data / ${promptTokens.toLocaleString()} prompt tokens${priorPeriod ? `, prior period ${priorPeriod.periodLabel}` : ""}`,
+    attempt
+  );
+
+  const { report: reportContent, usage } = await generateFinancialReport(
+    formattedData,
+    report.company.name,
+    periodEnd,
+    report.company.metricConfig,
+    priorPeriodContext
+  );
+
+  // Recorded straight away so attempts that fail after this still count
+  await recordUsage({ companyId: report.companyId, reportId, kind: "generation", attempt, usage });
+
+  // Step 3: Parse and save sections
+  await recordReportEvent(reportId, "saving", undefined, attempt);
+
+  const parsedSections = ensureTrimmedDataNote(parseReportSections(reportContent), extraction.trimmedSheets);
+
+  // Last month's questions are followed up at the end of the executive snapshot (or the first section)
+  const followUpKey = parsedSections.some((s) => s.key === "executive_snapshot")
+    ? "executive_snapshot"
+    : parsedSections[0]?.key;
+
+  const sections = parsedSections.map((section) => {
+    const markdown =
+      priorPeriod && section.key === followUpKey
+        ? ensureFollowUpBlock(section.content, priorPeriod)
+        : section.content;
+    return { ...section, content: markdown, structured: buildSectionContent(markdown) };
+  });
+
+  await prisma.$transaction([
+    // Clear sections left behind by an earlier attempt
+    prisma.reportSection.deleteMany({ where: { reportId } }),
+    ...sections.map((section) =>
+      prisma.reportSection.create({
+        data: {
+          reportId,
+          sectionKey: section.key,
+          sectionName: section.name,
+          sortOrder: section.order,
+          content: section.structured as Prisma.InputJsonObject,
+          revisions: {
+            create: {
+              version: 1,
+              content: section.structured as Prisma.InputJsonObject,
+              source: "generated",
+            },
+          },
+        },
+      })
+    ),
+    // Update report status to complete; it stays unpublished until every section is approved
+    prisma.report.update({
+      where: { id: reportId },
+      data: {
+        status: "complete",
+        reviewStatus: "in_review",
+        approvedAt: null,
+        claudeRunId: usage.messageId,
+      },
+    }),
+  ]);
+
+  // Step 4: Tie out the generated numbers (a checker bug shouldn't re-run Claude)
+  let tieOutSummary = "tie-out checks not run";
+  try {
+    const findings = runTieOutChecks(
+      sections.map((section) => ({ sectionKey: section.key, content: section.structured })),
+      extraction.statements
+    );
+    await saveTieOutFindings(reportId, findings);
+    tieOutSummary = `${findings.filter((f) => !f.passed).length} of ${findings.length} tie-out checks failed`;
+  } catch (checkError) {
+    console.error(`Tie-out checks failed for report ${reportId}:`, checkError);
+  }
+
+  await recordReportEvent(
+    reportId,
+    "complete",
+    `${sections.length} sections saved, ${tieOutSummary}`,
+    attempt
+  );
+
+  // Render the PDF up front so the first download is instant
+  // (the download route renders on demand if this fails)
+  try {
+    await generateReportPdf(reportId);
+  } catch (pdfError) {
+    console.error(`PDF rendering failed for report ${reportId}:`, pdfError);
+  }
+}
+
+/**
+ * Regenerate one section from the stored source workbook and save it as a
+ * new revision. Runs inside the request (a single section fits well within
+ * the route timeout).
+ */
+export async function regenerateSection(
+  sectionId: string,
+  userId: string,
+  instructions?: string
+): Promise<{ version: number; usage: { inputTokens: number; outputTokens: number } }> {
+  const section = await prisma.reportSection.findUniqueOrThrow({
+    where: { id: sectionId },
+    include: {
+      report: { include: { company: { include: { metricConfig: true, sheetMappings: true } } } },
+    },
+  });
+  const { report } = section;
+
+  if (!report.sourceFileUrl) {
+    throw new Error("Source file is missing from storage");
+  }
+
+  const sourceFile = await downloadFile(report.sourceFileUrl);
+  const periodEnd = report.periodEnd.toISOString().split("T")[0];
+  const request = {
+    name: section.sectionName,
+    currentMarkdown: (section.content as ReportSectionContent).raw_markdown,
+    instructions,
+  };
+
+  const fitted = await extractWithinPromptBudget(
+    Buffer.from(await sourceFile.arrayBuffer()),
+    { mappings: toSheetMappingEntries(report.company.sheetMappings), periodEnd },
+    SECTION_INPUT_BUDGET,
+    (workbookData) =>
+      buildSectionPrompt(workbookData, report.company.name, periodEnd, report.company.metricConfig, request),
+    (extraction) => formatForClaude(extraction, report.company.name, periodEnd)
+  );
+
+  if (!fitted) {
+    throw new Error("The workbook data doesn't fit in the model's context window, even after trimming");
+  }
+
+  const { extraction, formattedData } = fitted;
+  const { markdown, usage } = await generateReportSection(
+    formattedData,
+    report.company.name,
+    periodEnd,
+    report.company.metricConfig,
+    request
+  );
+
+  await recordUsage({
+    companyId: report.companyId,
+    reportId: report.id,
+    kind: "section_regeneration",
+    sectionKey: section.sectionKey,
+    usage,
+  });
+
+  const { version } = await saveSectionRevision({
+    sectionId,
+    content: buildSectionContent(markdown),
+    source: "regenerated",
+    userId,
+    note: instructions ? `Regenerated: ${instructions}` : "Regenerated",
+    statements: extraction.statements,
+  });
+
+  return { version, usage };
+}
+
+// Parse markdown report into sections
+export function parseReportSections(markdown: string): Array<{
+  key: string;
+  name: string;
+  order: number;
+  content: string;
+}> {
+  const sectionDefinitions = [
+    { key: "executive_snapshot", pattern: /executive\s*snapshot/i, order: 1 },
+    { key: "revenue_performance", pattern: /revenue\s*performance/i, order: 2 },
+    { key: "cogs_gross_margin", pattern: /cogs|gross\s*margin/i, order: 3 },
+    { key: "operating_expenses", pattern: /operating\s*expenses/i, order: 4 },
+    { key: "profitability_bridges", pattern: /profitability|bridges/i, order: 5 },
+    { key: "variance_performance", pattern: /variance|performance/i, order: 6 },
+    { key: "cash_flow_liquidity", pattern: /cash\s*flow|liquidity/i, order: 7 },
+    { key: "balance_sheet_health", pattern: /balance\s*sheet/i, order: 8 },
+    { key: "risk_controls", pattern: /risk|controls/i, order: 9 },
+    { key: "appendix", pattern: /^(\d+\.\s*)?appendix/i, order: 10 },
+  ];
+
+  const sections: Array<{
+    key: string;
+    name: string;
+    order: number;
+    content: string;
+  }> = [];
+
+  // Split by ## headers
+  const parts = markdown.split(/^##\s+/m);
+
+  for (let i = 1; i < parts.length; i++) {
+    const part = parts[i];
+    const firstLineEnd = part.indexOf("\n");
+    const title = firstLineEnd > 0 ? part.slice(0, firstLineEnd).trim() : part.trim();
+    const content = firstLineEnd > 0 ? part.slice(firstLineEnd + 1).trim() : "";
+
+    // Match to section definition
+    for (const def of sectionDefinitions) {
+      if (def.pattern.test(title)) {
+        sections.push({
+          key: def.key,
+          name: `${def.order}. ${title.replace(/^\d+\.\s*/, "")}`,
+          order: def.order,
+          content: `## ${title}\n\n${content}`,
+        });
+        break;
+      }
+    }
+  }
+
+  // Sort by order
+  sections.sort((a, b) => a.order - b.order);
+
+  // If no sections found, create a single section with all content
+  if (sections.length === 0 && markdown.trim()) {
+    sections.push({
+      key: "full_report",
+      name: "Financial Review",
+      order: 1,
+      content: markdown,
+    });
+  }
+
+  return sections;
+}
+
+const TRIMMED_DATA_HEADING = "Data Trimmed to Fit";
+
+/**
+ * Deterministic fallback when the model didn't list the trimmed sheets in
+ * its data gaps: add them to the appendix (creating it if it was left out).
+ */
+function ensureTrimmedDataNote(
+  sections: ReturnType<typeof parseReportSections>,
+  trims: SheetTrim[]
+): ReturnType<typeof parseReportSections> {
+  if (trims.length === 0) return sections;
+
+  const appendix = sections.find((s) => s.key === "appendix");
+  const content = appendix?.content ?? "## 10. Appendix";
+  if (trims.every((trim) => content.includes(trim.sheetName))) return sections;
+
+  const note = `${content.trimEnd()}
+
+### ${TRIMMED_DATA_HEADING}
+
+Some workbook tabs were too large to analyze in full:
+
+${trims.map((trim) => `- ${describeSheetTrim(trim)}`).join("\n")}
+`;
+
+  if (appendix) {
+    return sections.map((s) => (s === appendix ? { ...s, content: note } : s));
+  }
+  return [...sections, { key: "appendix", name: "10. Appendix", order: 10, content: note }];
+}
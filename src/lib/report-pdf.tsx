@@ -0,0 +1,362 @@
+/**
+ * Report PDF Rendering
+ *
+ * Builds a board-ready PDF from the stored ReportSection content:
+ * cover page, numbered section headers, styled financial tables and the
+ * Executive Insights / Key Takeaways / Questions for Management callouts.
+ *
+ * Rendered server-side with @react-pdf/renderer and stored via uploadFile.
+ */
+
+import React from "react";
+import { Document, Page, Text, View, StyleSheet, renderToBuffer } from "@react-pdf/renderer";
+import prisma from "@/lib/db";
+import { uploadFile } from "@/lib/storage";
+import { formatFinancialNumber, isRowTotal } from "@/lib/format-financial";
+import { formatDate, formatPeriodLabel } from "@/lib/utils";
+import { parseMarkdownBlocks, type CalloutVariant, type MarkdownBlock } from "@/lib/report-structure";
+import type { ReportSectionContent, ReportTable } from "@/types";
+
+// Palette (matches the Big 4 styling in globals.css)
+const COLORS = {
+  navy: "#1d4ed8", // blue-700
+  ink: "#0f172a", // slate-900
+  body: "#475569", // slate-600
+  muted: "#64748b", // slate-500
+  rule: "#cbd5e1", // slate-300
+  hairline: "#f1f5f9", // slate-100
+  panel: "#f8fafc", // slate-50
+  amber: "#f59e0b",
+  amberPanel: "#fffbeb",
+  negative: "#dc2626",
+};
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 48,
+    paddingBottom: 56,
+    paddingHorizontal: 48,
+    fontFamily: "Helvetica",
+    fontSize: 9.5,
+    color: COLORS.body,
+    lineHeight: 1.4,
+  },
+  coverPage: {
+    padding: 64,
+    fontFamily: "Helvetica",
+    justifyContent: "space-between",
+  },
+  coverBrand: { fontSize: 14, fontFamily: "Helvetica-Bold", color: COLORS.navy },
+  coverTitle: { fontSize: 30, fontFamily: "Helvetica-Bold", color: COLORS.ink, marginBottom: 12 },
+  coverSubtitle: { fontSize: 16, color: COLORS.body, marginBottom: 4 },
+  coverRule: { borderBottomWidth: 3, borderBottomColor: COLORS.navy, width: 80, marginVertical: 24 },
+  coverMeta: { fontSize: 10, color: COLORS.muted, marginBottom: 3 },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    borderBottomWidth: 2,
+    borderBottomColor: COLORS.navy,
+    paddingBottom: 6,
+    marginBottom: 12,
+  },
+  sectionNumber: { fontSize: 22, fontFamily: "Helvetica-Bold", color: COLORS.navy, marginRight: 10 },
+  sectionTitle: { fontSize: 16, fontFamily: "Helvetica-Bold", color: COLORS.ink },
+  heading: { fontSize: 11, fontFamily: "Helvetica-Bold", color: COLORS.ink, marginTop: 12, marginBottom: 6 },
+  paragraph: { marginBottom: 6 },
+  listItem: { flexDirection: "row", marginBottom: 3 },
+  bullet: { width: 12, color: COLORS.navy },
+  listText: { flex: 1 },
+  table: { marginVertical: 8, borderTopWidth: 0.5, borderTopColor: COLORS.rule },
+  tableTitle: { fontSize: 10, fontFamily: "Helvetica-Bold", color: COLORS.ink, marginTop: 10 },
+  tableHeaderRow: {
+    flexDirection: "row",
+    backgroundColor: COLORS.panel,
+    borderBottomWidth: 1.5,
+    borderBottomColor: COLORS.rule,
+  },
+  tableRow: { flexDirection: "row", borderBottomWidth: 0.5, borderBottomColor: COLORS.hairline },
+  tableTotalRow: {
+    flexDirection: "row",
+    backgroundColor: COLORS.hairline,
+    borderTopWidth: 1.5,
+    borderTopColor: COLORS.rule,
+  },
+  th: { flex: 1, paddingVertical: 4, paddingHorizontal: 4, fontSize: 8, fontFamily: "Helvetica-Bold", color: COLORS.ink, textAlign: "right" },
+  td: { flex: 1, paddingVertical: 3, paddingHorizontal: 4, fontSize: 8.5, textAlign: "right" },
+  labelCell: { flex: 2, textAlign: "left" },
+  totalText: { fontFamily: "Helvetica-Bold", color: COLORS.ink },
+  negative: { color: COLORS.negative },
+  callout: {
+    borderLeftWidth: 3,
+    borderLeftColor: COLORS.navy,
+    backgroundColor: COLORS.panel,
+    padding: 10,
+    marginVertical: 8,
+  },
+  calloutQuestions: { borderLeftColor: COLORS.amber, backgroundColor: COLORS.amberPanel },
+  calloutHeader: {
+    fontSize: 8,
+    fontFamily: "Helvetica-Bold",
+    color: COLORS.muted,
+    textTransform: "uppercase",
+    letterSpacing: 1,
+    marginBottom: 6,
+  },
+  insightNumber: { width: 16, fontFamily: "Helvetica-Bold", color: COLORS.navy },
+  footer: {
+    position: "absolute",
+    bottom: 24,
+    left: 48,
+    right: 48,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    fontSize: 7.5,
+    color: COLORS.muted,
+  },
+});
+
+// ===========================================
+// CONTENT MODEL
+// ===========================================
+
+export interface ReportPdfData {
+  companyName: string;
+  periodLabel: string;
+  generatedAt: Date;
+  sections: {
+    sectionName: string;
+    sortOrder: number;
+    content: ReportSectionContent;
+  }[];
+}
+
+// Standard PDF fonts only cover WinAnsi - swap symbols the model likes to use
+function toPdfText(text: string): string {
+  return text
+    .replace(/\*\*|__/g, "")
+    .replace(/`/g, "")
+    .replace(/[✅✓]/g, "Yes")
+    .replace(/[❌✗]/g, "No")
+    .replace(/Δ/g, "Chg")
+    .replace(/≥/g, ">=")
+    .replace(/≤/g, "<=")
+    .replace(/→/g, "->")
+    .replace(/≈/g, "~")
+    .replace(/[^\x20-\x7E\u00A0-\u00FF\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026\u20AC]/g, "");
+}
+
+function tableToRows(table: ReportTable): string[][] {
+  return table.rows.map((row) => row.cells.map((cell) => cell.value));
+}
+
+/**
+ * Convert stored section content (structured or markdown) into blocks.
+ */
+export function sectionToBlocks(content: ReportSectionContent): MarkdownBlock[] {
+  if (content.raw_markdown) {
+    // Drop the leading "## N. Title" line - the section header renders it
+    return parseMarkdownBlocks(content.raw_markdown.replace(/^#{1,2}\s+.*\n+/, ""));
+  }
+
+  const blocks: MarkdownBlock[] = [];
+  if (content.executive_insights?.length) {
+    blocks.push({ type: "callout", variant: "insights", items: content.executive_insights });
+  }
+  for (const table of content.tables ?? []) {
+    blocks.push({ type: "table", title: table.title, headers: table.headers, rows: tableToRows(table) });
+  }
+  if (content.insights?.length) {
+    blocks.push({ type: "callout", variant: "takeaways", items: content.insights });
+  }
+  if (content.questions?.length) {
+    blocks.push({ type: "callout", variant: "questions", items: content.questions });
+  }
+  return blocks;
+}
+
+// ===========================================
+// PDF COMPONENTS
+// ===========================================
+
+function PdfTable({ title, headers, rows }: { title?: string; headers: string[]; rows: string[][] }) {
+  return (
+    <View wrap={rows.length > 12}>
+      {title && <Text style={styles.tableTitle}>{toPdfText(title)}</Text>}
+      <View style={styles.table}>
+        <View style={styles.tableHeaderRow} fixed={rows.length > 12}>
+          {headers.map((header, index) => (
+            <Text key={index} style={[styles.th, index === 0 ? styles.labelCell : {}]}>
+              {toPdfText(header)}
+            </Text>
+          ))}
+        </View>
+        {rows.map((row, rowIndex) => {
+          const isTotal = isRowTotal(row[0] ?? "");
+          return (
+            <View key={rowIndex} style={isTotal ? styles.tableTotalRow : styles.tableRow} wrap={false}>
+              {row.map((cell, cellIndex) => {
+                if (cellIndex === 0) {
+                  return (
+                    <Text key={cellIndex} style={[styles.td, styles.labelCell, isTotal ? styles.totalText : {}]}>
+                      {toPdfText(cell)}
+                    </Text>
+                  );
+                }
+                const formatted = formatFinancialNumber(cell);
+                return (
+                  <Text
+                    key={cellIndex}
+                    style={[
+                      styles.td,
+                      isTotal ? styles.totalText : {},
+                      formatted.isNegative ? styles.negative : {},
+                    ]}
+                  >
+                    {toPdfText(formatted.text)}
+                  </Text>
+                );
+              })}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const CALLOUT_TITLES: Record<CalloutVariant, string> = {
+  insights: "Top Executive Insights",
+  takeaways: "Key Takeaways",
+  questions: "Questions for Management",
+};
+
+function PdfCallout({ variant, items }: { variant: CalloutVariant; items: string[] }) {
+  return (
+    <View style={[styles.callout, variant === "questions" ? styles.calloutQuestions : {}]} wrap={false}>
+      <Text style={styles.calloutHeader}>{CALLOUT_TITLES[variant]}</Text>
+      {items.map((item, index) => (
+        <View key={index} style={styles.listItem}>
+          <Text style={variant === "insights" ? styles.insightNumber : styles.bullet}>
+            {variant === "insights" ? `${index + 1}` : variant === "questions" ? "?" : "•"}
+          </Text>
+          <Text style={styles.listText}>{toPdfText(item)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function PdfBlockView({ block }: { block: MarkdownBlock }) {
+  switch (block.type) {
+    case "heading":
+      return <Text style={styles.heading} minPresenceAhead={40}>{toPdfText(block.text)}</Text>;
+    case "paragraph":
+      return <Text style={styles.paragraph}>{toPdfText(block.text)}</Text>;
+    case "list":
+      return (
+        <View>
+          {block.items.map((item, index) => (
+            <View key={index} style={styles.listItem}>
+              <Text style={styles.bullet}>{block.ordered ? `${index + 1}.` : "•"}</Text>
+              <Text style={styles.listText}>{toPdfText(item)}</Text>
+            </View>
+          ))}
+        </View>
+      );
+    case "table":
+      return <PdfTable title={block.title} headers={block.headers} rows={block.rows} />;
+    case "callout":
+      return <PdfCallout variant={block.variant} items={block.items} />;
+  }
+}
+
+function ReportDocument({ data }: { data: ReportPdfData }) {
+  const title = `${data.companyName} - ${data.periodLabel} Financial Review`;
+
+  return (
+    <Document title={title} author="CleverProfits" creator="CleverProfits Portal">
+      {/* Cover page */}
+      <Page size="LETTER" style={styles.coverPage}>
+        <Text style={styles.coverBrand}>CleverProfits</Text>
+        <View>
+          <Text style={styles.coverTitle}>Month-End Financial Review</Text>
+          <Text style={styles.coverSubtitle}>{toPdfText(data.companyName)}</Text>
+          <Text style={styles.coverSubtitle}>{data.periodLabel}</Text>
+          <View style={styles.coverRule} />
+          <Text style={styles.coverMeta}>Prepared {formatDate(data.generatedAt)}</Text>
+          <Text style={styles.coverMeta}>
+            Sections: {data.sections.map((s) => s.sectionName.replace(/^\d+\.\s*/, "")).join(", ")}
+          </Text>
+        </View>
+        <Text style={styles.coverMeta}>Confidential - prepared for management and the board.</Text>
+      </Page>
+
+      {/* One page flow per section */}
+      {data.sections.map((section) => {
+        const match = section.sectionName.match(/^(\d+)\.\s*(.+)$/);
+        return (
+          <Page key={section.sortOrder} size="LETTER" style={styles.page}>
+            <View style={styles.sectionHeader}>
+              {match && <Text style={styles.sectionNumber}>{match[1]}</Text>}
+              <Text style={styles.sectionTitle}>{toPdfText(match ? match[2] : section.sectionName)}</Text>
+            </View>
+
+            {sectionToBlocks(section.content).map((block, index) => (
+              <PdfBlockView key={index} block={block} />
+            ))}
+
+            <View style={styles.footer} fixed>
+              <Text>{toPdfText(title)}</Text>
+              <Text render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`} />
+            </View>
+          </Page>
+        );
+      })}
+    </Document>
+  );
+}
+
+/**
+ * Render report data to a PDF buffer.
+ */
+export async function renderReportPdf(data: ReportPdfData): Promise<Buffer> {
+  return renderToBuffer(<ReportDocument data={data} />);
+}
+
+/**
+ * Render a stored report to PDF, upload it and record its storage path.
+ */
+export async function generateReportPdf(reportId: string): Promise<string> {
+  const report = await prisma.report.findUnique({
+    where: { id: reportId },
+    include: {
+      company: true,
+      sections: { orderBy: { sortOrder: "asc" } },
+    },
+  });
+
+  if (!report) {
+    throw new Error(`Report ${reportId} not found`);
+  }
+
+  const buffer = await renderReportPdf({
+    companyName: report.company.name,
+    periodLabel: report.periodLabel || formatPeriodLabel(report.periodEnd),
+    generatedAt: report.updatedAt,
+    sections: report.sections.map((section) => ({
+      sectionName: section.sectionName,
+      sortOrder: section.sortOrder,
+      content: section.content as ReportSectionContent,
+    })),
+  });
+
+  const storagePath = `reports/${report.companyId}/${report.id}/report.pdf`;
+  await uploadFile(storagePath, buffer, "application/pdf");
+
+  await prisma.report.update({
+    where: { id: reportId },
+    data: { pdfFileUrl: storagePath },
+  });
+
+  return storagePath;
+}
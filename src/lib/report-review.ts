@@ -0,0 +1,76 @@
+/**
+ * Report Review Workflow
+ *
+ * Generated reports land in review rather than going straight to clients.
+ * Admins approve each section or request changes; the report's review
+ * status is derived from its sections, and only fully approved reports can
+ * be published.
+ */
+
+import prisma from "@/lib/db";
+import type { ReportReviewStatus, SectionReviewDecision, SectionReviewStatus } from "@/types";
+
+const DECISION_STATUS: Record<SectionReviewDecision, SectionReviewStatus> = {
+  approve: "approved",
+  request_changes: "changes_requested",
+};
+
+/**
+ * Derive a report's review status from its section statuses.
+ */
+export function deriveReviewStatus(sectionStatuses: string[]): ReportReviewStatus {
+  if (sectionStatuses.length === 0) return "draft";
+  if (sectionStatuses.includes("changes_requested")) return "changes_requested";
+  if (sectionStatuses.every((status) => status === "approved")) return "approved";
+  return "in_review";
+}
+
+/**
+ * Recompute and store a report's review status after its sections changed.
+ * Sets approvedAt when the last section is approved and clears it otherwise.
+ */
+export async function syncReportReviewStatus(
+  reportId: string,
+  reviewerId?: string
+): Promise<ReportReviewStatus> {
+  const [report, sections] = await Promise.all([
+    prisma.report.findUniqueOrThrow({ where: { id: reportId }, select: { approvedAt: true } }),
+    prisma.reportSection.findMany({ where: { reportId }, select: { reviewStatus: true } }),
+  ]);
+
+  const reviewStatus = deriveReviewStatus(sections.map((s) => s.reviewStatus));
+
+  await prisma.report.update({
+    where: { id: reportId },
+    data: {
+      reviewStatus,
+      approvedAt: reviewStatus === "approved" ? report.approvedAt ?? new Date() : null,
+      ...(reviewerId ? { reviewedById: reviewerId, reviewedAt: new Date() } : {}),
+    },
+  });
+
+  return reviewStatus;
+}
+
+/**
+ * Record an admin's decision on one section.
+ */
+export async function reviewSection(
+  reportId: string,
+  sectionKey: string,
+  reviewerId: string,
+  decision: SectionReviewDecision,
+  note?: string
+): Promise<ReportReviewStatus> {
+  await prisma.reportSection.updateMany({
+    where: { reportId, sectionKey },
+    data: {
+      reviewStatus: DECISION_STATUS[decision],
+      reviewNote: decision === "request_changes" ? note || null : null,
+      reviewedById: reviewerId,
+      reviewedAt: new Date(),
+    },
+  });
+
+  return syncReportReviewStatus(reportId, reviewerId);
+}
@@ -0,0 +1,289 @@
+/**
+ * Structured Report Content
+ *
+ * Turns a section's markdown (as written by Claude) into the typed
+ * ReportSectionContent model: financial tables with typed cells and
+ * positive/negative flags, executive insights, key takeaways and questions
+ * for management. The result is validated with zod before it is stored, so
+ * the viewer, PDF export and tie-out checks can rely on its shape.
+ */
+
+import { z } from "zod";
+import { formatFinancialNumber, isRowTotal, isVarianceColumn } from "@/lib/format-financial";
+import type { ReportSectionContent, ReportTable, ReportTableCell } from "@/types";
+
+// ===========================================
+// SCHEMAS
+// ===========================================
+
+export const reportTableCellSchema: z.ZodType<ReportTableCell> = z.object({
+  value: z.string(),
+  type: z.enum(["text", "currency", "percent", "number"]),
+  isPositive: z.boolean().optional(),
+  isNegative: z.boolean().optional(),
+});
+
+export const reportTableSchema: z.ZodType<ReportTable> = z.object({
+  title: z.string(),
+  headers: z.array(z.string()).min(1),
+  rows: z.array(
+    z.object({
+      cells: z.array(reportTableCellSchema),
+      isHighlighted: z.boolean().optional(),
+    })
+  ),
+});
+
+export const reportSectionContentSchema: z.ZodType<ReportSectionContent> = z.object({
+  tables: z.array(reportTableSchema).optional(),
+  executive_insights: z.array(z.string().min(1)).optional(),
+  insights: z.array(z.string().min(1)).optional(),
+  questions: z.array(z.string().min(1)).optional(),
+  raw_markdown: z.string().optional(),
+});
+
+// ===========================================
+// MARKDOWN BLOCKS
+// ===========================================
+
+export type CalloutVariant = "insights" | "takeaways" | "questions";
+
+export type MarkdownBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "table"; title?: string; headers: string[]; rows: string[][] }
+  | { type: "callout"; variant: CalloutVariant; items: string[] };
+
+function calloutVariant(line: string): CalloutVariant | null {
+  const lower = line.toLowerCase();
+  if (lower.includes("executive insight") || lower.includes("top insight")) return "insights";
+  if (lower.includes("key takeaway")) return "takeaways";
+  if (lower.includes("question") && lower.includes("management")) return "questions";
+  return null;
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+const LIST_ITEM = /^\s*(?:[-*•?]|\d+\.)\s+(.*)$/;
+
+/**
+ * Parse a section's markdown into simple layout blocks.
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.split("\n");
+  let pendingCallout: CalloutVariant | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i].trim();
+
+    if (!line || /^-{3,}$/.test(line)) {
+      i++;
+      continue;
+    }
+
+    // Table: header row, separator row, body rows
+    if (line.startsWith("|") && /^\|?\s*:?-{2,}/.test(lines[i + 1]?.trim() ?? "")) {
+      const headers = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith("|")) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: "table", headers, rows });
+      pendingCallout = null;
+      continue;
+    }
+
+    // List (possibly the body of a callout)
+    if (LIST_ITEM.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && LIST_ITEM.test(lines[i])) {
+        items.push(lines[i].match(LIST_ITEM)![1].trim());
+        i++;
+      }
+      blocks.push(
+        pendingCallout
+          ? { type: "callout", variant: pendingCallout, items }
+          : { type: "list", ordered, items }
+      );
+      pendingCallout = null;
+      continue;
+    }
+
+    // Headings (markdown or bolded lines) - callout titles are folded into the callout
+    const heading = line.match(/^#{1,6}\s+(.*)$/)?.[1] ?? line.match(/^\*\*(.+?)\*\*:?$/)?.[1];
+    const variant = calloutVariant(line);
+    if (variant && (heading || line.length < 80)) {
+      pendingCallout = variant;
+      i++;
+      continue;
+    }
+
+    if (heading) {
+      blocks.push({ type: "heading", text: heading });
+    } else {
+      blocks.push({ type: "paragraph", text: line });
+    }
+    pendingCallout = null;
+    i++;
+  }
+
+  return blocks;
+}
+
+// ===========================================
+// STRUCTURED EXTRACTION
+// ===========================================
+
+// Sub-section titles Claude writes as plain lines, e.g. "1.2 Cash, Net Cash / Debt"
+const NUMBERED_TITLE = /^\d+\.\d+\s+\S/;
+
+/**
+ * Classify a table cell value and flag its sign.
+ */
+export function typeTableCell(value: string, header: string, isLabel: boolean): ReportTableCell {
+  const trimmed = value.trim();
+  const formatted = formatFinancialNumber(trimmed);
+  // Numeric cells are digits plus currency/sign/unit decoration, e.g. "($1.2M)", "+4.5%", "3.1x"
+  const isNumeric = /\d/.test(trimmed) && /^[-+$€£(),.\d\s%KMBkmbx—–]+$/.test(trimmed);
+
+  if (isLabel || formatted.isNA || !isNumeric) {
+    return { value: trimmed, type: "text" };
+  }
+
+  const type: ReportTableCell["type"] = trimmed.includes("%")
+    ? "percent"
+    : trimmed.includes("$")
+      ? "currency"
+      : "number";
+
+  const cell: ReportTableCell = { value: trimmed, type };
+  if (formatted.isNegative) {
+    cell.isNegative = true;
+  } else if (!formatted.isZero && (formatted.isPositive || isVarianceColumn(header))) {
+    cell.isPositive = true;
+  }
+  return cell;
+}
+
+function toReportTable(block: Extract<MarkdownBlock, { type: "table" }>, title: string): ReportTable {
+  return {
+    title,
+    headers: block.headers,
+    rows: block.rows.map((row) => ({
+      cells: row.map((value, index) => typeTableCell(value, block.headers[index] ?? "", index === 0)),
+      isHighlighted: isRowTotal(row[0] ?? "") || undefined,
+    })),
+  };
+}
+
+/**
+ * Extract structured tables and callout lists from a section's markdown.
+ */
+export function extractSectionContent(markdown: string): Omit<ReportSectionContent, "raw_markdown"> {
+  const blocks = parseMarkdownBlocks(markdown);
+  const tables: ReportTable[] = [];
+  const executiveInsights: string[] = [];
+  const insights: string[] = [];
+  const questions: string[] = [];
+
+  blocks.forEach((block, index) => {
+    if (block.type === "table") {
+      // Title is the closest heading (or numbered sub-section line) above the table
+      let title = "";
+      for (let j = index - 1; j >= 0; j--) {
+        const previous = blocks[j];
+        if (previous.type === "heading" || (previous.type === "paragraph" && NUMBERED_TITLE.test(previous.text))) {
+          title = previous.text;
+          break;
+        }
+        if (previous.type === "table") break;
+      }
+      tables.push(toReportTable(block, title));
+    } else if (block.type === "callout") {
+      const target =
+        block.variant === "insights" ? executiveInsights : block.variant === "takeaways" ? insights : questions;
+      target.push(...block.items);
+    }
+  });
+
+  return {
+    ...(tables.length > 0 ? { tables } : {}),
+    ...(executiveInsights.length > 0 ? { executive_insights: executiveInsights } : {}),
+    ...(insights.length > 0 ? { insights } : {}),
+    ...(questions.length > 0 ? { questions } : {}),
+  };
+}
+
+function renderTableRow(cells: string[]): string {
+  return `| ${cells.join(" | ")} |`;
+}
+
+/**
+ * Swap the section's markdown tables for edited ones, in order, so the
+ * markdown the viewer and PDF render shows the edited figures. Text around
+ * the tables is kept. Returns null if the number of tables doesn't match.
+ */
+export function replaceMarkdownTables(markdown: string, tables: ReportTable[]): string | null {
+  const lines = markdown.split("\n");
+  const output: string[] = [];
+  let tableIndex = 0;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i].trim();
+
+    // Same table detection as parseMarkdownBlocks
+    if (line.startsWith("|") && /^\|?\s*:?-{2,}/.test(lines[i + 1]?.trim() ?? "")) {
+      const table = tables[tableIndex++];
+      if (!table) return null;
+
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith("|")) {
+        i++;
+      }
+
+      output.push(
+        renderTableRow(table.headers),
+        renderTableRow(table.headers.map(() => "---")),
+        ...table.rows.map((row) => renderTableRow(row.cells.map((cell) => cell.value)))
+      );
+      continue;
+    }
+
+    output.push(lines[i]);
+    i++;
+  }
+
+  return tableIndex === tables.length ? output.join("\n") : null;
+}
+
+/**
+ * Build validated section content from markdown. Falls back to markdown only
+ * if the extracted structure fails validation.
+ */
+export function buildSectionContent(markdown: string): ReportSectionContent {
+  const parsed = reportSectionContentSchema.safeParse({
+    raw_markdown: markdown,
+    ...extractSectionContent(markdown),
+  });
+
+  if (!parsed.success) {
+    console.warn("Structured section extraction failed validation:", parsed.error.issues);
+    return { raw_markdown: markdown };
+  }
+
+  return parsed.data;
+}
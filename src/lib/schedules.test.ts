@@ -0,0 +1,181 @@
+import type { ReportSchedule } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getDuePeriodEnd,
+  getNextRunDate,
+  normalizeSourceFolder,
+  nthBusinessDayAfter,
+  previousMonthEnd,
+  recordScheduledRunFinished,
+  runSchedule,
+} from "@/lib/schedules";
+
+const db = vi.hoisted(() => ({
+  report: { findUnique: vi.fn() },
+  reportSchedule: { updateMany: vi.fn() },
+}));
+
+vi.mock("@/lib/db", () => ({ default: db, prisma: db }));
+
+vi.mock("@/lib/notifications", () => ({ sendScheduledRunNotification: vi.fn() }));
+
+const utc = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+function makeSchedule(overrides: Partial<ReportSchedule> = {}): ReportSchedule {
+  return {
+    id: "schedule_1",
+    companyId: "company_acme",
+    enabled: true,
+    sourceFolder: "incoming/acme",
+    businessDay: 5,
+    lastRunAt: null,
+    lastPeriodEnd: null,
+    lastStatus: null,
+    lastMessage: null,
+    createdAt: utc("2025-01-01"),
+    updatedAt: utc("2025-01-01"),
+    ...overrides,
+  };
+}
+
+describe("previousMonthEnd", () => {
+  it("returns the last day of the month before", () => {
+    expect(previousMonthEnd(utc("2025-04-15"))).toEqual(utc("2025-03-31"));
+    expect(previousMonthEnd(utc("2025-03-01"))).toEqual(utc("2025-02-28"));
+    expect(previousMonthEnd(utc("2024-03-10"))).toEqual(utc("2024-02-29"));
+  });
+
+  it("crosses the year boundary", () => {
+    expect(previousMonthEnd(utc("2025-01-20"))).toEqual(utc("2024-12-31"));
+  });
+});
+
+describe("nthBusinessDayAfter", () => {
+  it("counts weekdays after the month end", () => {
+    // Monday 31 March 2025
+    expect(nthBusinessDayAfter(utc("2025-03-31"), 1)).toEqual(utc("2025-04-01"));
+    expect(nthBusinessDayAfter(utc("2025-03-31"), 5)).toEqual(utc("2025-04-07"));
+  });
+
+  it("skips the weekend after a Friday month end", () => {
+    expect(nthBusinessDayAfter(utc("2025-01-31"), 1)).toEqual(utc("2025-02-03"));
+  });
+
+  it("skips the weekend when the month ends on a Saturday", () => {
+    expect(nthBusinessDayAfter(utc("2025-05-31"), 1)).toEqual(utc("2025-06-02"));
+    expect(nthBusinessDayAfter(utc("2025-05-31"), 10)).toEqual(utc("2025-06-13"));
+  });
+
+  it("doesn't change the date it's given", () => {
+    const monthEnd = utc("2025-03-31");
+    nthBusinessDayAfter(monthEnd, 3);
+    expect(monthEnd).toEqual(utc("2025-03-31"));
+  });
+});
+
+describe("getDuePeriodEnd", () => {
+  const schedule = { businessDay: 5 };
+
+  it("is last month once the run day has arrived", () => {
+    expect(getDuePeriodEnd(schedule, utc("2025-04-07"))).toEqual(utc("2025-03-31"));
+    expect(getDuePeriodEnd(schedule, utc("2025-04-28"))).toEqual(utc("2025-03-31"));
+  });
+
+  it("is the month before until then", () => {
+    expect(getDuePeriodEnd(schedule, new Date("2025-04-06T23:59:59Z"))).toEqual(utc("2025-02-28"));
+    expect(getDuePeriodEnd(schedule, utc("2025-04-01"))).toEqual(utc("2025-02-28"));
+  });
+
+  it("crosses the year boundary", () => {
+    // 5th business day of January 2025 is Tuesday the 7th
+    expect(getDuePeriodEnd(schedule, utc("2025-01-06"))).toEqual(utc("2024-11-30"));
+    expect(getDuePeriodEnd(schedule, utc("2025-01-07"))).toEqual(utc("2024-12-31"));
+  });
+});
+
+describe("getNextRunDate", () => {
+  it("is now while the due period hasn't run", () => {
+    const now = utc("2025-04-10");
+    const schedule = makeSchedule({ lastPeriodEnd: utc("2025-02-28") });
+    expect(getNextRunDate(schedule, now)).toEqual(now);
+  });
+
+  it("is next month's run day once the due period has run", () => {
+    const schedule = makeSchedule({ lastPeriodEnd: utc("2025-03-31") });
+    expect(getNextRunDate(schedule, utc("2025-04-10"))).toEqual(utc("2025-05-07"));
+  });
+
+  it("is this month's run day for a schedule created before it", () => {
+    // The schedule route starts new schedules at the period already due
+    const now = utc("2025-04-02");
+    const schedule = makeSchedule({ lastPeriodEnd: getDuePeriodEnd({ businessDay: 5 }, now) });
+    expect(getNextRunDate(schedule, now)).toEqual(utc("2025-04-07"));
+  });
+});
+
+describe("runSchedule", () => {
+  const company = { id: "company_acme", name: "Acme" };
+
+  it("isn't due again for a period it already handled", async () => {
+    const schedule = { ...makeSchedule({ lastPeriodEnd: utc("2025-02-28") }), company };
+    await expect(runSchedule(schedule, { now: utc("2025-04-03") })).resolves.toEqual({
+      status: "not_due",
+    });
+  });
+});
+
+describe("recordScheduledRunFinished", () => {
+  const report = {
+    id: "report_1",
+    scheduleId: "schedule_1",
+    periodEnd: utc("2025-03-31"),
+    periodLabel: "March 2025",
+    errorMessage: "Claude API error",
+    company: { name: "Acme" },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("replaces the schedule's queued status when generation fails", async () => {
+    db.report.findUnique.mockResolvedValue({ ...report, status: "failed" });
+
+    await recordScheduledRunFinished(report.id);
+
+    expect(db.reportSchedule.updateMany).toHaveBeenCalledWith({
+      where: { id: "schedule_1", lastPeriodEnd: report.periodEnd },
+      data: { lastStatus: "failed", lastMessage: "Claude API error" },
+    });
+  });
+
+  it("records a completed run", async () => {
+    db.report.findUnique.mockResolvedValue({ ...report, status: "complete" });
+
+    await recordScheduledRunFinished(report.id);
+
+    expect(db.reportSchedule.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { lastStatus: "complete", lastMessage: "March 2025 report generated" } })
+    );
+  });
+
+  it("leaves schedules alone for uploaded reports", async () => {
+    db.report.findUnique.mockResolvedValue({ ...report, scheduleId: null, status: "failed" });
+
+    await recordScheduledRunFinished(report.id);
+
+    expect(db.reportSchedule.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("normalizeSourceFolder", () => {
+  it("trims slashes and whitespace", () => {
+    expect(normalizeSourceFolder(" /incoming/acme/ ")).toBe("incoming/acme");
+  });
+
+  it("rejects empty folders and parent references", () => {
+    expect(normalizeSourceFolder("/")).toBeNull();
+    expect(normalizeSourceFolder("incoming/../other")).toBeNull();
+    expect(normalizeSourceFolder("incoming//acme")).toBeNull();
+  });
+});
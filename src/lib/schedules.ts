@@ -0,0 +1,297 @@
+/**
+ * Scheduled Monthly Runs
+ *
+ * Each company can have a schedule that generates its report without a
+ * manual upload: on the configured business day after month end, the newest
+ * workbook in the schedule's storage folder is copied into the report's
+ * storage path and a generation job is queued, exactly like an upload.
+ *
+ * The queue worker checks schedules hourly (see worker.ts). A schedule waits
+ * (and keeps checking) until a workbook newer than the period end appears.
+ */
+
+import type { ReportSchedule } from "@prisma/client";
+import prisma from "@/lib/db";
+import { enqueueReportGeneration } from "@/lib/queue";
+import { markReportFailed, recordReportEvent } from "@/lib/report-generation";
+import { sendScheduledRunNotification } from "@/lib/notifications";
+import { copyFile, listFiles } from "@/lib/storage";
+import { formatPeriodLabel } from "@/lib/utils";
+import type { ReportScheduleDetail } from "@/types";
+
+export const MAX_BUSINESS_DAY = 20;
+
+const WORKBOOK_EXTENSIONS = [".xlsx", ".xls"];
+
+/**
+ * Last day of the month before the given date (UTC midnight), the same
+ * period end the generate page defaults to.
+ */
+export function previousMonthEnd(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 0));
+}
+
+/**
+ * The Nth weekday after a month end (public holidays aren't accounted for).
+ */
+export function nthBusinessDayAfter(monthEnd: Date, n: number): Date {
+  const date = new Date(monthEnd);
+  let count = 0;
+  while (count < n) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    const day = date.getUTCDay();
+    if (day !== 0 && day !== 6) {
+      count++;
+    }
+  }
+  return date;
+}
+
+/**
+ * The period a schedule should have run for by `now`: last month once its
+ * run day has arrived, otherwise the month before.
+ */
+export function getDuePeriodEnd(schedule: Pick<ReportSchedule, "businessDay">, now: Date): Date {
+  const lastMonthEnd = previousMonthEnd(now);
+  if (now >= nthBusinessDayAfter(lastMonthEnd, schedule.businessDay)) {
+    return lastMonthEnd;
+  }
+  return previousMonthEnd(lastMonthEnd);
+}
+
+/**
+ * When the next run will happen (for display).
+ */
+export function getNextRunDate(schedule: ReportSchedule, now: Date = new Date()): Date {
+  const duePeriod = getDuePeriodEnd(schedule, now);
+  const alreadyRun =
+    schedule.lastPeriodEnd !== null && schedule.lastPeriodEnd.getTime() >= duePeriod.getTime();
+
+  if (!alreadyRun) {
+    return now; // Due now (waiting for the hourly check or a workbook)
+  }
+
+  const nextPeriod = new Date(Date.UTC(duePeriod.getUTCFullYear(), duePeriod.getUTCMonth() + 2, 0));
+  return nthBusinessDayAfter(nextPeriod, schedule.businessDay);
+}
+
+export function toScheduleDetail(schedule: ReportSchedule, now: Date = new Date()): ReportScheduleDetail {
+  return {
+    enabled: schedule.enabled,
+    sourceFolder: schedule.sourceFolder,
+    businessDay: schedule.businessDay,
+    lastRunAt: schedule.lastRunAt?.toISOString() ?? null,
+    lastPeriodEnd: schedule.lastPeriodEnd?.toISOString() ?? null,
+    lastStatus: schedule.lastStatus,
+    lastMessage: schedule.lastMessage,
+    nextRunAt: schedule.enabled ? getNextRunDate(schedule, now).toISOString() : null,
+  };
+}
+
+/**
+ * Trim slashes from a storage folder path. Returns null if it's empty or
+ * tries to climb out of the bucket root.
+ */
+export function normalizeSourceFolder(folder: string): string | null {
+  const normalized = folder.trim().replace(/^\/+|\/+$/g, "");
+  if (!normalized || normalized.split("/").some((part) => part === ".." || part === "")) {
+    return null;
+  }
+  return normalized;
+}
+
+async function updateSchedule(
+  scheduleId: string,
+  status: string,
+  message: string,
+  periodEnd?: Date
+): Promise<void> {
+  await prisma.reportSchedule.update({
+    where: { id: scheduleId },
+    data: {
+      lastRunAt: new Date(),
+      lastStatus: status,
+      lastMessage: message,
+      ...(periodEnd ? { lastPeriodEnd: periodEnd } : {}),
+    },
+  });
+}
+
+export type ScheduleRunResult =
+  | { status: "not_due" }
+  | { status: "skipped_existing"; periodEnd: Date; reportId: string }
+  | { status: "waiting_for_file"; periodEnd: Date; message: string }
+  | { status: "queued"; periodEnd: Date; reportId: string; fileName: string }
+  | { status: "failed"; periodEnd: Date; message: string };
+
+/**
+ * Queue this month's run for a schedule if it's due. `force` checks again for
+ * a period that was already handled (the "Run now" button), e.g. after a
+ * failed run or once the workbook has been replaced.
+ */
+export async function runSchedule(
+  schedule: ReportSchedule & { company: { id: string; name: string } },
+  options: { now?: Date; force?: boolean } = {}
+): Promise<ScheduleRunResult> {
+  const now = options.now ?? new Date();
+  const periodEnd = getDuePeriodEnd(schedule, now);
+
+  if (
+    !options.force &&
+    schedule.lastPeriodEnd !== null &&
+    schedule.lastPeriodEnd.getTime() >= periodEnd.getTime()
+  ) {
+    return { status: "not_due" };
+  }
+
+  // Don't duplicate a report someone already uploaded for this period
+  const existing = await prisma.report.findFirst({
+    where: { companyId: schedule.companyId, periodEnd, status: { in: ["processing", "complete"] } },
+    select: { id: true },
+  });
+
+  if (existing) {
+    await updateSchedule(
+      schedule.id,
+      "skipped_existing",
+      `A ${formatPeriodLabel(periodEnd)} report already exists`,
+      periodEnd
+    );
+    return { status: "skipped_existing", periodEnd, reportId: existing.id };
+  }
+
+  // Newest workbook saved after the period closed. periodEnd is midnight at
+  // the start of the last day, so a file saved during that day doesn't count
+  const periodClosed = new Date(periodEnd.getTime() + 24 * 60 * 60 * 1000);
+  const files = await listFiles(schedule.sourceFolder);
+  const workbook = files.find(
+    (file) =>
+      WORKBOOK_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext)) &&
+      file.updatedAt >= periodClosed
+  );
+
+  if (!workbook) {
+    const message = `No workbook newer than ${formatPeriodLabel(periodEnd)} month end in ${schedule.sourceFolder}`;
+
+    // Only tell admins the first time; the hourly check keeps looking
+    if (schedule.lastStatus !== "waiting_for_file") {
+      await sendScheduledRunNotification({
+        companyName: schedule.company.name,
+        periodLabel: formatPeriodLabel(periodEnd),
+        outcome: "waiting",
+        message,
+      });
+    }
+
+    await updateSchedule(schedule.id, "waiting_for_file", message);
+    return { status: "waiting_for_file", periodEnd, message };
+  }
+
+  const report = await prisma.report.create({
+    data: {
+      companyId: schedule.companyId,
+      scheduleId: schedule.id,
+      periodEnd,
+      periodLabel: formatPeriodLabel(periodEnd),
+      sourceFileName: workbook.name,
+      status: "processing",
+      stage: "uploading",
+      stageUpdatedAt: new Date(),
+    },
+  });
+
+  try {
+    // Copied as is, so an .xls keeps its extension
+    const extension = WORKBOOK_EXTENSIONS.find((ext) => workbook.name.toLowerCase().endsWith(ext));
+    const storagePath = `reports/${schedule.companyId}/${report.id}/source${extension}`;
+    await copyFile(workbook.path, storagePath);
+    await prisma.report.update({
+      where: { id: report.id },
+      data: { sourceFileUrl: storagePath },
+    });
+
+    await recordReportEvent(report.id, "queued", `${workbook.name} (scheduled)`);
+    const jobId = await enqueueReportGeneration(report.id);
+    await prisma.report.update({
+      where: { id: report.id },
+      data: { jobId },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to queue report";
+    console.error(`Scheduled run failed for ${schedule.company.name}:`, error);
+
+    await markReportFailed(report.id, message);
+    await updateSchedule(schedule.id, "failed", message, periodEnd);
+    await sendScheduledRunNotification({
+      companyName: schedule.company.name,
+      periodLabel: formatPeriodLabel(periodEnd),
+      outcome: "failed",
+      message,
+      reportId: report.id,
+    });
+    return { status: "failed", periodEnd, message };
+  }
+
+  await updateSchedule(schedule.id, "queued", `Queued from ${workbook.name}`, periodEnd);
+  return { status: "queued", periodEnd, reportId: report.id, fileName: workbook.name };
+}
+
+/**
+ * Run every enabled schedule that's due. One company's failure doesn't stop
+ * the others.
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<void> {
+  const schedules = await prisma.reportSchedule.findMany({
+    where: { enabled: true },
+    include: { company: { select: { id: true, name: true } } },
+  });
+
+  for (const schedule of schedules) {
+    try {
+      const result = await runSchedule(schedule, { now });
+      if (result.status !== "not_due") {
+        console.log(`Schedule for ${schedule.company.name}: ${result.status}`);
+      }
+    } catch (error) {
+      console.error(`Failed to run schedule for ${schedule.company.name}:`, error);
+    }
+  }
+}
+
+/**
+ * Record how a scheduled report's generation ended on its schedule (which
+ * otherwise still shows "queued") and tell admins. Called by the worker once
+ * a run is complete or has permanently failed; uploads are ignored.
+ */
+export async function recordScheduledRunFinished(reportId: string): Promise<void> {
+  try {
+    const report = await prisma.report.findUnique({
+      where: { id: reportId },
+      include: { company: { select: { name: true } } },
+    });
+
+    if (!report?.scheduleId || report.status === "processing") {
+      return;
+    }
+
+    // Only if it's still the schedule's latest period, not an older forced run
+    const periodLabel = report.periodLabel || formatPeriodLabel(report.periodEnd);
+    await prisma.reportSchedule.updateMany({
+      where: { id: report.scheduleId, lastPeriodEnd: report.periodEnd },
+      data:
+        report.status === "complete"
+          ? { lastStatus: "complete", lastMessage: `${periodLabel} report generated` }
+          : { lastStatus: "failed", lastMessage: report.errorMessage ?? "Report generation failed" },
+    });
+
+    await sendScheduledRunNotification({
+      companyName: report.company.name,
+      periodLabel,
+      outcome: report.status === "complete" ? "complete" : "failed",
+      message: report.status === "complete" ? undefined : report.errorMessage ?? undefined,
+      reportId: report.id,
+    });
+  } catch (error) {
+    console.error(`Failed to send scheduled run notification for report ${reportId}:`, error);
+  }
+}
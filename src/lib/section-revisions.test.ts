@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { saveSectionRevision } from "@/lib/section-revisions";
+import type { ReportSectionContent } from "@/types";
+
+// An in-memory section and its revisions. The section row lock is a queue:
+// $queryRaw (the SELECT ... FOR UPDATE) waits for the transaction holding it
+const store = vi.hoisted(() => ({
+  revisions: [] as Array<{ version: number; source: string }>,
+  lock: Promise.resolve(),
+  lockQueries: [] as string[],
+}));
+
+vi.mock("@/lib/db", () => {
+  const section = {
+    id: "section_1",
+    reportId: "report_1",
+    sectionKey: "executive_snapshot",
+    content: { raw_markdown: "Generated" },
+    createdAt: new Date("2025-04-01"),
+  };
+
+  const makeTx = (release: Promise<void>) => ({
+    $queryRaw: async (sql: TemplateStringsArray) => {
+      store.lockQueries.push(sql.join("?"));
+      const previous = store.lock;
+      store.lock = release;
+      await previous;
+      return [];
+    },
+    reportSection: {
+      findUniqueOrThrow: async () => {
+        const latest = [...store.revisions].sort((a, b) => b.version - a.version)[0];
+        // Yield so a concurrent save gets the chance to read the same version
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return { ...section, revisions: latest ? [{ version: latest.version }] : [] };
+      },
+      update: async () => section,
+    },
+    reportSectionRevision: {
+      create: async ({ data }: { data: { version: number; source: string } }) => {
+        if (store.revisions.some((r) => r.version === data.version)) {
+          throw new Error("Unique constraint failed on (section_id, version)");
+        }
+        store.revisions.push({ version: data.version, source: data.source });
+        return data;
+      },
+    },
+    report: { update: async () => ({}) },
+  });
+
+  const prisma = {
+    $transaction: async (fn: (tx: ReturnType<typeof makeTx>) => Promise<unknown>) => {
+      let unlock = () => {};
+      const release = new Promise<void>((resolve) => (unlock = resolve));
+      try {
+        return await fn(makeTx(release));
+      } finally {
+        unlock();
+      }
+    },
+  };
+
+  return { default: prisma, prisma };
+});
+
+vi.mock("@/lib/report-review", () => ({ syncReportReviewStatus: vi.fn() }));
+vi.mock("@/lib/tie-out", () => ({ recheckSection: vi.fn() }));
+
+const edit = (text: string) => ({
+  sectionId: "section_1",
+  content: { raw_markdown: text } as ReportSectionContent,
+  source: "edited" as const,
+  userId: "user_1",
+});
+
+describe("saveSectionRevision", () => {
+  beforeEach(() => {
+    store.revisions = [];
+    store.lock = Promise.resolve();
+    store.lockQueries = [];
+  });
+
+  it("keeps the generated content as version 1 before the first edit", async () => {
+    await expect(saveSectionRevision(edit("First edit"))).resolves.toEqual({ version: 2 });
+    expect(store.revisions).toEqual([
+      { version: 1, source: "generated" },
+      { version: 2, source: "edited" },
+    ]);
+  });
+
+  it("locks the section row before reading the latest version", async () => {
+    await saveSectionRevision(edit("First edit"));
+    expect(store.lockQueries).toEqual(["SELECT id FROM report_sections WHERE id = ? FOR UPDATE"]);
+  });
+
+  it("gives edits saved at the same time consecutive versions", async () => {
+    store.revisions = [
+      { version: 1, source: "generated" },
+      { version: 2, source: "edited" },
+    ];
+
+    const saved = await Promise.all([saveSectionRevision(edit("Mine")), saveSectionRevision(edit("Theirs"))]);
+
+    expect(saved.map((s) => s.version).sort()).toEqual([3, 4]);
+    expect(store.revisions.map((r) => r.version)).toEqual([1, 2, 3, 4]);
+  });
+});
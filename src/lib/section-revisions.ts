@@ -0,0 +1,126 @@
+/**
+ * Section Revisions
+ *
+ * Edits never overwrite a section in place: every change is stored as a new
+ * ReportSectionRevision and then copied onto the section. A changed section
+ * goes back to "pending" review, the cached PDF is discarded, and the
+ * section's tie-out checks are re-run.
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/db";
+import { syncReportReviewStatus } from "@/lib/report-review";
+import { recheckSection } from "@/lib/tie-out";
+import type { FinancialStatements } from "@/lib/excel";
+import type { ReportSectionContent, SectionRevisionSource } from "@/types";
+
+export interface SaveRevisionInput {
+  sectionId: string;
+  content: ReportSectionContent;
+  source: SectionRevisionSource;
+  userId?: string;
+  note?: string;
+  statements?: FinancialStatements; // Already parsed workbook, saves a download for the re-check
+}
+
+/**
+ * Store new content for a section as its next revision. The section row is
+ * locked while the next version number is read and written, so two edits
+ * saved at once get consecutive versions instead of colliding.
+ */
+export async function saveSectionRevision(input: SaveRevisionInput): Promise<{ version: number }> {
+  const content = input.content as Prisma.InputJsonObject;
+
+  const { section, version } = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM report_sections WHERE id = ${input.sectionId} FOR UPDATE`;
+
+    const section = await tx.reportSection.findUniqueOrThrow({
+      where: { id: input.sectionId },
+      include: {
+        revisions: {
+          orderBy: { version: "desc" },
+          take: 1,
+          select: { version: true },
+        },
+      },
+    });
+
+    // Sections generated before revisions were tracked: keep their original content as version 1
+    let latestVersion = section.revisions[0]?.version ?? 0;
+    if (latestVersion === 0) {
+      await tx.reportSectionRevision.create({
+        data: {
+          sectionId: section.id,
+          version: 1,
+          content: section.content as Prisma.InputJsonObject,
+          source: "generated",
+          createdAt: section.createdAt,
+        },
+      });
+      latestVersion = 1;
+    }
+
+    const version = latestVersion + 1;
+
+    await tx.reportSectionRevision.create({
+      data: {
+        sectionId: section.id,
+        version,
+        content,
+        source: input.source,
+        note: input.note,
+        createdById: input.userId,
+      },
+    });
+    await tx.reportSection.update({
+      where: { id: section.id },
+      data: {
+        content,
+        reviewStatus: "pending",
+        reviewNote: null,
+        reviewedById: null,
+        reviewedAt: null,
+      },
+    });
+    // Re-rendered on the next download
+    await tx.report.update({
+      where: { id: section.reportId },
+      data: { pdfFileUrl: null },
+    });
+
+    return { section, version };
+  });
+
+  await syncReportReviewStatus(section.reportId);
+
+  try {
+    await recheckSection(section.reportId, section.sectionKey, input.content, input.statements);
+  } catch (checkError) {
+    console.error(`Tie-out re-check failed for section ${section.id}:`, checkError);
+  }
+
+  return { version };
+}
+
+/**
+ * Restore an earlier revision by saving its content as a new revision.
+ */
+export async function restoreSectionRevision(
+  sectionId: string,
+  version: number,
+  userId: string
+): Promise<{ version: number } | null> {
+  const revision = await prisma.reportSectionRevision.findUnique({
+    where: { sectionId_version: { sectionId, version } },
+  });
+
+  if (!revision) return null;
+
+  return saveSectionRevision({
+    sectionId,
+    content: revision.content as ReportSectionContent,
+    source: "restored",
+    userId,
+    note: `Restored version ${version}`,
+  });
+}
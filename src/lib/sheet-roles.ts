@@ -0,0 +1,155 @@
+/**
+ * Sheet Roles
+ *
+ * The workbook tabs the pipeline reads, by role, with the tab names our
+ * template uses and the aliases other workbooks commonly use. A company's
+ * sheet mapping overrides these per role. Kept free of server imports so
+ * the config page can use it.
+ */
+
+export type SheetRole =
+  | "income_statement"
+  | "income_statement_formatted"
+  | "balance_sheet"
+  | "weekly_review"
+  | "monthly_comparative"
+  | "revenue_detail"
+  | "chart_of_accounts"
+  | "budget"
+  | "forecast"
+  | "annual_pl";
+
+export interface SheetRoleDefinition {
+  role: SheetRole;
+  label: string;
+  defaultName: string; // Tab name in our template
+  aliases: string[];
+  required?: boolean; // Generation can't run without it
+}
+
+// In extraction priority order (earlier sheets win when the token budget runs out)
+export const SHEET_ROLES: SheetRoleDefinition[] = [
+  // Primary financial statements
+  {
+    role: "income_statement",
+    label: "Income statement",
+    defaultName: "PL - RAW",
+    aliases: ["P&L - RAW", "PL-RAW", "P&L RAW", "Income Statement", "PL Raw"],
+    required: true,
+  },
+  {
+    role: "income_statement_formatted",
+    label: "Formatted income statement",
+    defaultName: "Dynamic PL",
+    aliases: ["Dynamic P&L", "DynamicPL", "Formatted PL", "P&L"],
+  },
+  {
+    role: "balance_sheet",
+    label: "Balance sheet",
+    defaultName: "BS - RAW",
+    aliases: ["BS-RAW", "BS RAW", "Balance Sheet", "BS Raw"],
+    required: true,
+  },
+
+  // Supporting data
+  {
+    role: "weekly_review",
+    label: "Weekly review / dashboard",
+    defaultName: "Weekly Financial Review",
+    aliases: ["Weekly Review", "Financial Review", "Dashboard"],
+  },
+  {
+    role: "monthly_comparative",
+    label: "Monthly comparative",
+    defaultName: "Monthly Comparative",
+    aliases: ["Monthly Comparison", "MoM Comparative", "Comparative"],
+  },
+
+  // Additional context
+  { role: "revenue_detail", label: "Revenue breakdown", defaultName: "Revenue Chart Data", aliases: [] },
+  {
+    role: "chart_of_accounts",
+    label: "Chart of accounts",
+    defaultName: "COA - RAW",
+    aliases: ["COA-RAW", "COA RAW", "COA", "Chart of Accounts", "Account List"],
+  },
+
+  // Budget/forecast
+  { role: "budget", label: "Budget", defaultName: "Budget", aliases: [] },
+  { role: "forecast", label: "Forecast", defaultName: "Forecast", aliases: [] },
+  { role: "annual_pl", label: "Annual income statement", defaultName: "Annual P&L", aliases: [] },
+];
+
+/**
+ * A company's override for one role: the actual tab name, and optionally
+ * where the data starts (1-based header row) or an A1 range to read.
+ */
+export interface SheetMappingEntry {
+  role: SheetRole;
+  sheetName: string;
+  headerRow: number | null;
+  range: string | null;
+}
+
+export function isSheetRole(value: unknown): value is SheetRole {
+  return SHEET_ROLES.some((r) => r.role === value);
+}
+
+export function getSheetRoleLabel(role: string): string {
+  return SHEET_ROLES.find((r) => r.role === role)?.label ?? role;
+}
+
+export function isValidSheetRange(range: string): boolean {
+  return /^[A-Z]{1,3}[1-9]\d*:[A-Z]{1,3}[1-9]\d*$/i.test(range);
+}
+
+/**
+ * Stored mapping rows as entries, dropping any with a role we no longer read.
+ */
+export function toSheetMappingEntries(
+  rows: Array<{ role: string; sheetName: string; headerRow: number | null; range: string | null }>
+): SheetMappingEntry[] {
+  return rows.flatMap(({ role, sheetName, headerRow, range }) =>
+    isSheetRole(role) ? [{ role, sheetName, headerRow, range }] : []
+  );
+}
+
+/**
+ * Validate a mapping sent by the config page. Rows with a blank tab name are
+ * dropped (that role goes back to the defaults).
+ */
+export function parseSheetMappings(value: unknown): { mappings: SheetMappingEntry[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: "Mappings must be a list" };
+  }
+
+  const mappings: SheetMappingEntry[] = [];
+  for (const item of value) {
+    const { role, sheetName, headerRow, range } = (item ?? {}) as Record<string, unknown>;
+
+    if (!isSheetRole(role)) {
+      return { error: `Unknown sheet role: ${String(role)}` };
+    }
+    if (mappings.some((m) => m.role === role)) {
+      return { error: `${getSheetRoleLabel(role)} is mapped more than once` };
+    }
+    if (typeof sheetName !== "string" || !sheetName.trim()) {
+      continue;
+    }
+    if (headerRow != null && (!Number.isInteger(headerRow) || (headerRow as number) < 1)) {
+      return { error: `${getSheetRoleLabel(role)}: header row must be a whole number from 1` };
+    }
+    if (range != null && range !== "" && (typeof range !== "string" || !isValidSheetRange(range.trim()))) {
+      return { error: `${getSheetRoleLabel(role)}: range must look like A1:P120` };
+    }
+
+    mappings.push({
+      role,
+      sheetName: sheetName.trim(),
+      headerRow: (headerRow as number | null | undefined) ?? null,
+      range: typeof range === "string" && range.trim() ? range.trim().toUpperCase() : null,
+    });
+  }
+
+  return { mappings };
+}
@@ -71,3 +71,44 @@ export async function deleteFile(path: string): Promise<void> {
     throw new Error(`Failed to delete file: ${error.message}`);
   }
 }
+
+export async function copyFile(fromPath: string, toPath: string): Promise<void> {
+  // Supabase's copy won't overwrite, so clear the destination first (retries)
+  await supabaseAdmin.storage.from(STORAGE_BUCKET).remove([toPath]);
+
+  const { error } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .copy(fromPath, toPath);
+
+  if (error) {
+    throw new Error(`Failed to copy file: ${error.message}`);
+  }
+}
+
+export interface StoredFile {
+  path: string;
+  name: string;
+  updatedAt: Date;
+  contentType: string | null;
+}
+
+// Files directly inside a folder (subfolders are skipped), newest first
+export async function listFiles(folder: string): Promise<StoredFile[]> {
+  const prefix = folder.replace(/^\/+|\/+$/g, "");
+  const { data, error } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .list(prefix, { limit: 1000, sortBy: { column: "updated_at", order: "desc" } });
+
+  if (error) {
+    throw new Error(`Failed to list files: ${error.message}`);
+  }
+
+  return data
+    .filter((item) => item.id !== null) // Folders have no id
+    .map((item) => ({
+      path: prefix ? `${prefix}/${item.name}` : item.name,
+      name: item.name,
+      updatedAt: new Date(item.updated_at ?? item.created_at),
+      contentType: (item.metadata?.mimetype as string | undefined) ?? null,
+    }));
+}
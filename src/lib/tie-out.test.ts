@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FinancialStatements, IncomeFigures } from "@/lib/excel";
+import { parseReportedAmount, runTieOutChecks } from "@/lib/tie-out";
+import type { ReportTable, ReportTableCell } from "@/types";
+
+vi.mock("@/lib/db", () => ({ default: {}, prisma: {} }));
+vi.mock("@/lib/storage", () => ({ downloadFile: vi.fn() }));
+
+function income(key: string, label: string, revenue: number): IncomeFigures {
+  return {
+    period: { key, label },
+    revenue,
+    cogs: 0,
+    grossProfit: revenue,
+    operatingExpenses: 0,
+    depreciationAmortization: 0,
+    ebitda: revenue,
+    operatingIncome: revenue,
+    netOtherIncome: 0,
+    netIncome: revenue,
+  };
+}
+
+const statements: FinancialStatements = {
+  profitAndLoss: null,
+  balanceSheet: null,
+  monthlyComparative: null,
+  income: [income("2025-09", "Sep 2025", 98_400), income("2025-10", "Oct 2025", 110_120)],
+  balance: [],
+  warnings: [],
+};
+
+const text = (value: string): ReportTableCell => ({ value, type: "text" });
+const currency = (value: string): ReportTableCell => ({ value, type: "currency" });
+
+function check(table: ReportTable) {
+  const content = { raw_markdown: "", tables: [table] };
+  return runTieOutChecks([{ sectionKey: "executive_snapshot", content }], statements);
+}
+
+describe("parseReportedAmount", () => {
+  it("reads rounded amounts with the tolerance their precision implies", () => {
+    expect(parseReportedAmount(currency("$110.1K"))).toEqual({ amount: 110_100, tolerance: 50 });
+    expect(parseReportedAmount(currency("($1,234)"))).toEqual({ amount: -1234, tolerance: 0.5 });
+    expect(parseReportedAmount(currency("-$8,960"))).toEqual({ amount: -8960, tolerance: 0.5 });
+  });
+
+  it("skips percentages, text and N/A cells", () => {
+    expect(parseReportedAmount({ value: "12.5%", type: "percent" })).toBeNull();
+    expect(parseReportedAmount(text("$110.1K"))).toBeNull();
+    expect(parseReportedAmount(currency("N/A"))).toBeNull();
+  });
+});
+
+describe("runTieOutChecks", () => {
+  it("ties headline rows to the workbook figures for their month", () => {
+    const findings = check({
+      title: "Headline",
+      headers: ["Metric", "Oct-25", "Sep-25"],
+      rows: [{ cells: [text("Revenue"), currency("$110.1K"), currency("$99.0K")] }],
+    });
+
+    expect(findings.map((f) => [f.label, f.passed])).toEqual([
+      ["Revenue · Oct 2025", true],
+      ["Revenue · Sep 2025", false],
+    ]);
+    expect(findings[1].message).toBe("Reported $99.0K, workbook computes 98,400.00");
+  });
+
+  it("ignores budget, forecast and variance columns that name a month", () => {
+    const findings = check({
+      title: "Budget vs Actual",
+      headers: [
+        "Metric",
+        "Actual (Oct-25)",
+        "Budget Oct-25",
+        "Fcst Oct-25",
+        "Var vs Budget (Oct-25)",
+        "% of Budget Oct-25",
+      ],
+      rows: [
+        {
+          cells: [
+            text("Revenue"),
+            currency("$110.1K"),
+            currency("$125.0K"),
+            currency("$118.0K"),
+            currency("($14.9K)"),
+            { value: "88%", type: "percent" },
+          ],
+        },
+      ],
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ label: "Revenue · Oct 2025", passed: true });
+  });
+
+  it("compares only the first column for each month", () => {
+    const findings = check({
+      title: "Revenue",
+      headers: ["Metric", "Oct 2025", "YTD (Oct-25)"],
+      rows: [{ cells: [text("Revenue"), currency("$110.1K"), currency("$1.02M")] }],
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].passed).toBe(true);
+  });
+
+  it("foots total rows and dollar change columns", () => {
+    const findings = check({
+      title: "Operating Expenses",
+      headers: ["Category", "Current", "Prior", "Δ ($)"],
+      rows: [
+        { cells: [text("Payroll"), currency("$50,000"), currency("$45,000"), currency("$5,000")] },
+        { cells: [text("Rent"), currency("$8,000"), currency("$8,000"), currency("$1,000")] },
+        { cells: [text("**Total**"), currency("$58,000"), currency("$53,500"), currency("$6,000")] },
+      ],
+    });
+
+    const failed = findings.filter((f) => !f.passed).map((f) => [f.kind, f.label]);
+    expect(failed).toEqual([
+      ["cross_foot", "Operating Expenses · **Total** · Prior"],
+      ["row_foot", "Operating Expenses · Rent · Δ ($)"],
+      ["row_foot", "Operating Expenses · **Total** · Δ ($)"],
+    ]);
+  });
+});
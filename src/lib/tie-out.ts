@@ -0,0 +1,341 @@
+/**
+ * Tie-out Checker
+ *
+ * Post-generation validation pass. Reads the numbers out of each section's
+ * structured tables and checks them against:
+ * - figures computed from the workbook (revenue, gross profit, EBITDA, ...)
+ * - column foots ("Total ..." rows equal the rows above them)
+ * - row foots (a "Δ ($)" column equals current minus prior)
+ *
+ * Reported values are usually rounded ("$110.1K"), so every comparison
+ * allows for the rounding implied by the displayed precision.
+ */
+
+import prisma from "@/lib/db";
+import { downloadFile } from "@/lib/storage";
+import {
+  parsePeriodHeader,
+  readFinancialStatements,
+  type BalanceFigures,
+  type FinancialStatements,
+  type IncomeFigures,
+} from "@/lib/excel";
+import { toSheetMappingEntries } from "@/lib/sheet-roles";
+import type { ReportSectionContent, ReportTable, ReportTableCell } from "@/types";
+
+export type TieOutKind = "tie_out" | "cross_foot" | "row_foot";
+
+export interface TieOutFinding {
+  sectionKey: string;
+  kind: TieOutKind;
+  label: string;
+  expected: number;
+  actual: number;
+  passed: boolean;
+  message?: string;
+}
+
+interface ReportedAmount {
+  amount: number;
+  tolerance: number;
+}
+
+// Table row labels (lowercased, "Total" and parentheticals stripped) -> computed figure
+const INCOME_ROWS: Record<string, Exclude<keyof IncomeFigures, "period">> = {
+  revenue: "revenue",
+  "net revenue": "revenue",
+  income: "revenue",
+  sales: "revenue",
+  cogs: "cogs",
+  "cost of goods sold": "cogs",
+  "cost of sales": "cogs",
+  "gross profit": "grossProfit",
+  "operating expenses": "operatingExpenses",
+  opex: "operatingExpenses",
+  expenses: "operatingExpenses",
+  ebitda: "ebitda",
+  ebit: "operatingIncome",
+  "operating income": "operatingIncome",
+  "net operating income": "operatingIncome",
+  "net income": "netIncome",
+};
+
+const BALANCE_ROWS: Record<string, Exclude<keyof BalanceFigures, "period">> = {
+  cash: "cash",
+  "cash balance": "cash",
+  "current assets": "currentAssets",
+  assets: "totalAssets",
+  "current liabilities": "currentLiabilities",
+  liabilities: "totalLiabilities",
+  equity: "equity",
+  "working capital": "workingCapital",
+};
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * Parse a reported amount ("$110.1K", "($1,234)", "-$8,960") with the
+ * rounding tolerance implied by its precision. Percentages, ratios and
+ * N/A cells return null.
+ */
+export function parseReportedAmount(cell: ReportTableCell | undefined): ReportedAmount | null {
+  if (!cell || (cell.type !== "currency" && cell.type !== "number")) return null;
+
+  const text = cell.value.trim();
+  const isNegative = /^\(.*\)$/.test(text) || /^[-–−]/.test(text);
+  const match = text
+    .replace(/[()$,\s+]/g, "")
+    .replace(/^[-–−]/, "")
+    .match(/^(\d+(?:\.(\d+))?)([kmb])?$/i);
+  if (!match) return null;
+
+  const multiplier = match[3] ? MULTIPLIERS[match[3].toLowerCase()] : 1;
+  const decimals = match[2]?.length ?? 0;
+  const amount = Number(match[1]) * multiplier;
+
+  return {
+    amount: isNegative ? -amount : amount,
+    tolerance: Math.max(0.5 * 10 ** -decimals * multiplier, 0.01),
+  };
+}
+
+function normalizeLabel(label: string): string {
+  return label
+    .replace(/\*\*/g, "")
+    .replace(/\([^)]*\)/g, "")
+    .replace(/^total\s+/i, "")
+    .trim()
+    .toLowerCase();
+}
+
+// Columns that name a month but don't hold its actuals ("Budget Oct-25",
+// "Var vs Forecast (Oct-25)", "% of Revenue Oct-25")
+const NON_ACTUAL_HEADER = /\b(budget|forecast|fcst|plan|target|projected|projection|variance|var)\b|Δ|%/i;
+
+/**
+ * Period key for an actuals column header ("Oct-25", "Oct 2025", "MTD (Oct-25)").
+ */
+function headerPeriodKey(header: string): string | null {
+  if (NON_ACTUAL_HEADER.test(header)) return null;
+
+  const direct = parsePeriodHeader(header);
+  if (direct) return direct.key;
+
+  const inner = header.match(/\(([^)]+)\)/)?.[1];
+  return inner ? parsePeriodHeader(inner)?.key ?? null : null;
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function sameWithin(expected: number, actual: number, tolerance: number): boolean {
+  return Math.abs(expected - actual) <= tolerance + 0.005;
+}
+
+function describe(table: ReportTable, ...parts: string[]): string {
+  return [table.title, ...parts].filter(Boolean).join(" · ");
+}
+
+/**
+ * Compare headline rows against the figures computed from the workbook.
+ */
+function checkAgainstWorkbook(
+  sectionKey: string,
+  table: ReportTable,
+  statements: FinancialStatements
+): TieOutFinding[] {
+  const findings: TieOutFinding[] = [];
+
+  // Only the first column for each month is compared
+  const seen = new Set<string>();
+  const columnPeriods = table.headers.map((header, index) => {
+    const periodKey = index === 0 ? null : headerPeriodKey(header);
+    if (!periodKey || seen.has(periodKey)) return null;
+    seen.add(periodKey);
+    return periodKey;
+  });
+  if (!columnPeriods.some(Boolean)) return findings;
+
+  for (const row of table.rows) {
+    const label = normalizeLabel(row.cells[0]?.value ?? "");
+    const incomeKey = INCOME_ROWS[label];
+    const balanceKey = BALANCE_ROWS[label];
+    if (!incomeKey && !balanceKey) continue;
+
+    columnPeriods.forEach((periodKey, column) => {
+      if (!periodKey) return;
+
+      const income = incomeKey ? statements.income.find((f) => f.period.key === periodKey) : undefined;
+      const balance = balanceKey ? statements.balance.find((f) => f.period.key === periodKey) : undefined;
+      const figures = income ?? balance;
+      const reported = parseReportedAmount(row.cells[column]);
+      if (!figures || !reported) return;
+
+      const expected = income ? income[incomeKey] : balance![balanceKey];
+      const passed = sameWithin(expected, reported.amount, reported.tolerance);
+
+      findings.push({
+        sectionKey,
+        kind: "tie_out",
+        label: `${row.cells[0].value} · ${figures.period.label}`,
+        expected,
+        actual: reported.amount,
+        passed,
+        message: passed
+          ? undefined
+          : `Reported ${row.cells[column].value}, workbook computes ${formatAmount(expected)}`,
+      });
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Check that each "Total ..." row equals the sum of the rows above it
+ * (back to the previous total or highlighted row).
+ */
+function checkColumnFoots(sectionKey: string, table: ReportTable): TieOutFinding[] {
+  const findings: TieOutFinding[] = [];
+  let segmentStart = 0;
+
+  table.rows.forEach((row, rowIndex) => {
+    const label = row.cells[0]?.value ?? "";
+    if (!/^\**\s*total\b/i.test(label)) {
+      if (row.isHighlighted) segmentStart = rowIndex + 1;
+      return;
+    }
+
+    const components = table.rows.slice(segmentStart, rowIndex);
+    segmentStart = rowIndex + 1;
+    if (components.length < 2) return;
+
+    for (let column = 1; column < table.headers.length; column++) {
+      const total = parseReportedAmount(row.cells[column]);
+      const parts = components.map((component) => parseReportedAmount(component.cells[column]));
+      if (!total || parts.some((part) => part === null)) continue;
+
+      const sum = parts.reduce((acc, part) => acc + part!.amount, 0);
+      const tolerance = parts.reduce((acc, part) => acc + part!.tolerance, total.tolerance);
+      const passed = sameWithin(sum, total.amount, tolerance);
+
+      findings.push({
+        sectionKey,
+        kind: "cross_foot",
+        label: describe(table, label, table.headers[column]),
+        expected: sum,
+        actual: total.amount,
+        passed,
+        message: passed ? undefined : `Rows above sum to ${formatAmount(sum)}`,
+      });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * For "Metric | Current | Prior | Δ ($)" tables, check each dollar
+ * change equals current minus prior.
+ */
+function checkRowFoots(sectionKey: string, table: ReportTable): TieOutFinding[] {
+  const findings: TieOutFinding[] = [];
+  const changeColumn = table.headers.findIndex(
+    (header) => header.includes("$") && /δ|change|var/i.test(header) && !header.includes("%")
+  );
+  if (changeColumn !== 3) return findings;
+
+  for (const row of table.rows) {
+    const current = parseReportedAmount(row.cells[1]);
+    const prior = parseReportedAmount(row.cells[2]);
+    const change = parseReportedAmount(row.cells[changeColumn]);
+    if (!current || !prior || !change) continue;
+
+    const expected = current.amount - prior.amount;
+    const tolerance = current.tolerance + prior.tolerance + change.tolerance;
+    const passed = sameWithin(expected, change.amount, tolerance);
+
+    findings.push({
+      sectionKey,
+      kind: "row_foot",
+      label: describe(table, row.cells[0]?.value ?? "", table.headers[changeColumn]),
+      expected,
+      actual: change.amount,
+      passed,
+      message: passed ? undefined : `${table.headers[1]} − ${table.headers[2]} = ${formatAmount(expected)}`,
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Run every check over the structured tables of the given sections.
+ */
+export function runTieOutChecks(
+  sections: Array<{ sectionKey: string; content: ReportSectionContent }>,
+  statements: FinancialStatements
+): TieOutFinding[] {
+  const findings: TieOutFinding[] = [];
+
+  for (const { sectionKey, content } of sections) {
+    for (const table of content.tables ?? []) {
+      findings.push(
+        ...checkAgainstWorkbook(sectionKey, table, statements),
+        ...checkColumnFoots(sectionKey, table),
+        ...checkRowFoots(sectionKey, table)
+      );
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Replace a report's stored findings (only those of the given sections, if provided).
+ */
+export async function saveTieOutFindings(
+  reportId: string,
+  findings: TieOutFinding[],
+  sectionKeys?: string[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.reportCheck.deleteMany({
+      where: { reportId, ...(sectionKeys ? { sectionKey: { in: sectionKeys } } : {}) },
+    }),
+    prisma.reportCheck.createMany({
+      data: findings.map((finding) => ({ reportId, ...finding })),
+    }),
+  ]);
+}
+
+/**
+ * Re-run the checks for one section after its content changed. Loads the
+ * report's stored source workbook unless the parsed statements are passed in.
+ */
+export async function recheckSection(
+  reportId: string,
+  sectionKey: string,
+  content: ReportSectionContent,
+  parsedStatements?: FinancialStatements
+): Promise<TieOutFinding[]> {
+  let statements = parsedStatements;
+  if (!statements) {
+    const report = await prisma.report.findUniqueOrThrow({
+      where: { id: reportId },
+      select: { sourceFileUrl: true, company: { select: { sheetMappings: true } } },
+    });
+    if (!report.sourceFileUrl) return [];
+
+    const sourceFile = await downloadFile(report.sourceFileUrl);
+    statements = readFinancialStatements(
+      Buffer.from(await sourceFile.arrayBuffer()),
+      toSheetMappingEntries(report.company.sheetMappings)
+    );
+  }
+
+  const findings = runTieOutChecks([{ sectionKey, content }], statements);
+  await saveTieOutFindings(reportId, findings, [sectionKey]);
+  return findings;
+}
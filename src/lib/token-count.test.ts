@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createApiTokenCounter,
+  createLocalTokenCounter,
+  estimateTokenCount,
+  getTokenCounter,
+} from "@/lib/token-count";
+
+const countTokens = vi.hoisted(() => vi.fn());
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class {
+    beta = { messages: { countTokens } };
+    messages = { create: vi.fn() };
+  },
+}));
+
+describe("estimateTokenCount", () => {
+  it("counts words in ~4-character tokens", () => {
+    expect(estimateTokenCount("Revenue")).toBe(2);
+    expect(estimateTokenCount("Net Income")).toBe(3);
+  });
+
+  it("counts digits in ~3-character tokens and punctuation one each", () => {
+    expect(estimateTokenCount("1234567")).toBe(3);
+    expect(estimateTokenCount("Sales,1200.50\n")).toBe(8);
+  });
+
+  it("is zero for empty text", () => {
+    expect(estimateTokenCount("")).toBe(0);
+  });
+});
+
+describe("createLocalTokenCounter", () => {
+  it("adds the system prompt to the message", async () => {
+    const counter = createLocalTokenCounter();
+    await expect(counter.count({ system: "Revenue", text: "1234567" })).resolves.toBe(5);
+  });
+});
+
+describe("getTokenCounter", () => {
+  it("uses the counter TOKEN_COUNTER names", () => {
+    expect(getTokenCounter().name).toBe("local");
+  });
+});
+
+describe("createApiTokenCounter", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns the API's count for the whole prompt", async () => {
+    countTokens.mockResolvedValue({ input_tokens: 1234 });
+    const counter = createApiTokenCounter();
+
+    await expect(counter.count({ system: "You are an analyst", text: "Sales,1200" })).resolves.toBe(1234);
+    expect(countTokens).toHaveBeenCalledWith(
+      expect.objectContaining({
+        system: "You are an analyst",
+        messages: [{ role: "user", content: "Sales,1200" }],
+      })
+    );
+  });
+
+  it("logs a failed call and falls back to the estimate", async () => {
+    const error = new Error("overloaded");
+    countTokens.mockRejectedValue(error);
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    const counter = createApiTokenCounter();
+
+    await expect(counter.count({ text: "Sales,1200" })).resolves.toBe(estimateTokenCount("Sales,1200"));
+    expect(logged).toHaveBeenCalledWith(expect.stringContaining("Token counting API failed"), error);
+  });
+});
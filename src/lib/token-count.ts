@@ -0,0 +1,93 @@
+/**
+ * Token Counting
+ *
+ * The prompt size check before each report or section is generated goes
+ * through a counter chosen by TOKEN_COUNTER:
+ *   - api: Anthropic's token counting endpoint (exact for the model we call)
+ *   - local: an offline estimate by character class (local development, tests)
+ * Without TOKEN_COUNTER, the API is used when ANTHROPIC_API_KEY is set,
+ * otherwise local. Sizing individual sheets while extracting always uses the
+ * local estimate (one API call per sheet and trim step would add dozens of
+ * round trips to every report).
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import { MODEL } from "@/lib/claude";
+
+export interface TokenCountInput {
+  system?: string;
+  text: string; // The user message
+}
+
+export interface TokenCounter {
+  name: "api" | "local";
+  count(input: TokenCountInput): Promise<number>;
+}
+
+/**
+ * Rough count without a tokenizer: words split into ~4-character tokens,
+ * while digits (~3 per token) and punctuation (one each) tokenize much
+ * worse - which is what CSV full of numbers and commas is made of.
+ */
+export function estimateTokenCount(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(/[A-Za-z]+|\d+|\n|[^\sA-Za-z\d]/g)) {
+    if (/^[A-Za-z]/.test(piece)) tokens += Math.ceil(piece.length / 4);
+    else if (/^\d/.test(piece)) tokens += Math.ceil(piece.length / 3);
+    else tokens += 1;
+  }
+  return tokens;
+}
+
+export function createLocalTokenCounter(): TokenCounter {
+  return {
+    name: "local",
+    async count({ system, text }) {
+      return estimateTokenCount(system ?? "") + estimateTokenCount(text);
+    },
+  };
+}
+
+export function createApiTokenCounter(): TokenCounter {
+  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! });
+
+  return {
+    name: "api",
+    async count({ system, text }) {
+      try {
+        const response = await anthropic.beta.messages.countTokens({
+          model: MODEL,
+          ...(system ? { system } : {}),
+          messages: [{ role: "user", content: text }],
+        });
+        return response.input_tokens;
+      } catch (error) {
+        // Budgeting shouldn't fail a report; the estimate is close enough to carry on
+        console.error("Token counting API failed, using a local estimate instead:", error);
+        return estimateTokenCount(system ?? "") + estimateTokenCount(text);
+      }
+    },
+  };
+}
+
+const globalForTokens = globalThis as unknown as {
+  tokenCounter: TokenCounter | undefined;
+};
+
+/**
+ * Get the configured counter (created once per process).
+ */
+export function getTokenCounter(): TokenCounter {
+  if (!globalForTokens.tokenCounter) {
+    const configured = process.env.TOKEN_COUNTER || (process.env.ANTHROPIC_API_KEY ? "api" : "local");
+    globalForTokens.tokenCounter = configured === "api" ? createApiTokenCounter() : createLocalTokenCounter();
+  }
+  return globalForTokens.tokenCounter;
+}
+
+/**
+ * Replace the counter, e.g. with the local one in a test or script.
+ */
+export function setTokenCounter(counter: TokenCounter): void {
+  globalForTokens.tokenCounter = counter;
+}
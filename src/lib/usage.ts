@@ -0,0 +1,226 @@
+/**
+ * Model Usage & Cost
+ *
+ * Every Claude call is recorded with its token counts, latency and cost, so
+ * engagements can be priced from what each company's reports actually cost.
+ * Costs use the list prices below (USD per million tokens) at the time of
+ * the call; past records keep the price they were recorded with.
+ */
+
+import prisma from "@/lib/db";
+import type { ClaudeUsage } from "@/lib/claude";
+
+interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+// Matched by model id prefix, most specific first
+const MODEL_PRICING: Array<{ prefix: string; pricing: ModelPricing }> = [
+  { prefix: "claude-opus-4", pricing: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 } },
+  { prefix: "claude-sonnet-4", pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 } },
+  { prefix: "claude-3-7-sonnet", pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 } },
+  { prefix: "claude-3-5-haiku", pricing: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 } },
+];
+
+const DEFAULT_PRICING = MODEL_PRICING[1].pricing;
+
+function getModelPricing(model: string): ModelPricing {
+  const match = MODEL_PRICING.find((entry) => model.startsWith(entry.prefix));
+  if (!match) {
+    console.warn(`No pricing for model ${model} - costing it as Claude Sonnet 4`);
+  }
+  return match?.pricing ?? DEFAULT_PRICING;
+}
+
+/**
+ * Cost of one call in USD. Thinking is already part of the output tokens.
+ */
+export function calculateCost(usage: ClaudeUsage): number {
+  const pricing = getModelPricing(usage.model);
+  return (
+    (usage.inputTokens * pricing.input +
+      usage.outputTokens * pricing.output +
+      usage.cacheWriteTokens * pricing.cacheWrite +
+      usage.cacheReadTokens * pricing.cacheRead) /
+    1_000_000
+  );
+}
+
+/**
+ * Record a Claude call. Accounting problems are logged rather than thrown so
+ * they never fail a generation.
+ */
+export async function recordUsage(input: {
+  companyId: string;
+  reportId?: string;
+  kind: "generation" | "section_regeneration";
+  attempt?: number;
+  sectionKey?: string;
+  usage: ClaudeUsage;
+}): Promise<void> {
+  const { usage } = input;
+
+  try {
+    await prisma.usageRecord.create({
+      data: {
+        companyId: input.companyId,
+        reportId: input.reportId,
+        kind: input.kind,
+        attempt: input.attempt ?? 1,
+        sectionKey: input.sectionKey,
+        model: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cacheReadTokens: usage.cacheReadTokens,
+        cacheWriteTokens: usage.cacheWriteTokens,
+        thinkingTokens: usage.thinkingTokens,
+        latencyMs: usage.latencyMs,
+        costUsd: calculateCost(usage),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to record model usage for report ${input.reportId}:`, error);
+  }
+}
+
+export interface ReportUsageTotals {
+  calls: number;
+  inputTokens: number; // Uncached, cache reads and cache writes
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Usage totals for each of the given reports (reports without usage are left out).
+ */
+export async function getReportUsageTotals(reportIds: string[]): Promise<Map<string, ReportUsageTotals>> {
+  const groups = await prisma.usageRecord.groupBy({
+    by: ["reportId"],
+    where: { reportId: { in: reportIds } },
+    _count: { _all: true },
+    _sum: {
+      inputTokens: true,
+      outputTokens: true,
+      cacheReadTokens: true,
+      cacheWriteTokens: true,
+      costUsd: true,
+    },
+  });
+
+  return new Map(
+    groups
+      .filter((group) => group.reportId !== null)
+      .map((group) => [
+        group.reportId as string,
+        {
+          calls: group._count._all,
+          inputTokens:
+            (group._sum.inputTokens ?? 0) +
+            (group._sum.cacheReadTokens ?? 0) +
+            (group._sum.cacheWriteTokens ?? 0),
+          outputTokens: group._sum.outputTokens ?? 0,
+          costUsd: group._sum.costUsd ?? 0,
+        },
+      ])
+  );
+}
+
+export interface SpendSummary {
+  months: string[]; // "2025-10", newest first
+  monthTotals: number[];
+  companies: Array<{ id: string; name: string; costs: number[]; total: number }>; // Costs per month, highest total first
+  reports: Array<{
+    id: string;
+    companyName: string;
+    periodLabel: string | null;
+    periodEnd: Date;
+    calls: number;
+    attempts: number;
+    costUsd: number;
+  }>; // Most expensive first
+  total: number;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Spend by company for the last `monthCount` calendar months (by call date,
+ * UTC), and the most expensive reports in that window.
+ */
+export async function getSpendSummary(
+  monthCount: number = 6,
+  reportLimit: number = 10,
+  now: Date = new Date()
+): Promise<SpendSummary> {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (monthCount - 1), 1));
+  const months = Array.from({ length: monthCount }, (_, i) =>
+    monthKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)))
+  );
+
+  const records = await prisma.usageRecord.findMany({
+    where: { createdAt: { gte: start } },
+    select: {
+      companyId: true,
+      reportId: true,
+      kind: true,
+      costUsd: true,
+      createdAt: true,
+      company: { select: { name: true } },
+      report: { select: { periodLabel: true, periodEnd: true } },
+    },
+  });
+
+  const companies = new Map<string, SpendSummary["companies"][number]>();
+  const reports = new Map<string, SpendSummary["reports"][number]>();
+  const monthTotals = months.map(() => 0);
+
+  for (const record of records) {
+    const monthIndex = months.indexOf(monthKey(record.createdAt));
+    if (monthIndex === -1) {
+      continue;
+    }
+
+    monthTotals[monthIndex] += record.costUsd;
+
+    const company = companies.get(record.companyId) ?? {
+      id: record.companyId,
+      name: record.company.name,
+      costs: months.map(() => 0),
+      total: 0,
+    };
+    company.costs[monthIndex] += record.costUsd;
+    company.total += record.costUsd;
+    companies.set(record.companyId, company);
+
+    if (record.reportId && record.report) {
+      const report = reports.get(record.reportId) ?? {
+        id: record.reportId,
+        companyName: record.company.name,
+        periodLabel: record.report.periodLabel,
+        periodEnd: record.report.periodEnd,
+        calls: 0,
+        attempts: 0,
+        costUsd: 0,
+      };
+      report.calls++;
+      if (record.kind === "generation") {
+        report.attempts++;
+      }
+      report.costUsd += record.costUsd;
+      reports.set(record.reportId, report);
+    }
+  }
+
+  return {
+    months,
+    monthTotals,
+    companies: [...companies.values()].sort((a, b) => b.total - a.total),
+    reports: [...reports.values()].sort((a, b) => b.costUsd - a.costUsd).slice(0, reportLimit),
+    total: monthTotals.reduce((sum, cost) => sum + cost, 0),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Job Queue Worker
+ *
+ * Registers handlers for background jobs. Started once per Node.js server
+ * process from src/instrumentation.ts.
+ */
+
+import { releaseBatchSlot, resumeStalledBatches } from "@/lib/batches";
+import { sendReportPublishedNotifications } from "@/lib/notifications";
+import {
+  GENERATION_CONCURRENCY,
+  getQueue,
+  QUEUES,
+  SCHEDULE_CHECK_CRON,
+  type GenerateReportJob,
+  type NotifyReportPublishedJob,
+} from "@/lib/queue";
+import { markReportFailed, recordReportEvent, runReportGeneration } from "@/lib/report-generation";
+import { recordScheduledRunFinished, runDueSchedules } from "@/lib/schedules";
+
+const globalForWorker = globalThis as unknown as {
+  workerStarted: boolean | undefined;
+};
+
+/**
+ * Start processing queued jobs in this process.
+ */
+export async function startWorkers(): Promise<void> {
+  if (globalForWorker.workerStarted) return;
+  // Set before awaiting, so a second start while this one is connecting
+  // doesn't register the handlers again
+  globalForWorker.workerStarted = true;
+
+  const boss = await getQueue();
+
+  // pg-boss v10 runs one job at a time per registered worker, so register
+  // one per concurrent generation
+  for (let i = 0; i < GENERATION_CONCURRENCY; i++) {
+    await boss.work<GenerateReportJob>(
+      QUEUES.GENERATE_REPORT,
+      { includeMetadata: true, batchSize: 1 },
+      async ([job]) => {
+        const { reportId } = job.data;
+        const attempt = job.retryCount + 1;
+
+        try {
+          await runReportGeneration(reportId, attempt);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown processing error";
+          console.error(`Report generation failed (report ${reportId}, attempt ${attempt}):`, error);
+
+          if (job.retryCount >= job.retryLimit) {
+            await markReportFailed(reportId, message, attempt);
+            await recordScheduledRunFinished(reportId);
+            await releaseBatchSlot(reportId);
+          } else {
+            await recordReportEvent(reportId, "retrying", message, attempt);
+          }
+
+          // Rethrow so pg-boss schedules the retry (or records the final failure)
+          throw error;
+        }
+
+        // Outside the try: the report is finished, whatever happens to these
+        await recordScheduledRunFinished(reportId);
+        await releaseBatchSlot(reportId);
+      }
+    );
+  }
+
+  await boss.work<NotifyReportPublishedJob>(
+    QUEUES.NOTIFY_REPORT_PUBLISHED,
+    { batchSize: 1 },
+    async ([job]) => {
+      await sendReportPublishedNotifications(job.data.reportId);
+    }
+  );
+
+  await boss.work(QUEUES.RUN_SCHEDULES, { batchSize: 1 }, async () => {
+    await runDueSchedules();
+    await resumeStalledBatches();
+  });
+
+  // Idempotent - every process registers the same cron, pg-boss runs it once
+  await boss.schedule(QUEUES.RUN_SCHEDULES, SCHEDULE_CHECK_CRON);
+
+  console.log("Job queue worker started");
+}
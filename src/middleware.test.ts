@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import middleware from "@/middleware";
+
+const session = vi.hoisted(() => ({ userId: null as string | null, role: undefined as string | undefined }));
+
+vi.mock("@clerk/nextjs/server", () => ({
+  clerkMiddleware:
+    (handler: (auth: () => Promise<unknown>, request: NextRequest) => unknown) => (request: NextRequest) =>
+      handler(
+        async () => ({ userId: session.userId, sessionClaims: { metadata: { role: session.role } } }),
+        request
+      ),
+  createRouteMatcher: (patterns: string[]) => (request: NextRequest) =>
+    patterns.some((pattern) => new RegExp(`^${pattern}$`).test(request.nextUrl.pathname)),
+}));
+
+function visit(path: string) {
+  const run = middleware as unknown as (request: NextRequest) => Promise<Response | undefined>;
+  return run(new NextRequest(`http://localhost${path}`));
+}
+
+describe("middleware", () => {
+  beforeEach(() => {
+    session.userId = "clerk_user";
+    session.role = undefined;
+  });
+
+  it("sends signed-out visitors to sign in, except on public routes", async () => {
+    session.userId = null;
+
+    const response = await visit("/reports");
+    expect(response?.status).toBe(307);
+    expect(response?.headers.get("location")).toBe(
+      "http://localhost/sign-in?redirect_url=http%3A%2F%2Flocalhost%2Freports"
+    );
+    await expect(visit("/api/webhooks/clerk")).resolves.toBeUndefined();
+  });
+
+  it("turns client users away from admin API routes and pages", async () => {
+    session.role = "client_viewer";
+
+    const api = await visit("/api/admin/companies");
+    expect(api?.status).toBe(403);
+    await expect(api?.json()).resolves.toEqual({ success: false, error: "Admin access required" });
+
+    const page = await visit("/admin/reports");
+    expect(page?.headers.get("location")).toBe("http://localhost/dashboard");
+  });
+
+  it("lets admins through, and leaves tokens without a role claim to the route's own check", async () => {
+    session.role = "admin";
+    await expect(visit("/api/admin/companies")).resolves.toBeUndefined();
+
+    session.role = undefined;
+    await expect(visit("/admin")).resolves.toBeUndefined();
+  });
+
+  it("doesn't check the role outside admin routes", async () => {
+    session.role = "client_viewer";
+    await expect(visit("/reports")).resolves.toBeUndefined();
+  });
+});
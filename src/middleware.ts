@@ -1,5 +1,6 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
+import { hasPermission } from "@/lib/permissions";
 
 // Define public routes (accessible without authentication)
 const isPublicRoute = createRouteMatcher([
@@ -9,7 +10,7 @@ const isPublicRoute = createRouteMatcher([
   "/api/webhooks(.*)", // For Clerk webhooks
 ]);
 
-// Define admin routes (requires additional check)
+// Define admin routes (firm roles only)
 const isAdminRoute = createRouteMatcher([
   "/admin(.*)",
   "/api/admin(.*)",
@@ -22,7 +23,7 @@ export default clerkMiddleware(async (auth, request) => {
   }
 
   // Check if user is authenticated
-  const { userId } = await auth();
+  const { userId, sessionClaims } = await auth();
 
   // If not authenticated, redirect to sign-in
   if (!userId) {
@@ -31,10 +32,21 @@ export default clerkMiddleware(async (auth, request) => {
     return NextResponse.redirect(signInUrl);
   }
 
-  // TODO: Add admin role check for admin routes
-  // if (isAdminRoute(request)) {
-  //   // Check if user is admin in database
-  // }
+  // Turn away client users using the role cached in the session token.
+  // Tokens issued before the claim was synced have no role; those fall
+  // through to the database check in requirePermission (src/lib/auth.ts).
+  if (isAdminRoute(request)) {
+    const role = sessionClaims?.metadata?.role;
+    if (role && !hasPermission(role, "admin:access")) {
+      if (request.nextUrl.pathname.startsWith("/api/")) {
+        return NextResponse.json(
+          { success: false, error: "Admin access required" },
+          { status: 403 }
+        );
+      }
+      return NextResponse.redirect(new URL("/dashboard", request.url));
+    }
+  }
 });
 
 export const config = {
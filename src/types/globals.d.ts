@@ -0,0 +1,11 @@
+export {};
+
+// Session token claims added in the Clerk dashboard (Sessions → Customize session token):
+// { "metadata": "{{user.public_metadata}}" }
+declare global {
+  interface CustomJwtSessionClaims {
+    metadata?: {
+      role?: string;
+    };
+  }
+}
@@ -6,8 +6,9 @@
 export interface ReportSectionContent {
   // Structured data for dynamic rendering
   tables?: ReportTable[];
-  insights?: string[];
-  questions?: string[];
+  executive_insights?: string[]; // Numbered "Top Executive Insights"
+  insights?: string[]; // Key Takeaways
+  questions?: string[]; // Questions for Management
   
   // Raw markdown fallback
   raw_markdown?: string;
@@ -34,6 +35,57 @@ export interface ReportTableCell {
 // Report status
 export type ReportStatus = "processing" | "complete" | "failed";
 
+// Review workflow
+export type ReportReviewStatus = "draft" | "in_review" | "changes_requested" | "approved";
+export type SectionReviewStatus = "pending" | "approved" | "changes_requested";
+export type SectionReviewDecision = "approve" | "request_changes";
+
+// Section revision history
+export type SectionRevisionSource = "generated" | "edited" | "restored" | "regenerated";
+
+// Generation pipeline stage (tracked on the report by the worker)
+export type GenerationStage =
+  | "uploading"
+  | "queued"
+  | "extracting"
+  | "generating"
+  | "saving"
+  | "retrying"
+  | "complete"
+  | "failed";
+
+export interface ReportGenerationStatus {
+  reportId: string;
+  companyId: string;
+  status: ReportStatus;
+  stage: GenerationStage | null;
+  progress: number;
+  stageUpdatedAt: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  attempts: number;
+  errorMessage: string | null;
+  sectionsGenerated: number;
+}
+
+export interface BatchReportStatus extends Omit<ReportGenerationStatus, "sectionsGenerated"> {
+  companyName: string;
+  fileName: string | null;
+  waiting: boolean; // Uploaded, but the batch hasn't started it yet
+  inputTokens: number | null; // All attempts so far
+  outputTokens: number | null;
+  costUsd: number | null;
+}
+
+export interface GenerationBatchStatus {
+  id: string;
+  periodEnd: string;
+  concurrency: number;
+  createdAt: string;
+  counts: { total: number; waiting: number; running: number; complete: number; failed: number };
+  reports: BatchReportStatus[];
+}
+
 // Metric configuration
 export interface MetricConfig {
   sections: {
@@ -88,6 +140,50 @@ export interface ReportDetail {
   createdAt: string;
 }
 
+export interface InvitationListItem {
+  id: string;
+  email: string;
+  role: string;
+  invitedBy: string | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface NotificationPreferences {
+  notifyOnPublish: boolean;
+  notifyOnScheduledRun: boolean;
+}
+
+export interface ReportScheduleDetail {
+  enabled: boolean;
+  sourceFolder: string;
+  businessDay: number;
+  lastRunAt: string | null;
+  lastPeriodEnd: string | null;
+  lastStatus: string | null;
+  lastMessage: string | null;
+  nextRunAt: string | null; // Null while disabled
+}
+
+export interface AuditLogEntry {
+  id: string;
+  timestamp: string;
+  action: string;
+  user: { id: string; email: string } | null;
+  company: { id: string; name: string } | null;
+  report: { id: string; periodLabel: string | null } | null;
+  details: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
 // Excel processing types
 export interface ExcelExtractionResult {
   sheets: {
@@ -100,6 +196,49 @@ export interface ExcelExtractionResult {
   allSheetNames: string[];
 }
 
+// What one sheet role would use from an uploaded workbook (see preflightWorkbook)
+export interface SheetPreflight {
+  role: string;
+  label: string;
+  required: boolean;
+  sheetName: string | null; // Null when not found
+  matchedBy: "mapping" | "name" | "alias" | null;
+  matchedName: string | null;
+  expectedName: string;
+  range: string | null;
+  rows: number;
+  columns: number;
+  periodColumns: string[]; // Month headers found, e.g. "Oct 2025"
+  estimatedTokens: number; // As sent, after any trimming
+  originalTokens: number;
+  included: boolean; // Sent to the model
+  skippedForBudget: boolean;
+  trimSteps: string[]; // How it was cut down to fit the budget
+  duplicateOf: string | null; // Role that already uses the same tab
+}
+
+// One uploaded file and the tabs it became (see importers.ts)
+export interface ImportedFile {
+  fileName: string;
+  format: "workbook" | "csv" | "quickbooks" | "xero";
+  role: string | null; // Statement an export was read as, null for workbooks
+  sheetNames: string[];
+}
+
+export interface WorkbookPreflight {
+  sheets: SheetPreflight[];
+  allSheets: string[];
+  totalTokens: number;
+  maxTokens: number;
+  blockingIssues: string[]; // Generation can't start until these are fixed
+  warnings: string[];
+}
+
+// Preflight of the files on the generate page, combined into one workbook
+export interface UploadPreflight extends WorkbookPreflight {
+  files: ImportedFile[];
+}
+
 // Form types
 export interface GenerateReportForm {
   companyId: string;
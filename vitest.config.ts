@@ -0,0 +1,20 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    env: {
+      ANTHROPIC_API_KEY: "test",
+      TOKEN_COUNTER: "local",
+      EMAIL_TRANSPORT: "mock",
+      CLERK_WEBHOOK_SECRET: "whsec_dGVzdHNlY3JldA==",
+      NEXT_PUBLIC_SUPABASE_URL: "https://storage.test",
+      SUPABASE_SERVICE_ROLE_KEY: "test",
+    },
+  },
+});